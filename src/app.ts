@@ -10,8 +10,13 @@ import {
   documentRoutes,
   crmCardRoutes,
   webhookRoutes,
+  settingsRoutes,
+  jobRoutes,
+  adminRoutes,
+  pageRoutes,
   healthRoutes
 } from './routes';
+import { getJobQueue } from './services/job-queue.service';
 import {
   errorHandler,
   requestLogger,
@@ -43,8 +48,14 @@ export function createApp(): Express {
   app.use('/api/documents', apiRateLimiter, documentRoutes);
   app.use('/api/crm-card', apiRateLimiter, crmCardRoutes);
   app.use('/api/webhooks', apiRateLimiter, webhookRoutes);
+  app.use('/api/settings', apiRateLimiter, settingsRoutes);
+  app.use('/api/jobs', apiRateLimiter, jobRoutes);
+  app.use('/api/admin', authRateLimiter, adminRoutes);
   app.use('/health', healthRoutes);
 
+  // Pages opened in CRM card iframes
+  app.use(pageRoutes);
+
   // Root endpoint
   app.get('/', (req: Request, res: Response) => {
     res.json({
@@ -56,6 +67,9 @@ export function createApp(): Express {
         documents: '/api/documents',
         crmCard: '/api/crm-card',
         webhooks: '/api/webhooks',
+        settings: '/api/settings',
+        jobs: '/api/jobs',
+        admin: '/api/admin',
         health: '/health'
       }
     });
@@ -85,6 +99,15 @@ export function startServer(): void {
   const app = createApp();
   const port = config.port;
 
+  // Pick up analysis jobs left unfinished by the previous process
+  getJobQueue().resume()
+    .then(count => {
+      if (count > 0) {
+        console.log(`Resumed ${count} analysis job(s)`);
+      }
+    })
+    .catch(error => console.error('Failed to resume analysis jobs:', error));
+
   app.listen(port, () => {
     console.log(`
 ╔═══════════════════════════════════════════════════════════╗
@@ -96,6 +119,7 @@ Endpoints:
   - OAuth:      http://localhost:${port}/oauth/authorize
   - Documents:  http://localhost:${port}/api/documents
   - CRM Card:   http://localhost:${port}/api/crm-card
+  - Jobs:       http://localhost:${port}/api/jobs
   - Health:     http://localhost:${port}/health
     `);
   });
@@ -3,6 +3,9 @@
  * Environment variables required for the HubSpot Document Intelligence App
  */
 
+import * as os from 'os';
+import * as path from 'path';
+
 export interface AppConfig {
   port: number;
   hubspot: {
@@ -10,14 +13,38 @@ export interface AppConfig {
     clientSecret: string;
     redirectUri: string;
     scopes: string[];
+    apiBaseUrl: string;
+    appId: string;
+    developerApiKey: string;
+    timelineEventTemplateId: string; // Used until a template is registered through the admin route
+  };
+  admin: {
+    apiKey: string;
   };
   openai: {
     apiKey: string;
   };
+  llm: {
+    provider: 'openai' | 'openai-compatible';
+    model: string;
+    baseUrl: string;
+    apiKey: string;
+    allowedHosts: string[]; // Hosts portal settings may use even if private, e.g. a local Ollama server
+  };
   upload: {
     maxFileSize: number;
     allowedMimeTypes: string[];
   };
+  storage: {
+    driver: 'file' | 'memory';
+    path: string;
+    blobPath: string;
+  };
+  jobs: {
+    concurrency: number;
+    maxAttempts: number;
+    retryDelayMs: number;
+  };
 }
 
 export function loadConfig(): AppConfig {
@@ -46,14 +73,33 @@ export function loadConfig(): AppConfig {
       scopes: [
         'crm.objects.deals.read',
         'crm.objects.deals.write',
+        'crm.schemas.deals.write',
         'files',
         'timeline',
         'oauth'
-      ]
+      ],
+      // Point at a local fake HubSpot server in tests
+      apiBaseUrl: process.env.HUBSPOT_API_BASE_URL || 'https://api.hubapi.com',
+      appId: process.env.HUBSPOT_APP_ID || '',
+      developerApiKey: process.env.HUBSPOT_DEVELOPER_API_KEY || '',
+      timelineEventTemplateId: process.env.HUBSPOT_TIMELINE_EVENT_TEMPLATE_ID || ''
+    },
+    admin: {
+      apiKey: process.env.ADMIN_API_KEY || ''
     },
     openai: {
       apiKey: process.env.OPENAI_API_KEY || ''
     },
+    llm: {
+      provider: process.env.LLM_PROVIDER === 'openai-compatible' ? 'openai-compatible' : 'openai',
+      model: process.env.LLM_MODEL || 'gpt-4o-mini',
+      baseUrl: process.env.LLM_BASE_URL || '',
+      apiKey: process.env.LLM_API_KEY || '',
+      allowedHosts: (process.env.LLM_ALLOWED_HOSTS || '')
+        .split(',')
+        .map(host => host.trim().toLowerCase())
+        .filter(Boolean)
+    },
     upload: {
       maxFileSize: 10 * 1024 * 1024, // 10MB
       allowedMimeTypes: [
@@ -64,6 +110,20 @@ export function loadConfig(): AppConfig {
         'application/msword',
         'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
       ]
+    },
+    storage: {
+      // Tests default to memory so runs never touch the data directory
+      driver: (process.env.STORAGE_DRIVER || (process.env.NODE_ENV === 'test' ? 'memory' : 'file')) === 'memory'
+        ? 'memory'
+        : 'file',
+      path: process.env.STORAGE_PATH || './data/store.json',
+      blobPath: process.env.BLOB_STORE_PATH ||
+        (process.env.NODE_ENV === 'test' ? path.join(os.tmpdir(), 'document-intelligence-blobs') : './data/blobs')
+    },
+    jobs: {
+      concurrency: Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2', 10) || 1),
+      maxAttempts: Math.max(1, parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10) || 1),
+      retryDelayMs: parseInt(process.env.JOB_RETRY_DELAY_MS || '5000', 10)
     }
   };
 }
@@ -95,7 +95,7 @@ export async function requireAuth(
     return;
   }
 
-  if (!isAuthenticated(portalId)) {
+  if (!(await isAuthenticated(portalId))) {
     res.status(401).json({
       success: false,
       error: {
@@ -155,8 +155,9 @@ export function validateHubSpotSignature(
   let isValid = false;
 
   if (signatureVersion === 'v2') {
-    // v2: SHA-256 hash of client secret + HTTP method + URI + request body
-    const sourceString = config.hubspot.clientSecret + req.method + req.originalUrl + rawBody;
+    // v2: SHA-256 hash of client secret + HTTP method + full URI + request body
+    const uri = (process.env.APP_BASE_URL || `${req.protocol}://${req.get('host')}`) + req.originalUrl;
+    const sourceString = config.hubspot.clientSecret + req.method + uri + rawBody;
     const expectedSignature = crypto
       .createHash('sha256')
       .update(sourceString)
@@ -186,6 +187,67 @@ export function validateHubSpotSignature(
   next();
 }
 
+/**
+ * Like validateHubSpotSignature, but rejects v1 signatures, which cover only the body.
+ * For endpoints that take parameters from the query string.
+ */
+export function validateHubSpotUriSignature(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (req.headers['x-hubspot-signature'] && req.headers['x-hubspot-signature-version'] !== 'v2') {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'INVALID_SIGNATURE',
+        message: 'A v2 HubSpot signature is required'
+      }
+    });
+    return;
+  }
+
+  validateHubSpotSignature(req, res, next);
+}
+
+/**
+ * Middleware to restrict app administration to holders of ADMIN_API_KEY
+ */
+export function requireAdminKey(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const expected = config.admin.apiKey;
+  if (!expected) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'ADMIN_DISABLED',
+        message: 'Administration is disabled; set ADMIN_API_KEY to enable it'
+      }
+    });
+    return;
+  }
+
+  const provided = Buffer.from(String(req.headers['x-admin-api-key'] ?? ''));
+  const isValid = provided.length === Buffer.byteLength(expected) &&
+    crypto.timingSafeEqual(provided, Buffer.from(expected));
+
+  if (!isValid) {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'INVALID_ADMIN_KEY',
+        message: 'A valid x-admin-api-key header is required'
+      }
+    });
+    return;
+  }
+
+  next();
+}
+
 /**
  * Error handling middleware
  */
@@ -0,0 +1,48 @@
+/**
+ * Admin Routes
+ * App-level setup in HubSpot, restricted to holders of the admin API key
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAdminKey } from '../middleware/auth.middleware';
+import { config } from '../config';
+import { registerTimelineTemplate } from '../services/timeline.service';
+
+const router = Router();
+
+/**
+ * POST /api/admin/timeline-template
+ * Register the analysis timeline event template for the app and start posting events with it
+ */
+router.post('/timeline-template', requireAdminKey, async (req: Request, res: Response) => {
+  if (!config.hubspot.appId || !config.hubspot.developerApiKey) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'MISSING_CONFIGURATION',
+        message: 'HUBSPOT_APP_ID and HUBSPOT_DEVELOPER_API_KEY are required'
+      }
+    });
+    return;
+  }
+
+  try {
+    const templateId = await registerTimelineTemplate();
+
+    res.json({
+      success: true,
+      data: { templateId }
+    });
+  } catch (error) {
+    console.error('Timeline template registration failed:', error);
+    res.status(502).json({
+      success: false,
+      error: {
+        code: 'TEMPLATE_REGISTRATION_FAILED',
+        message: (error as Error).message
+      }
+    });
+  }
+});
+
+export default router;
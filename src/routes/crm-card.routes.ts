@@ -4,20 +4,22 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { validateHubSpotSignature } from '../middleware/auth.middleware';
+import { validateHubSpotSignature, validateHubSpotUriSignature } from '../middleware/auth.middleware';
 import { generateCrmCardData } from '../services/crm-card.service';
-import { DocumentAnalysis } from '../types';
-import { documentStore, dealDocuments } from './document.routes';
+import { getDealAnalyses } from '../services/repository.service';
+import { calculateDealScore, countOpenFindings } from '../services/scoring-engine.service';
+import { getPolicyForScore, getScoringPolicy } from '../services/scoring-policy.service';
 
 const router = Router();
 
 /**
  * GET /api/crm-card
  * Returns CRM card data for HubSpot
- * This endpoint is called by HubSpot when displaying the CRM card
+ * This endpoint is called by HubSpot when displaying the CRM card. The signature must cover
+ * the query string, since the card's dismiss links vouch for the user named there.
  */
-router.get('/', validateHubSpotSignature, (req: Request, res: Response) => {
-  const { hs_object_id, portalId } = req.query;
+router.get('/', validateHubSpotUriSignature, async (req: Request, res: Response) => {
+  const { hs_object_id, portalId, userEmail, userId } = req.query;
 
   if (!hs_object_id) {
     res.status(400).json({
@@ -30,24 +32,28 @@ router.get('/', validateHubSpotSignature, (req: Request, res: Response) => {
     return;
   }
 
+  if (!portalId) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'MISSING_PORTAL_ID',
+        message: 'Portal ID is required'
+      }
+    });
+    return;
+  }
+
   const dealId = hs_object_id as string;
   const baseUrl = process.env.APP_BASE_URL || `${req.protocol}://${req.get('host')}`;
 
   // Get the most recent document analysis for the deal
-  const documentIds = dealDocuments.get(dealId) || [];
-  let latestAnalysis: DocumentAnalysis | null = null;
+  const analyses = (await getDealAnalyses(portalId as string, dealId))
+    .sort((a, b) => new Date(b.analyzedAt).getTime() - new Date(a.analyzedAt).getTime());
+  const latestAnalysis = analyses[0] || null;
 
-  if (documentIds.length > 0) {
-    // Get the most recent analysis
-    const analyses = documentIds
-      .map(id => documentStore.get(id))
-      .filter((doc): doc is DocumentAnalysis => doc !== undefined)
-      .sort((a, b) => new Date(b.analyzedAt).getTime() - new Date(a.analyzedAt).getTime());
-
-    latestAnalysis = analyses[0] || null;
-  }
-
-  const cardData = generateCrmCardData(latestAnalysis, dealId, baseUrl);
+  const policy = latestAnalysis ? await getPolicyForScore(portalId as string, latestAnalysis.riskScore) : undefined;
+  const user = String(userEmail || userId || 'unknown');
+  const cardData = generateCrmCardData(latestAnalysis, dealId, baseUrl, portalId as string, policy, user);
 
   res.json(cardData);
 });
@@ -56,8 +62,8 @@ router.get('/', validateHubSpotSignature, (req: Request, res: Response) => {
  * GET /api/crm-card/summary
  * Returns a summary for all documents associated with a deal
  */
-router.get('/summary', validateHubSpotSignature, (req: Request, res: Response) => {
-  const { hs_object_id } = req.query;
+router.get('/summary', validateHubSpotSignature, async (req: Request, res: Response) => {
+  const { hs_object_id, portalId } = req.query;
 
   if (!hs_object_id) {
     res.status(400).json({
@@ -70,59 +76,56 @@ router.get('/summary', validateHubSpotSignature, (req: Request, res: Response) =
     return;
   }
 
-  const dealId = hs_object_id as string;
-  const documentIds = dealDocuments.get(dealId) || [];
-
-  const analyses = documentIds
-    .map(id => documentStore.get(id))
-    .filter((doc): doc is DocumentAnalysis => doc !== undefined);
-
-  if (analyses.length === 0) {
-    res.json({
-      success: true,
-      data: {
-        dealId,
-        documentsCount: 0,
-        overallRiskGrade: 'N/A',
-        averageRiskScore: null,
-        totalRisks: 0,
-        totalBlockers: 0
+  if (!portalId) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'MISSING_PORTAL_ID',
+        message: 'Portal ID is required'
       }
     });
     return;
   }
 
-  // Calculate aggregate statistics
-  const totalScore = analyses.reduce((sum, a) => sum + a.riskScore.overall, 0);
-  const averageScore = Math.round(totalScore / analyses.length);
-  const totalRisks = analyses.reduce((sum, a) => sum + a.risks.length, 0);
-  const totalBlockers = analyses.reduce((sum, a) => sum + a.blockers.length, 0);
-
-  // Determine overall grade based on average score
-  let overallGrade: string;
-  if (averageScore <= 20) overallGrade = 'A';
-  else if (averageScore <= 40) overallGrade = 'B';
-  else if (averageScore <= 60) overallGrade = 'C';
-  else if (averageScore <= 80) overallGrade = 'D';
-  else overallGrade = 'F';
+  const dealId = hs_object_id as string;
+  // HubSpot sends the deal stage when the card requests the dealstage property
+  const dealStage = typeof req.query.dealstage === 'string' ? req.query.dealstage : undefined;
+  const analyses = await getDealAnalyses(portalId as string, dealId);
+  const dealScore = calculateDealScore(analyses, dealStage, await getScoringPolicy(portalId as string));
+  const openFindings = countOpenFindings(analyses);
+  // Kept for consumers written before the weighted deal score: the plain mean of the current documents
+  const currentScores = dealScore.documents.filter(d => !d.supersededBy).map(d => d.score);
+  const averageRiskScore = currentScores.length > 0
+    ? Math.round(currentScores.reduce((sum, score) => sum + score, 0) / currentScores.length)
+    : null;
 
   res.json({
     success: true,
     data: {
       dealId,
+      dealStage: dealStage || null,
       documentsCount: analyses.length,
-      overallRiskGrade: overallGrade,
-      averageRiskScore: averageScore,
-      totalRisks,
-      totalBlockers,
-      documents: analyses.map(a => ({
-        documentId: a.documentId,
-        filename: a.filename,
-        documentType: a.documentType,
-        riskGrade: a.riskScore.grade,
-        risksCount: a.risks.length,
-        blockersCount: a.blockers.length
-      }))
+      overallRiskGrade: dealScore.grade || 'N/A',
+      riskScore: dealScore.overall,
+      averageRiskScore,
+      totalRisks: openFindings.risks,
+      totalBlockers: openFindings.blockers,
+      missingDocuments: dealScore.missingDocuments,
+      documents: dealScore.documents.map(document => {
+        const analysis = analyses.find(a => a.documentId === document.documentId)!;
+        const documentFindings = countOpenFindings([analysis]);
+        return {
+          documentId: document.documentId,
+          filename: document.filename,
+          documentType: document.documentType,
+          riskGrade: document.grade,
+          riskScore: document.score,
+          weight: document.weight,
+          supersededBy: document.supersededBy,
+          risksCount: documentFindings.risks,
+          blockersCount: documentFindings.blockers
+        };
+      })
     }
   });
 });
@@ -13,14 +13,18 @@ import {
   getUploadDir,
   cleanupFile
 } from '../services/document-ingestion.service';
-import { analyzeDocument } from '../services/scoring-engine.service';
-import { DocumentAnalysis } from '../types';
+import { getJobQueue, toReanalysisJob } from '../services/job-queue.service';
+import { summarizeVersions } from '../services/document-versioning.service';
+import { compareAnalyses } from '../services/redline.service';
+import { createActionTasks, getRequiredActions } from '../services/action-tasks.service';
+import { getRepository, getDealAnalyses } from '../services/repository.service';
+import { syncDeals } from '../services/deal-properties.service';
+import { deleteUnreferencedBlob } from '../services/blob-store.service';
+import { explainRiskScore, getGradeRange, getScoreContributions } from '../services/scoring-engine.service';
+import { getPolicyForScore } from '../services/scoring-policy.service';
+import { dismissRisk, verifyDismissalGrant } from '../services/finding-decisions.service';
 import { sanitizeFilename } from '../utils';
 
-// In-memory document storage (use database in production)
-const documentStore = new Map<string, DocumentAnalysis>();
-const dealDocuments = new Map<string, string[]>(); // dealId -> documentIds[]
-
 // Configure multer for file uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -43,7 +47,7 @@ const router = Router();
 
 /**
  * POST /api/documents/upload
- * Upload and analyze a document
+ * Upload a document and queue it for analysis
  */
 router.post('/upload', uploadRateLimiter, requireAuth, upload.single('document'), async (req: Request, res: Response) => {
   const { dealId } = req.body;
@@ -89,39 +93,32 @@ router.post('/upload', uploadRateLimiter, requireAuth, upload.single('document')
   }
 
   try {
-    const documentId = randomUUID();
-    const analysis = await analyzeDocument(
-      req.file.path,
-      req.file.originalname,
-      req.file.mimetype,
-      documentId
-    );
-
-    // Store the analysis
-    documentStore.set(documentId, analysis);
-
-    // Associate with deal
-    const existingDocs = dealDocuments.get(dealId) || [];
-    existingDocs.push(documentId);
-    dealDocuments.set(dealId, existingDocs);
-
-    // Clean up uploaded file after analysis
-    cleanupFile(req.file.path);
+    // Analysis runs in the background; the file is removed once the job settles
+    const job = await getJobQueue().enqueue({
+      portalId: req.portalId!,
+      dealId,
+      filename: req.file.originalname,
+      mimeType: req.file.mimetype,
+      filePath: req.file.path
+    });
 
-    res.json({
+    res.status(202).json({
       success: true,
-      data: analysis
+      data: {
+        jobId: job.id,
+        documentId: job.documentId,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`
+      }
     });
   } catch (error) {
-    console.error('Document analysis failed:', error);
-    if (req.file) {
-      cleanupFile(req.file.path);
-    }
+    console.error('Failed to queue document analysis:', error);
+    cleanupFile(req.file.path);
     res.status(500).json({
       success: false,
       error: {
         code: 'ANALYSIS_FAILED',
-        message: 'Failed to analyze document'
+        message: 'Failed to queue document analysis'
       }
     });
   }
@@ -131,10 +128,10 @@ router.post('/upload', uploadRateLimiter, requireAuth, upload.single('document')
  * GET /api/documents/:documentId
  * Get a specific document analysis
  */
-router.get('/:documentId', requireAuth, (req: Request, res: Response) => {
+router.get('/:documentId', requireAuth, async (req: Request, res: Response) => {
   const { documentId } = req.params;
 
-  const analysis = documentStore.get(documentId);
+  const analysis = await getRepository().analyses.get(req.portalId!, documentId);
 
   if (!analysis) {
     res.status(404).json({
@@ -157,13 +154,10 @@ router.get('/:documentId', requireAuth, (req: Request, res: Response) => {
  * GET /api/documents/deal/:dealId
  * Get all documents for a deal
  */
-router.get('/deal/:dealId', requireAuth, (req: Request, res: Response) => {
+router.get('/deal/:dealId', requireAuth, async (req: Request, res: Response) => {
   const { dealId } = req.params;
 
-  const documentIds = dealDocuments.get(dealId) || [];
-  const documents = documentIds
-    .map(id => documentStore.get(id))
-    .filter((doc): doc is DocumentAnalysis => doc !== undefined);
+  const documents = await getDealAnalyses(req.portalId!, dealId);
 
   res.json({
     success: true,
@@ -179,17 +173,40 @@ router.get('/deal/:dealId', requireAuth, (req: Request, res: Response) => {
  * DELETE /api/documents/:documentId
  * Delete a document analysis
  */
-router.delete('/:documentId', requireAuth, (req: Request, res: Response) => {
+router.delete('/:documentId', requireAuth, async (req: Request, res: Response) => {
   const { documentId } = req.params;
 
-  const existed = documentStore.delete(documentId);
+  const repository = getRepository();
+  // Associations and versions are gone once the document is removed, so note its deals and files first
+  const dealIds = await repository.deals.listDealIds(req.portalId!, documentId);
+  const versions = [
+    await repository.analyses.get(req.portalId!, documentId),
+    ...await repository.analyses.listVersions(req.portalId!, documentId)
+  ];
+  const blobHashes = new Set(versions.map(version => version?.blobHash).filter((hash): hash is string => !!hash));
+  const existed = await repository.analyses.delete(req.portalId!, documentId);
+
+  if (!existed) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Document not found'
+      }
+    });
+    return;
+  }
 
   // Remove from deal associations
-  for (const [dealId, docs] of dealDocuments.entries()) {
-    const index = docs.indexOf(documentId);
-    if (index !== -1) {
-      docs.splice(index, 1);
-      dealDocuments.set(dealId, docs);
+  await repository.deals.removeDocument(req.portalId!, documentId);
+  // Recompute the deals' properties without the document, clearing them if it was the last one
+  await syncDeals(req.portalId!, dealIds);
+
+  for (const hash of blobHashes) {
+    try {
+      await deleteUnreferencedBlob(hash);
+    } catch (error) {
+      console.error(`Failed to delete original file ${hash} of document ${documentId}:`, error);
     }
   }
 
@@ -203,12 +220,12 @@ router.delete('/:documentId', requireAuth, (req: Request, res: Response) => {
 
 /**
  * POST /api/documents/:documentId/reanalyze
- * Re-analyze an existing document
+ * Queue a document to be analyzed again from its original file with current rules and models
  */
 router.post('/:documentId/reanalyze', requireAuth, async (req: Request, res: Response) => {
   const { documentId } = req.params;
 
-  const existingAnalysis = documentStore.get(documentId);
+  const existingAnalysis = await getRepository().analyses.get(req.portalId!, documentId);
 
   if (!existingAnalysis) {
     res.status(404).json({
@@ -221,14 +238,179 @@ router.post('/:documentId/reanalyze', requireAuth, async (req: Request, res: Res
     return;
   }
 
-  // In a real implementation, you would re-process the stored document
-  // For now, we just update the timestamp
-  existingAnalysis.analyzedAt = new Date().toISOString();
-  documentStore.set(documentId, existingAnalysis);
+  const reanalysis = toReanalysisJob(req.portalId!, existingAnalysis);
+
+  if (!reanalysis) {
+    res.status(409).json({
+      success: false,
+      error: {
+        code: 'ORIGINAL_NOT_AVAILABLE',
+        message: 'The original file was not retained; upload the document again'
+      }
+    });
+    return;
+  }
+
+  const job = await getJobQueue().enqueue(reanalysis);
+
+  res.status(202).json({
+    success: true,
+    data: {
+      jobId: job.id,
+      documentId,
+      status: job.status,
+      statusUrl: `/api/jobs/${job.id}`
+    }
+  });
+});
+
+/**
+ * POST /api/documents/:documentId/tasks
+ * Create a HubSpot task on the deal for each open required action of the document
+ */
+router.post('/:documentId/tasks', requireAuth, async (req: Request, res: Response) => {
+  const { documentId } = req.params;
+  const dealId = (req.body?.dealId || req.query.dealId) as string | undefined;
+
+  if (!dealId) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'MISSING_DEAL_ID',
+        message: 'Deal ID is required'
+      }
+    });
+    return;
+  }
+
+  const dealIds = await getRepository().deals.listDealIds(req.portalId!, documentId);
+
+  if (!dealIds.includes(String(dealId))) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Document not found on this deal'
+      }
+    });
+    return;
+  }
+
+  try {
+    const created = await createActionTasks(req.portalId!, documentId, String(dealId));
+    const analysis = await getRepository().analyses.get(req.portalId!, documentId);
+
+    res.json({
+      success: true,
+      data: {
+        documentId,
+        dealId,
+        tasksCreated: created.length,
+        requiredActions: analysis ? getRequiredActions(analysis) : created
+      }
+    });
+  } catch (error) {
+    console.error('Task creation failed:', error);
+    res.status(502).json({
+      success: false,
+      error: {
+        code: 'TASK_CREATION_FAILED',
+        message: (error as Error).message
+      }
+    });
+  }
+});
+
+/**
+ * GET /api/documents/:documentId/versions
+ * List a document's versions with how its grade and risks changed between them
+ */
+router.get('/:documentId/versions', requireAuth, async (req: Request, res: Response) => {
+  const { documentId } = req.params;
+  const repository = getRepository();
+
+  const analysis = await repository.analyses.get(req.portalId!, documentId);
+
+  if (!analysis) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Document not found'
+      }
+    });
+    return;
+  }
+
+  const priorVersions = await repository.analyses.listVersions(req.portalId!, documentId);
+  const versions = summarizeVersions([...priorVersions, analysis]);
+
+  res.json({
+    success: true,
+    data: {
+      documentId,
+      currentVersion: versions[versions.length - 1].version,
+      trend: analysis.riskScore.trend,
+      versions
+    }
+  });
+});
+
+/**
+ * GET /api/documents/:documentId/compare?from={version}&to={version}
+ * Redline two versions of a document; defaults to the previous version against the current one
+ */
+router.get('/:documentId/compare', requireAuth, async (req: Request, res: Response) => {
+  const { documentId } = req.params;
+  const repository = getRepository();
+
+  const analysis = await repository.analyses.get(req.portalId!, documentId);
+
+  if (!analysis) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Document not found'
+      }
+    });
+    return;
+  }
+
+  const versions = [...await repository.analyses.listVersions(req.portalId!, documentId), analysis]
+    .map((version, index) => ({ ...version, version: version.version || index + 1 }));
+  const current = versions[versions.length - 1].version;
+
+  const requested = [req.query.from ?? current - 1, req.query.to ?? current].map(Number);
+  if (requested.some(version => !Number.isInteger(version))) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_VERSION',
+        message: 'from and to must be version numbers'
+      }
+    });
+    return;
+  }
+
+  const [base, revised] = requested.map(number => versions.find(version => version.version === number));
+
+  if (!base || !revised) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'VERSION_NOT_FOUND',
+        message: versions.length > 1
+          ? `Available versions are 1 to ${current}`
+          : 'Document has no earlier version to compare with'
+      }
+    });
+    return;
+  }
 
   res.json({
     success: true,
-    data: existingAnalysis
+    data: compareAnalyses(base, revised)
   });
 });
 
@@ -236,10 +418,10 @@ router.post('/:documentId/reanalyze', requireAuth, async (req: Request, res: Res
  * GET /api/documents/:documentId/risks
  * Get risks for a specific document
  */
-router.get('/:documentId/risks', requireAuth, (req: Request, res: Response) => {
+router.get('/:documentId/risks', requireAuth, async (req: Request, res: Response) => {
   const { documentId } = req.params;
 
-  const analysis = documentStore.get(documentId);
+  const analysis = await getRepository().analyses.get(req.portalId!, documentId);
 
   if (!analysis) {
     res.status(404).json({
@@ -262,14 +444,108 @@ router.get('/:documentId/risks', requireAuth, (req: Request, res: Response) => {
   });
 });
 
+/**
+ * POST /api/documents/:documentId/risks/:riskId/dismiss
+ * Dismiss a risk with a reason, from the page the CRM card opens to dismiss it.
+ * Who dismissed it comes from the grant the card signed the page link with.
+ */
+router.post('/:documentId/risks/:riskId/dismiss', requireAuth, async (req: Request, res: Response) => {
+  const { documentId, riskId } = req.params;
+  const { reason, grant } = req.body || {};
+
+  const granted = verifyDismissalGrant(grant);
+  if (!granted || granted.portalId !== req.portalId || granted.documentId !== documentId || granted.riskId !== riskId) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'INVALID_GRANT',
+        message: 'Open the dismiss page from the CRM card again'
+      }
+    });
+    return;
+  }
+
+  if (typeof reason !== 'string' || !reason.trim()) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'MISSING_REASON',
+        message: 'A reason is required to dismiss a risk'
+      }
+    });
+    return;
+  }
+
+  const updated = await dismissRisk(req.portalId!, documentId, riskId, {
+    by: granted.user,
+    at: new Date().toISOString(),
+    reason: reason.trim()
+  });
+
+  if (!updated) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Risk not found'
+      }
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: {
+      documentId,
+      risk: updated.risks.find(risk => risk.id === riskId),
+      riskScore: updated.riskScore
+    }
+  });
+});
+
+/**
+ * GET /api/documents/:documentId/score
+ * Get what each finding adds to a document's score and why it got its grade
+ */
+router.get('/:documentId/score', requireAuth, async (req: Request, res: Response) => {
+  const { documentId } = req.params;
+
+  const analysis = await getRepository().analyses.get(req.portalId!, documentId);
+
+  if (!analysis) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Document not found'
+      }
+    });
+    return;
+  }
+
+  const policy = await getPolicyForScore(req.portalId!, analysis.riskScore);
+
+  res.json({
+    success: true,
+    data: {
+      documentId,
+      riskScore: analysis.riskScore,
+      policyVersion: policy.version,
+      gradeRange: getGradeRange(analysis.riskScore.grade, policy),
+      contributions: getScoreContributions(analysis, policy),
+      explanation: explainRiskScore(analysis, policy)
+    }
+  });
+});
+
 /**
  * GET /api/documents/:documentId/entities
  * Get extracted entities for a document
  */
-router.get('/:documentId/entities', requireAuth, (req: Request, res: Response) => {
+router.get('/:documentId/entities', requireAuth, async (req: Request, res: Response) => {
   const { documentId } = req.params;
 
-  const analysis = documentStore.get(documentId);
+  const analysis = await getRepository().analyses.get(req.portalId!, documentId);
 
   if (!analysis) {
     res.status(404).json({
@@ -295,10 +571,10 @@ router.get('/:documentId/entities', requireAuth, (req: Request, res: Response) =
  * GET /api/documents/:documentId/blockers
  * Get blockers for a document
  */
-router.get('/:documentId/blockers', requireAuth, (req: Request, res: Response) => {
+router.get('/:documentId/blockers', requireAuth, async (req: Request, res: Response) => {
   const { documentId } = req.params;
 
-  const analysis = documentStore.get(documentId);
+  const analysis = await getRepository().analyses.get(req.portalId!, documentId);
 
   if (!analysis) {
     res.status(404).json({
@@ -321,6 +597,4 @@ router.get('/:documentId/blockers', requireAuth, (req: Request, res: Response) =
   });
 });
 
-// Export for testing
-export { documentStore, dealDocuments };
 export default router;
@@ -6,4 +6,8 @@ export { default as oauthRoutes } from './oauth.routes';
 export { default as documentRoutes } from './document.routes';
 export { default as crmCardRoutes } from './crm-card.routes';
 export { default as webhookRoutes } from './webhook.routes';
+export { default as settingsRoutes } from './settings.routes';
+export { default as jobRoutes } from './job.routes';
+export { default as adminRoutes } from './admin.routes';
+export { default as pageRoutes } from './page.routes';
 export { default as healthRoutes } from './health.routes';
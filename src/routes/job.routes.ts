@@ -0,0 +1,66 @@
+/**
+ * Job Routes
+ * Status polling for background document analysis
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import { getRepository } from '../services/repository.service';
+import { AnalysisJob } from '../types';
+
+const router = Router();
+
+/**
+ * Job as returned to clients, without server file paths
+ */
+function toResponse(job: AnalysisJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    stage: job.stage,
+    attempts: job.attempts,
+    error: job.error,
+    dealId: job.dealId,
+    documentId: job.documentId,
+    filename: job.filename,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt
+  };
+}
+
+/**
+ * GET /api/jobs/:jobId
+ * Get the status of an analysis job, with the analysis once it completes
+ */
+router.get('/:jobId', requireAuth, async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  const repository = getRepository();
+
+  const job = await repository.jobs.get(req.portalId!, jobId);
+
+  if (!job) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Job not found'
+      }
+    });
+    return;
+  }
+
+  const result = job.status === 'completed'
+    ? await repository.analyses.get(req.portalId!, job.documentId)
+    : undefined;
+
+  res.json({
+    success: true,
+    data: {
+      ...toResponse(job),
+      result
+    }
+  });
+});
+
+export default router;
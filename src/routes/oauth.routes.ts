@@ -10,6 +10,7 @@ import {
   removeTokens,
   isAuthenticated
 } from '../services/oauth.service';
+import { ensureDealProperties } from '../services/deal-properties.service';
 
 const router = Router();
 
@@ -54,6 +55,13 @@ router.get('/callback', async (req: Request, res: Response) => {
   try {
     const tokens = await exchangeCodeForTokens(code);
 
+    // A portal without the properties still works; analyses just aren't synced to deals
+    if (tokens.portalId) {
+      await ensureDealProperties(tokens.portalId).catch(err => {
+        console.error(`Failed to create deal properties for portal ${tokens.portalId}:`, err);
+      });
+    }
+
     // In production, redirect to success page or app
     res.json({
       success: true,
@@ -78,7 +86,7 @@ router.get('/callback', async (req: Request, res: Response) => {
  * GET /oauth/status
  * Check authentication status for a portal
  */
-router.get('/status', (req: Request, res: Response) => {
+router.get('/status', async (req: Request, res: Response) => {
   const portalId = req.query.portalId as string;
 
   if (!portalId) {
@@ -92,7 +100,7 @@ router.get('/status', (req: Request, res: Response) => {
     return;
   }
 
-  const authenticated = isAuthenticated(portalId);
+  const authenticated = await isAuthenticated(portalId);
 
   res.json({
     success: true,
@@ -107,7 +115,7 @@ router.get('/status', (req: Request, res: Response) => {
  * POST /oauth/logout
  * Remove tokens for a portal (logout)
  */
-router.post('/logout', (req: Request, res: Response) => {
+router.post('/logout', async (req: Request, res: Response) => {
   const portalId = req.body.portalId as string;
 
   if (!portalId) {
@@ -121,7 +129,7 @@ router.post('/logout', (req: Request, res: Response) => {
     return;
   }
 
-  const removed = removeTokens(portalId);
+  const removed = await removeTokens(portalId);
 
   res.json({
     success: true,
@@ -0,0 +1,130 @@
+/**
+ * Page Routes
+ * HTML pages opened from the CRM card, framed by HubSpot
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import * as crypto from 'crypto';
+import { apiRateLimiter } from '../middleware/auth.middleware';
+import { isAuthenticated } from '../services/oauth.service';
+import { getRepository } from '../services/repository.service';
+import { getPolicyForScore } from '../services/scoring-policy.service';
+import { verifyDismissalGrant } from '../services/finding-decisions.service';
+import {
+  renderDetailsPage,
+  renderDismissRiskPage,
+  renderErrorPage,
+  renderUploadPage
+} from '../services/page-rendering.service';
+
+const router = Router();
+
+// Only HubSpot (and the app itself) may frame these pages
+const FRAME_ANCESTORS = "'self' https://*.hubspot.com https://*.hubspotqa.com";
+
+/**
+ * Allow HubSpot to frame the pages, and only run the scripts and styles they were rendered with
+ */
+function framedPage(req: Request, res: Response, next: NextFunction): void {
+  const nonce = crypto.randomBytes(16).toString('base64');
+  res.locals.nonce = nonce;
+  res.setHeader('Content-Security-Policy', [
+    "default-src 'self'",
+    `script-src 'nonce-${nonce}'`,
+    `style-src 'nonce-${nonce}'`,
+    `frame-ancestors ${FRAME_ANCESTORS}`
+  ].join('; '));
+  res.type('html');
+  next();
+}
+
+/**
+ * Portal the page is for, from the portalId the CRM card adds to the iframe URL.
+ * Renders an error page and returns undefined if the portal is not connected.
+ */
+async function requirePortal(req: Request, res: Response): Promise<string | undefined> {
+  const portalId = req.query.portalId;
+
+  if (typeof portalId !== 'string' || !portalId) {
+    res.status(401).send(renderErrorPage('Portal Required', 'Open this page from the Document Intelligence card in HubSpot.', res.locals.nonce));
+    return undefined;
+  }
+
+  if (!(await isAuthenticated(portalId))) {
+    res.status(401).send(renderErrorPage('Not Connected', 'Connect this HubSpot portal to Document Intelligence first.', res.locals.nonce));
+    return undefined;
+  }
+
+  return portalId;
+}
+
+/**
+ * GET /documents/:documentId/details
+ * Full analysis of a document
+ */
+router.get('/documents/:documentId/details', apiRateLimiter, framedPage, async (req: Request, res: Response) => {
+  const portalId = await requirePortal(req, res);
+  if (!portalId) {
+    return;
+  }
+
+  const analysis = await getRepository().analyses.get(portalId, req.params.documentId);
+
+  if (!analysis) {
+    res.status(404).send(renderErrorPage('Document Not Found', 'This document has not been analyzed or was deleted.', res.locals.nonce));
+    return;
+  }
+
+  const policy = await getPolicyForScore(portalId, analysis.riskScore);
+  res.send(renderDetailsPage(analysis, res.locals.nonce, policy));
+});
+
+/**
+ * GET /documents/:documentId/dismiss?riskId={riskId}&grant={grant}
+ * Dismiss a risk with a reason, as the user the CRM card signed the link for
+ */
+router.get('/documents/:documentId/dismiss', apiRateLimiter, framedPage, async (req: Request, res: Response) => {
+  const portalId = await requirePortal(req, res);
+  if (!portalId) {
+    return;
+  }
+
+  const analysis = await getRepository().analyses.get(portalId, req.params.documentId);
+  const risk = analysis?.risks.find(r => r.id === req.query.riskId);
+
+  if (!analysis || !risk) {
+    res.status(404).send(renderErrorPage('Risk Not Found', 'This risk is no longer part of the document\'s analysis.', res.locals.nonce));
+    return;
+  }
+
+  const { grant } = req.query;
+  const granted = verifyDismissalGrant(grant);
+  if (!granted || granted.portalId !== portalId || granted.documentId !== analysis.documentId || granted.riskId !== risk.id) {
+    res.status(403).send(renderErrorPage('Link Expired', 'Open this page from the Document Intelligence card in HubSpot again.', res.locals.nonce));
+    return;
+  }
+
+  res.send(renderDismissRiskPage(portalId, analysis, risk, { token: grant as string, user: granted.user }, res.locals.nonce));
+});
+
+/**
+ * GET /upload?dealId={dealId}
+ * Upload a document to analyze against a deal
+ */
+router.get('/upload', apiRateLimiter, framedPage, async (req: Request, res: Response) => {
+  const portalId = await requirePortal(req, res);
+  if (!portalId) {
+    return;
+  }
+
+  const { dealId } = req.query;
+
+  if (typeof dealId !== 'string' || !dealId) {
+    res.status(400).send(renderErrorPage('Deal Required', 'Open this page from a deal record in HubSpot.', res.locals.nonce));
+    return;
+  }
+
+  res.send(renderUploadPage(portalId, dealId, res.locals.nonce));
+});
+
+export default router;
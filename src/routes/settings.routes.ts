@@ -0,0 +1,192 @@
+/**
+ * Settings Routes
+ * Per-portal configuration of the LLM provider and model and the risk scoring policy
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import {
+  getPortalLlmSettings,
+  setPortalLlmSettings,
+  removePortalLlmSettings,
+  getDefaultLlmSettings,
+  validateLlmSettings
+} from '../services/llm-provider.service';
+import {
+  getScoringPolicy,
+  getScoringPolicyVersion,
+  listScoringPolicies,
+  setScoringPolicy,
+  removeScoringPolicy,
+  validateScoringPolicy
+} from '../services/scoring-policy.service';
+import { LlmSettings, ScoringPolicy } from '../types';
+
+const router = Router();
+
+/**
+ * Settings as returned to clients, without the API key
+ */
+function toResponse(settings: LlmSettings, source: 'portal' | 'default') {
+  return {
+    provider: settings.provider,
+    model: settings.model,
+    baseUrl: settings.baseUrl,
+    hasApiKey: Boolean(settings.apiKey),
+    source
+  };
+}
+
+/**
+ * GET /api/settings/llm
+ * Get the LLM provider used for the portal's analyses
+ */
+router.get('/llm', requireAuth, async (req: Request, res: Response) => {
+  const settings = await getPortalLlmSettings(req.portalId!);
+
+  res.json({
+    success: true,
+    data: settings
+      ? toResponse(settings, 'portal')
+      : toResponse(getDefaultLlmSettings(), 'default')
+  });
+});
+
+/**
+ * PUT /api/settings/llm
+ * Set the LLM provider and model for the portal
+ */
+router.put('/llm', requireAuth, async (req: Request, res: Response) => {
+  const { settings, error } = validateLlmSettings(req.body);
+
+  if (!settings) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_SETTINGS',
+        message: error
+      }
+    });
+    return;
+  }
+
+  await setPortalLlmSettings(req.portalId!, settings);
+
+  res.json({
+    success: true,
+    data: toResponse(settings, 'portal')
+  });
+});
+
+/**
+ * DELETE /api/settings/llm
+ * Revert the portal to the default LLM provider
+ */
+router.delete('/llm', requireAuth, async (req: Request, res: Response) => {
+  await removePortalLlmSettings(req.portalId!);
+
+  res.json({
+    success: true,
+    data: toResponse(getDefaultLlmSettings(), 'default')
+  });
+});
+
+/**
+ * Scoring policy as returned to clients, with whether it is the portal's own or the default
+ */
+function toPolicyResponse(policy: ScoringPolicy) {
+  return { ...policy, source: policy.version === 0 ? 'default' : 'portal' };
+}
+
+/**
+ * GET /api/settings/scoring-policy
+ * Get the policy the portal's analyses are scored with
+ */
+router.get('/scoring-policy', requireAuth, async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: toPolicyResponse(await getScoringPolicy(req.portalId!))
+  });
+});
+
+/**
+ * PUT /api/settings/scoring-policy
+ * Save a new policy version for the portal; fields left out take the default values
+ */
+router.put('/scoring-policy', requireAuth, async (req: Request, res: Response) => {
+  const { policy, error } = validateScoringPolicy(req.body);
+
+  if (!policy) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_POLICY',
+        message: error
+      }
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: toPolicyResponse(await setScoringPolicy(req.portalId!, policy))
+  });
+});
+
+/**
+ * DELETE /api/settings/scoring-policy
+ * Revert the portal to the default policy
+ */
+router.delete('/scoring-policy', requireAuth, async (req: Request, res: Response) => {
+  await removeScoringPolicy(req.portalId!);
+
+  res.json({
+    success: true,
+    data: toPolicyResponse(await getScoringPolicy(req.portalId!))
+  });
+});
+
+/**
+ * GET /api/settings/scoring-policy/versions
+ * List every policy version the portal has saved
+ */
+router.get('/scoring-policy/versions', requireAuth, async (req: Request, res: Response) => {
+  const versions = await listScoringPolicies(req.portalId!);
+
+  res.json({
+    success: true,
+    data: {
+      activeVersion: (await getScoringPolicy(req.portalId!)).version,
+      versions: versions.map(toPolicyResponse)
+    }
+  });
+});
+
+/**
+ * GET /api/settings/scoring-policy/versions/:version
+ * Get the policy version a stored score was computed with; version 0 is the default
+ */
+router.get('/scoring-policy/versions/:version', requireAuth, async (req: Request, res: Response) => {
+  const version = Number(req.params.version);
+  const policy = Number.isInteger(version) && version >= 0
+    ? await getScoringPolicyVersion(req.portalId!, version)
+    : undefined;
+
+  if (!policy) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: `Scoring policy version ${req.params.version} not found`
+      }
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: toPolicyResponse(policy)
+  });
+});
+
+export default router;
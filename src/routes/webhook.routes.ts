@@ -4,9 +4,14 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { validateHubSpotSignature } from '../middleware/auth.middleware';
-import { createTimelineEvent } from '../services/crm-card.service';
-import { documentStore } from './document.routes';
+import { validateHubSpotSignature, validateHubSpotUriSignature } from '../middleware/auth.middleware';
+import { getRepository } from '../services/repository.service';
+import { getJobQueue, toReanalysisJob } from '../services/job-queue.service';
+import { downloadHubSpotFile, DownloadedFile } from '../services/hubspot-files.service';
+import { syncTaskStatus } from '../services/action-tasks.service';
+import { dismissRisk, resolveBlocker } from '../services/finding-decisions.service';
+import { FindingDecision } from '../types';
+import { validateUpload, cleanupFile } from '../services/document-ingestion.service';
 
 const router = Router();
 
@@ -53,31 +58,108 @@ router.post('/deal-update', validateHubSpotSignature, async (req: Request, res:
   }
 });
 
+/**
+ * POST /api/webhooks/task-update
+ * Mirror status changes of HubSpot tasks created from required actions
+ */
+router.post('/task-update', validateHubSpotSignature, async (req: Request, res: Response) => {
+  const events = req.body;
+
+  if (!Array.isArray(events)) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_PAYLOAD',
+        message: 'Expected array of events'
+      }
+    });
+    return;
+  }
+
+  try {
+    let updated = 0;
+    for (const event of events) {
+      const { objectId, propertyName, propertyValue, portalId } = event;
+
+      if (propertyName === 'hs_task_status' && objectId && portalId && propertyValue) {
+        if (await syncTaskStatus(String(portalId), String(objectId), String(propertyValue))) {
+          updated++;
+        }
+      }
+    }
+
+    res.json({ success: true, data: { updated } });
+  } catch (error) {
+    console.error('Webhook processing error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'PROCESSING_ERROR',
+        message: 'Failed to process webhook'
+      }
+    });
+  }
+});
+
 /**
  * POST /api/webhooks/file-upload
- * Handle file upload webhooks from HubSpot
+ * Download a file attached to a deal in HubSpot and queue it for analysis
  */
 router.post('/file-upload', validateHubSpotSignature, async (req: Request, res: Response) => {
-  const { objectId, fileId, filename, portalId } = req.body;
+  const { objectId, fileId, portalId } = req.body;
+
+  if (!objectId || !fileId || !portalId) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_PAYLOAD',
+        message: 'objectId, fileId and portalId are required'
+      }
+    });
+    return;
+  }
+
+  let file: DownloadedFile | undefined;
 
   try {
-    console.log(`File ${filename} uploaded for deal ${objectId}`);
+    file = await downloadHubSpotFile(String(portalId), String(fileId));
+
+    const validation = validateUpload(file.filename, file.mimeType, file.size);
+    if (!validation.valid) {
+      cleanupFile(file.filePath);
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_FILE',
+          message: validation.error
+        }
+      });
+      return;
+    }
 
-    // In a real implementation, you would:
-    // 1. Download the file from HubSpot
-    // 2. Process and analyze it
-    // 3. Create a timeline event
+    // The file is removed once the analysis job settles
+    const job = await getJobQueue().enqueue({
+      portalId: String(portalId),
+      dealId: String(objectId),
+      filename: file.filename,
+      mimeType: file.mimeType,
+      filePath: file.filePath
+    });
 
-    res.json({
+    res.status(202).json({
       success: true,
       data: {
-        message: 'File upload webhook received',
+        jobId: job.id,
+        documentId: job.documentId,
         fileId,
         objectId
       }
     });
   } catch (error) {
     console.error('File upload webhook error:', error);
+    if (file) {
+      cleanupFile(file.filePath);
+    }
     res.status(500).json({
       success: false,
       error: {
@@ -90,28 +172,47 @@ router.post('/file-upload', validateHubSpotSignature, async (req: Request, res:
 
 /**
  * POST /api/webhooks/action
- * Handle action hook callbacks from CRM cards
+ * Handle action hook callbacks from CRM cards. Only v2 signatures cover the query string.
  */
-router.post('/action', validateHubSpotSignature, async (req: Request, res: Response) => {
-  const { action, objectId, documentId, portalId } = req.body;
+router.post('/action', validateHubSpotUriSignature, async (req: Request, res: Response) => {
+  // CRM card action hooks put the finding in the query string and the HubSpot user in the body
+  const { action, documentId, portalId, riskId, blockerId, reason, userEmail, userId } = { ...req.query, ...req.body };
 
   try {
     switch (action) {
-      case 'reanalyze':
-        const analysis = documentStore.get(documentId);
-        if (analysis) {
-          analysis.analyzedAt = new Date().toISOString();
-          documentStore.set(documentId, analysis);
+      case 'reanalyze': {
+        const analysis = portalId ? await getRepository().analyses.get(String(portalId), documentId) : undefined;
+        const reanalysis = analysis ? toReanalysisJob(String(portalId), analysis) : undefined;
+        if (reanalysis) {
+          await getJobQueue().enqueue(reanalysis);
         }
         break;
+      }
 
       case 'dismiss_risk':
-        // Handle risk dismissal
-        break;
-
-      case 'mark_resolved':
-        // Handle blocker resolution
+      case 'mark_resolved': {
+        const decision: FindingDecision = {
+          by: String(userEmail || userId || 'unknown'),
+          at: new Date().toISOString(),
+          ...(reason ? { reason: String(reason) } : {})
+        };
+        const record = action === 'dismiss_risk'
+          ? () => dismissRisk(String(portalId), String(documentId), String(riskId), decision)
+          : () => resolveBlocker(String(portalId), String(documentId), String(blockerId), decision);
+        const updated = portalId && documentId ? await record() : undefined;
+
+        if (!updated) {
+          res.status(404).json({
+            success: false,
+            error: {
+              code: 'NOT_FOUND',
+              message: action === 'dismiss_risk' ? 'Risk not found' : 'Blocker not found'
+            }
+          });
+          return;
+        }
         break;
+      }
 
       default:
         console.log(`Unknown action: ${action}`);
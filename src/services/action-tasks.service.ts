@@ -0,0 +1,140 @@
+/**
+ * Action Tasks Service
+ * Turns required actions into HubSpot tasks on the deal and tracks their completion
+ */
+
+import { AssociationSpecAssociationCategoryEnum } from '@hubspot/api-client/lib/codegen/crm/objects/tasks';
+import { DocumentAnalysis, RequiredAction } from '../types';
+import { getHubSpotClient } from './oauth.service';
+import { getRepository } from './repository.service';
+import { generateRequiredActions } from './scoring-engine.service';
+
+// HubSpot-defined association type for task -> deal
+const TASK_TO_DEAL_ASSOCIATION_TYPE = 216;
+
+/**
+ * HubSpot task priority for each required action priority
+ */
+export const TASK_PRIORITIES: Record<RequiredAction['priority'], 'HIGH' | 'MEDIUM' | 'LOW'> = {
+  urgent: 'HIGH',
+  high: 'HIGH',
+  medium: 'MEDIUM',
+  low: 'LOW'
+};
+
+/**
+ * The required actions stored with an analysis.
+ * Analyses from before actions were stored get them generated.
+ */
+export function getRequiredActions(analysis: DocumentAnalysis): RequiredAction[] {
+  return analysis.requiredActions ||
+    generateRequiredActions(analysis.risks, analysis.missingTerms, analysis.blockers);
+}
+
+/**
+ * Keep the IDs, progress and tasks of actions a new version still requires.
+ * Actions the new version already completed, for dismissed or resolved findings, stay completed.
+ */
+export function carryOverActions(previous: RequiredAction[], next: RequiredAction[]): RequiredAction[] {
+  const remaining = [...previous];
+  return next.map(action => {
+    const index = remaining.findIndex(old => old.action === action.action && old.reason === action.reason);
+    if (index === -1) {
+      return action;
+    }
+    const [old] = remaining.splice(index, 1);
+    const status = action.status === 'completed' ? action.status : old.status;
+    return { ...action, id: old.id, status, hubspotTaskId: old.hubspotTaskId };
+  });
+}
+
+/**
+ * Map a HubSpot task status (hs_task_status) to a required action status
+ */
+export function toActionStatus(taskStatus: string): RequiredAction['status'] {
+  switch (taskStatus) {
+    case 'COMPLETED':
+      return 'completed';
+    case 'NOT_STARTED':
+      return 'pending';
+    default:
+      return 'in_progress';
+  }
+}
+
+/**
+ * Create a HubSpot task on the deal for each open action of a document that has none yet.
+ * Returns the actions that got a task; tasks created before a failure are kept.
+ */
+export async function createActionTasks(
+  portalId: string,
+  documentId: string,
+  dealId: string
+): Promise<RequiredAction[]> {
+  const repository = getRepository();
+  const analysis = await repository.analyses.get(portalId, documentId);
+  if (!analysis) {
+    throw new Error(`Document ${documentId} not found`);
+  }
+
+  const client = await getHubSpotClient(portalId);
+  if (!client) {
+    throw new Error('HubSpot client not authenticated');
+  }
+
+  const actions = getRequiredActions(analysis);
+  const created: RequiredAction[] = [];
+
+  try {
+    for (const action of actions.filter(a => a.status !== 'completed' && !a.hubspotTaskId)) {
+      const properties: Record<string, string> = {
+        hs_task_subject: action.action,
+        hs_task_body: `${action.reason}\n\nFrom the analysis of ${analysis.filename}`,
+        hs_task_priority: TASK_PRIORITIES[action.priority],
+        hs_task_status: action.status === 'in_progress' ? 'IN_PROGRESS' : 'NOT_STARTED',
+        // The due date; tasks without a deadline are due now
+        hs_timestamp: action.deadline ? new Date(action.deadline).toISOString() : new Date().toISOString()
+      };
+      if (action.assignedTo) {
+        properties.hubspot_owner_id = action.assignedTo;
+      }
+
+      const task = await client.crm.objects.tasks.basicApi.create({
+        properties,
+        associations: [{
+          to: { id: dealId },
+          types: [{
+            associationCategory: AssociationSpecAssociationCategoryEnum.HubspotDefined,
+            associationTypeId: TASK_TO_DEAL_ASSOCIATION_TYPE
+          }]
+        }]
+      });
+
+      action.hubspotTaskId = task.id;
+      created.push(action);
+      await repository.tasks.save(portalId, { taskId: task.id, documentId, actionId: action.id });
+    }
+  } finally {
+    await repository.analyses.save(portalId, { ...analysis, requiredActions: actions });
+  }
+
+  return created;
+}
+
+/**
+ * Reflect a HubSpot task status change in the action it was created for.
+ * Returns false for tasks this app did not create or whose action is gone.
+ */
+export async function syncTaskStatus(portalId: string, taskId: string, taskStatus: string): Promise<boolean> {
+  const repository = getRepository();
+  const link = await repository.tasks.get(portalId, taskId);
+  const analysis = link ? await repository.analyses.get(portalId, link.documentId) : undefined;
+  const action = analysis?.requiredActions?.find(a => a.id === link!.actionId);
+  if (!analysis || !action) {
+    return false;
+  }
+
+  action.status = toActionStatus(taskStatus);
+  await repository.analyses.save(portalId, analysis);
+  return true;
+}
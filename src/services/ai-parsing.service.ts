@@ -1,11 +1,9 @@
 /**
  * AI Parsing Service
- * Uses OpenAI to extract entities, risks, and insights from documents
+ * Uses an LLM provider to extract entities, risks, and insights from documents
  */
 
-import OpenAI from 'openai';
 import { randomUUID } from 'crypto';
-import { config } from '../config';
 import {
   ExtractedEntity,
   DocumentRisk,
@@ -14,72 +12,115 @@ import {
   RiskCategory,
   RiskSeverity,
   BlockerType,
-  EntityType
+  EntityType,
+  DocumentPage,
+  TextLocation,
+  DocumentClause,
+  LlmProvider,
+  LlmMessage,
+  RejectedLlmItem
 } from '../types';
+import { getLlmProvider } from './llm-provider.service';
+import { verifyEntity, verifyRisk } from './evidence-verification.service';
+import {
+  ENTITY_TYPES,
+  RISK_CATEGORIES,
+  RISK_SEVERITIES,
+  ValidationResult,
+  validateEntityResponse,
+  validateRiskResponse,
+  buildRepairPrompt
+} from './llm-validation.service';
+import { findTextLocation, locateRange } from './page-layout.service';
+import { getClauseBody } from './clause-segmentation.service';
+import { mapWithConcurrency } from '../utils';
 
-let openaiClient: OpenAI | null = null;
+/**
+ * Clause bodies that only hold a placeholder ("TBD", "[●]", "Reserved")
+ */
+const PLACEHOLDER_PATTERN = /^\s*(?:\[[^\]]*\]|tb[ad]|to be (?:agreed|determined|confirmed)|n\/a|reserved|intentionally (?:left )?(?:blank|omitted))\s*\.?\s*$/i;
 
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: config.openai.apiKey
-    });
-  }
-  return openaiClient;
+/**
+ * Characters sent to the model per request, and the overlap between chunks
+ * so clauses straddling a boundary are seen whole at least once
+ */
+const CHUNK_SIZE = 8000;
+const CHUNK_OVERLAP = 500;
+
+/**
+ * Maximum model requests in flight per analysis step
+ */
+const CHUNK_CONCURRENCY = 3;
+
+/**
+ * Follow-up requests asking the model to fix a response that failed validation
+ */
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Slice of document text with its offset in the full text
+ */
+export interface TextChunk {
+  text: string;
+  start: number;
 }
 
 /**
  * Extract entities from document text using AI
  */
-export async function extractEntities(text: string): Promise<ExtractedEntity[]> {
-  if (!config.openai.apiKey) {
-    return extractEntitiesWithPatterns(text);
+export async function extractEntities(
+  text: string,
+  pageLayout?: DocumentPage[],
+  provider: LlmProvider | null = getLlmProvider(),
+  rejected: RejectedLlmItem[] = []
+): Promise<ExtractedEntity[]> {
+  if (!provider) {
+    return extractEntitiesWithPatterns(text, pageLayout);
   }
 
   try {
-    const openai = getOpenAIClient();
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
+    const chunks = chunkText(text);
+
+    const chunkEntities = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, index) => {
+      const result = await completeValidated(provider, [
         {
           role: 'system',
           content: `You are a legal document analyzer. Extract key entities from the document text.
-Return a JSON array of entities with this structure:
-[{"type": "party_name|date|amount|term_duration|payment_terms|liability_clause|termination_clause|confidentiality_clause|indemnification_clause|governing_law|signature|contact_info", "value": "extracted value", "confidence": 0.0-1.0}]
-Only include entities you find with reasonable confidence.`
+Return a JSON object with an "entities" array with this structure:
+{"entities": [{"type": "${ENTITY_TYPES.join('|')}", "value": "extracted value", "confidence": 0.0-1.0, "evidence": "verbatim quote from the text containing the entity"}]}
+Only include entities you find with reasonable confidence. Copy evidence exactly from the text; do not paraphrase.`
         },
         {
           role: 'user',
-          content: `Extract entities from this document:\n\n${text.substring(0, 8000)}`
+          content: `Extract entities from ${describeChunk(index, chunks.length)}:\n\n${chunk.text}`
         }
-      ],
-      temperature: 0.1,
-      response_format: { type: 'json_object' }
+      ], 0.1, validateEntityResponse);
+
+      rejected.push(...toRejectedItems('entity', index, result));
+      return result.items.map(entity =>
+        verifyEntity(entity, text, snippet => locateInChunk(text, chunk, pageLayout, snippet))
+      );
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (content) {
-      const parsed = JSON.parse(content);
-      return parsed.entities || parsed;
-    }
+    return mergeEntities(chunkEntities.flat());
   } catch (error) {
     console.error('AI entity extraction failed, using pattern matching:', error);
   }
 
-  return extractEntitiesWithPatterns(text);
+  return extractEntitiesWithPatterns(text, pageLayout);
 }
 
 /**
  * Pattern-based entity extraction (fallback)
  */
-function extractEntitiesWithPatterns(text: string): ExtractedEntity[] {
+function extractEntitiesWithPatterns(text: string, pageLayout?: DocumentPage[]): ExtractedEntity[] {
   const entities: ExtractedEntity[] = [];
 
   // Date patterns
   const datePatterns = [
     /\b(\d{1,2}\/\d{1,2}\/\d{2,4})\b/g,
     /\b(\d{1,2}-\d{1,2}-\d{2,4})\b/g,
-    /\b(January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},?\s+\d{4}\b/gi
+    /\b((?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},?\s+\d{4})\b/gi
   ];
 
   for (const pattern of datePatterns) {
@@ -88,19 +129,25 @@ function extractEntitiesWithPatterns(text: string): ExtractedEntity[] {
       entities.push({
         type: 'date',
         value: match[1],
-        confidence: 0.8
+        confidence: 0.8,
+        evidence: match[0],
+        verified: true,
+        location: locateRange(pageLayout, match.index!, match.index! + match[0].length)
       });
     }
   }
 
   // Amount patterns
-  const amountPattern = /\$[\d,]+(?:\.\d{2})?/g;
+  const amountPattern = /(?:US\$|[$€£]|\b(?:USD|EUR|GBP|CAD|AUD)\s?)\d[\d,]*(?:\.\d{2})?(?:\s?(?:thousand|million|k|K|MM|M)\b)?/g;
   const amountMatches = text.matchAll(amountPattern);
   for (const match of amountMatches) {
     entities.push({
       type: 'amount',
       value: match[0],
-      confidence: 0.9
+      confidence: 0.9,
+      evidence: match[0],
+      verified: true,
+      location: locateRange(pageLayout, match.index!, match.index! + match[0].length)
     });
   }
 
@@ -116,7 +163,29 @@ function extractEntitiesWithPatterns(text: string): ExtractedEntity[] {
       entities.push({
         type: 'term_duration',
         value: match[0],
-        confidence: 0.7
+        confidence: 0.7,
+        evidence: match[0],
+        verified: true,
+        location: locateRange(pageLayout, match.index!, match.index! + match[0].length)
+      });
+    }
+  }
+
+  // Payment terms patterns
+  const paymentPatterns = [
+    /\bnet\s*\d{1,3}\b/gi,
+    /\bwithin\s+\d{1,3}\s+days\s+(?:of|after|from)\s+(?:the\s+)?(?:date\s+of\s+|receipt\s+of\s+)?(?:the\s+)?invoice\b/gi
+  ];
+
+  for (const pattern of paymentPatterns) {
+    for (const match of text.matchAll(pattern)) {
+      entities.push({
+        type: 'payment_terms',
+        value: match[0],
+        confidence: 0.7,
+        evidence: match[0],
+        verified: true,
+        location: locateRange(pageLayout, match.index!, match.index! + match[0].length)
       });
     }
   }
@@ -127,51 +196,271 @@ function extractEntitiesWithPatterns(text: string): ExtractedEntity[] {
 /**
  * Identify risks in document text using AI
  */
-export async function identifyRisks(text: string, documentType: string): Promise<DocumentRisk[]> {
-  if (!config.openai.apiKey) {
-    return identifyRisksWithRules(text, documentType);
+export async function identifyRisks(
+  text: string,
+  documentType: string,
+  pageLayout?: DocumentPage[],
+  provider: LlmProvider | null = getLlmProvider(),
+  rejected: RejectedLlmItem[] = []
+): Promise<DocumentRisk[]> {
+  if (!provider) {
+    return identifyRisksWithRules(text, documentType, pageLayout);
   }
 
   try {
-    const openai = getOpenAIClient();
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
+    const chunks = chunkText(text);
+
+    const chunkRisks = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, index) => {
+      const result = await completeValidated(provider, [
         {
           role: 'system',
           content: `You are a legal risk analyst. Analyze the ${documentType} document for potential risks.
 Return a JSON object with "risks" array containing:
-[{"category": "missing_clause|unfavorable_terms|compliance_issue|liability_exposure|termination_risk|payment_risk|legal_ambiguity", "severity": "low|medium|high|critical", "title": "brief title", "description": "detailed description", "recommendation": "suggested action", "relatedClauses": ["optional clause references"]}]`
+[{"category": "${RISK_CATEGORIES.join('|')}", "severity": "${RISK_SEVERITIES.join('|')}", "title": "brief title", "description": "detailed description", "recommendation": "suggested action", "relatedClauses": ["optional clause references"], "evidence": "verbatim quote of the text that creates the risk"}]
+Copy evidence exactly from the text; do not paraphrase. Omit evidence only for missing clauses.${chunks.length > 1 ? '\nYou are seeing one part of a longer document: do not report clauses as missing just because they are not in this part.' : ''}`
         },
         {
           role: 'user',
-          content: `Analyze this ${documentType} for risks:\n\n${text.substring(0, 8000)}`
+          content: `Analyze ${describeChunk(index, chunks.length)} (${documentType}) for risks:\n\n${chunk.text}`
+        }
+      ], 0.2, validateRiskResponse);
+
+      rejected.push(...toRejectedItems('risk', index, result));
+      const verified: DocumentRisk[] = [];
+      for (const item of result.items) {
+        const { risk, error } = verifyRisk(
+          {
+            ...item,
+            id: randomUUID(),
+            location: locateRelatedClauses(text, chunk, pageLayout, item.relatedClauses)
+          },
+          text,
+          snippet => locateInChunk(text, chunk, pageLayout, snippet)
+        );
+
+        if (risk) {
+          verified.push(risk);
+        } else {
+          rejected.push({ kind: 'risk', item, errors: [error!], chunk: index });
         }
-      ],
-      temperature: 0.2,
-      response_format: { type: 'json_object' }
+      }
+      return verified;
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (content) {
-      const parsed = JSON.parse(content);
-      const risks = parsed.risks || [];
-      return risks.map((r: DocumentRisk) => ({
-        ...r,
-        id: randomUUID()
-      }));
-    }
+    return mergeRisks(chunkRisks.flat());
   } catch (error) {
     console.error('AI risk identification failed, using rules:', error);
   }
 
-  return identifyRisksWithRules(text, documentType);
+  return identifyRisksWithRules(text, documentType, pageLayout);
+}
+
+/**
+ * Request JSON from the model and validate it, asking for repairs when items fail validation.
+ * Returns the attempt with the fewest problems.
+ */
+async function completeValidated<T>(
+  provider: LlmProvider,
+  messages: LlmMessage[],
+  temperature: number,
+  validate: (content: string) => ValidationResult<T>
+): Promise<ValidationResult<T>> {
+  let conversation = messages;
+  let best: ValidationResult<T> | null = null;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const { content } = await provider.complete({ messages: conversation, temperature, json: true });
+    const result: ValidationResult<T> = content
+      ? validate(content)
+      : { items: [], rejected: [], error: 'Response was empty' };
+
+    if (!best || countProblems(result) <= countProblems(best)) {
+      best = result;
+    }
+    if (countProblems(result) === 0) {
+      break;
+    }
+
+    conversation = [
+      ...messages,
+      { role: 'assistant', content: content || '' },
+      { role: 'user', content: buildRepairPrompt(result) }
+    ];
+  }
+
+  return best!;
+}
+
+function countProblems<T>(result: ValidationResult<T>): number {
+  return result.rejected.length + (result.error ? 1 : 0);
+}
+
+/**
+ * Record what validation dropped from a chunk's response
+ */
+function toRejectedItems<T>(
+  kind: RejectedLlmItem['kind'],
+  chunk: number,
+  result: ValidationResult<T>
+): RejectedLlmItem[] {
+  const items: RejectedLlmItem[] = result.rejected.map(r => ({ kind, item: r.item, errors: r.errors, chunk }));
+  if (result.error) {
+    items.push({ kind, item: null, errors: [result.error], chunk });
+  }
+  return items;
+}
+
+/**
+ * Locate the first related clause the model quoted from the document
+ */
+function locateRelatedClauses(
+  text: string,
+  chunk: TextChunk,
+  pageLayout: DocumentPage[] | undefined,
+  relatedClauses?: string[]
+): TextLocation | undefined {
+  for (const clause of relatedClauses || []) {
+    const location = locateInChunk(text, chunk, pageLayout, clause);
+    if (location) return location;
+  }
+  return undefined;
+}
+
+/**
+ * Locate a snippet within the chunk it came from, falling back to the whole document
+ */
+function locateInChunk(
+  text: string,
+  chunk: TextChunk,
+  pageLayout: DocumentPage[] | undefined,
+  snippet: string
+): TextLocation | undefined {
+  const local = findTextLocation(chunk.text, undefined, snippet);
+  if (local) {
+    return locateRange(pageLayout, chunk.start + local.start!, chunk.start + local.end!);
+  }
+  return findTextLocation(text, pageLayout, snippet);
+}
+
+/**
+ * Split text into overlapping chunks, breaking at paragraph, line or sentence boundaries
+ */
+export function chunkText(
+  text: string,
+  size: number = CHUNK_SIZE,
+  overlap: number = CHUNK_OVERLAP
+): TextChunk[] {
+  if (text.length <= size) {
+    return [{ text, start: 0 }];
+  }
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+
+    if (end < text.length) {
+      // Only look for a boundary in the second half so chunks stay reasonably full
+      const windowStart = start + Math.floor(size / 2);
+      const window = text.slice(windowStart, end);
+      for (const boundary of ['\n\n', '\n', '. ']) {
+        const index = window.lastIndexOf(boundary);
+        if (index !== -1) {
+          end = windowStart + index + boundary.length;
+          break;
+        }
+      }
+    }
+
+    chunks.push({ text: text.slice(start, end), start });
+    if (end >= text.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Merge entities from multiple chunks, keeping the most confident of each duplicate
+ */
+export function mergeEntities(entities: ExtractedEntity[]): ExtractedEntity[] {
+  const merged = new Map<string, ExtractedEntity>();
+
+  for (const entity of entities) {
+    const key = `${entity.type}|${normalizeForMatch(entity.value)}`;
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, entity);
+    } else if (entity.confidence > existing.confidence) {
+      // Keep evidence and location together, preferring a located quote
+      const source = existing.location ? existing : entity;
+      merged.set(key, {
+        ...entity,
+        evidence: source.evidence,
+        location: source.location,
+        verified: source.verified
+      });
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Merge risks from multiple chunks, keeping the most severe of each duplicate
+ */
+export function mergeRisks(risks: DocumentRisk[]): DocumentRisk[] {
+  const severityRank: Record<RiskSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+  const merged = new Map<string, DocumentRisk>();
+
+  for (const risk of risks) {
+    const key = `${risk.category}|${normalizeForMatch(risk.title)}`;
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, risk);
+      continue;
+    }
+
+    const keep = (severityRank[risk.severity] ?? 0) > (severityRank[existing.severity] ?? 0) ? risk : existing;
+    const relatedClauses = Array.from(new Set([
+      ...(existing.relatedClauses || []),
+      ...(risk.relatedClauses || [])
+    ]));
+
+    // A verified quote from either copy backs the merged risk
+    const evidenceSource = [keep, existing, risk].find(r => r.verified);
+
+    merged.set(key, {
+      ...keep,
+      id: existing.id,
+      location: evidenceSource?.location ?? keep.location ?? existing.location ?? risk.location,
+      ...(evidenceSource ? { evidence: evidenceSource.evidence, verified: true } : {}),
+      ...(relatedClauses.length > 0 ? { relatedClauses } : {})
+    });
+  }
+
+  return Array.from(merged.values());
+}
+
+function normalizeForMatch(value: string): string {
+  return String(value).toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function describeChunk(index: number, total: number): string {
+  return total === 1 ? 'this document' : `part ${index + 1} of ${total} of this document`;
 }
 
 /**
  * Rule-based risk identification (fallback)
  */
-function identifyRisksWithRules(text: string, documentType: string): DocumentRisk[] {
+function identifyRisksWithRules(
+  text: string,
+  documentType: string,
+  pageLayout?: DocumentPage[]
+): DocumentRisk[] {
   const risks: DocumentRisk[] = [];
   const lowerText = text.toLowerCase();
 
@@ -207,14 +496,18 @@ function identifyRisksWithRules(text: string, documentType: string): DocumentRis
   ];
 
   for (const { pattern, title, severity } of unfavorablePatterns) {
-    if (pattern.test(text)) {
+    const match = pattern.exec(text);
+    if (match) {
       risks.push({
         id: randomUUID(),
         category: 'unfavorable_terms',
         severity,
         title,
         description: `The document contains ${title.toLowerCase()} language that may be unfavorable.`,
-        recommendation: `Review and potentially negotiate the ${title.toLowerCase()} terms.`
+        recommendation: `Review and potentially negotiate the ${title.toLowerCase()} terms.`,
+        evidence: match[0],
+        verified: true,
+        location: locateRange(pageLayout, match.index, match.index + match[0].length)
       });
     }
   }
@@ -227,7 +520,8 @@ function identifyRisksWithRules(text: string, documentType: string): DocumentRis
  */
 export async function identifyMissingTerms(
   text: string,
-  documentType: string
+  documentType: string,
+  clauses: DocumentClause[] = []
 ): Promise<MissingTerm[]> {
   const missingTerms: MissingTerm[] = [];
   const lowerText = text.toLowerCase();
@@ -266,12 +560,48 @@ export async function identifyMissingTerms(
         description: `The document is missing a ${term} section.`,
         impact: `Without ${term}, the document may be incomplete or unenforceable.`
       });
+      continue;
+    }
+
+    // A heading with a "TBD" or blank body does not actually provide the term
+    const placeholder = clauses.find(clause =>
+      clause.heading !== undefined &&
+      keywords.some(kw => containsWord(clause.heading!, kw)) &&
+      isPlaceholderClause(clause, clauses)
+    );
+    if (placeholder) {
+      missingTerms.push({
+        term,
+        importance: 'required',
+        description: `The ${placeholder.heading} section is present but has no substantive content.`,
+        impact: `Without ${term}, the document may be incomplete or unenforceable.`,
+        clauseId: placeholder.id
+      });
     }
   }
 
   return missingTerms;
 }
 
+/**
+ * Whether a clause and all of its subclauses are empty or only hold a placeholder.
+ * A heading whose content sits in numbered subclauses is not a placeholder.
+ */
+function isPlaceholderClause(clause: DocumentClause, clauses: DocumentClause[]): boolean {
+  const body = getClauseBody(clause).trim();
+  if (body !== '' && !PLACEHOLDER_PATTERN.test(body)) {
+    return false;
+  }
+  return clauses
+    .filter(child => child.parentId === clause.id)
+    .every(child => isPlaceholderClause(child, clauses));
+}
+
+// Whole-word match, so "term" does not match a "Payment Terms" heading
+function containsWord(text: string, word: string): boolean {
+  return new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text);
+}
+
 /**
  * Identify deal blockers from document analysis
  */
@@ -326,31 +656,53 @@ export async function identifyBlockers(
  */
 export async function generateSummary(
   text: string,
-  documentType: string
+  documentType: string,
+  provider: LlmProvider | null = getLlmProvider()
 ): Promise<string> {
-  if (!config.openai.apiKey) {
+  if (!provider) {
     return generateBasicSummary(text, documentType);
   }
 
   try {
-    const openai = getOpenAIClient();
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a legal document summarizer. Provide a concise 2-3 sentence summary of the document, highlighting key terms and parties involved.'
-        },
-        {
-          role: 'user',
-          content: `Summarize this ${documentType}:\n\n${text.substring(0, 4000)}`
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 200
-    });
+    const chunks = chunkText(text);
+
+    const summarize = async (content: string): Promise<string | null> => {
+      const response = await provider.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a legal document summarizer. Provide a concise 2-3 sentence summary of the document, highlighting key terms and parties involved.'
+          },
+          {
+            role: 'user',
+            content
+          }
+        ],
+        temperature: 0.3,
+        maxTokens: 200
+      });
+      return response.content;
+    };
+
+    if (chunks.length === 1) {
+      return await summarize(`Summarize this ${documentType}:\n\n${text}`) || generateBasicSummary(text, documentType);
+    }
+
+    // Map: summarize each part; reduce: combine the part summaries
+    const partSummaries = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, index) =>
+      summarize(`Summarize ${describeChunk(index, chunks.length)} (${documentType}):\n\n${chunk.text}`)
+    );
+    const combined = partSummaries
+      .map((summary, index) => summary ? `Part ${index + 1}: ${summary}` : '')
+      .filter(Boolean)
+      .join('\n\n');
+
+    if (!combined) {
+      return generateBasicSummary(text, documentType);
+    }
 
-    return response.choices[0]?.message?.content || generateBasicSummary(text, documentType);
+    return await summarize(`Combine these part summaries of a ${documentType} into one summary:\n\n${combined}`)
+      || generateBasicSummary(text, documentType);
   } catch (error) {
     console.error('AI summary generation failed:', error);
     return generateBasicSummary(text, documentType);
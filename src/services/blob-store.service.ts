@@ -0,0 +1,97 @@
+/**
+ * Blob Store Service
+ * Keeps original document files, addressed by the SHA-256 of their content,
+ * so documents can be re-analyzed after the upload is cleaned up
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { config } from '../config';
+import { BlobStore } from '../types';
+import { getRepository } from './repository.service';
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+let blobStore: BlobStore | null = null;
+
+/**
+ * Create a blob store in a local directory, sharded by the first two hash characters
+ */
+export function createFileBlobStore(directory: string): BlobStore {
+  const blobPath = (hash: string) => path.join(directory, hash.slice(0, 2), hash);
+
+  return {
+    async put(filePath) {
+      const content = await fs.promises.readFile(filePath);
+      const hash = createHash('sha256').update(content).digest('hex');
+      const target = blobPath(hash);
+
+      // Identical content is already stored under the same name
+      if (!fs.existsSync(target)) {
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        const tempPath = `${target}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tempPath, content);
+        await fs.promises.rename(tempPath, target);
+      }
+
+      return hash;
+    },
+
+    async getPath(hash) {
+      if (!HASH_PATTERN.test(hash)) {
+        return undefined;
+      }
+      const target = blobPath(hash);
+      return fs.existsSync(target) ? target : undefined;
+    },
+
+    async delete(hash) {
+      if (!HASH_PATTERN.test(hash)) {
+        return false;
+      }
+      try {
+        await fs.promises.unlink(blobPath(hash));
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return false;
+        }
+        throw error;
+      }
+    }
+  };
+}
+
+/**
+ * Get the application blob store, created from configuration on first use
+ */
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    blobStore = createFileBlobStore(config.storage.blobPath);
+  }
+  return blobStore;
+}
+
+/**
+ * Delete an original file once no analysis or prior version in any portal refers to it
+ * and no unfinished job still needs it.
+ * Identical uploads share one blob, so a deleted document's file may still be in use.
+ */
+export async function deleteUnreferencedBlob(hash: string): Promise<boolean> {
+  const repository = getRepository();
+  if (await repository.analyses.isBlobReferenced(hash)) {
+    return false;
+  }
+  if ((await repository.jobs.listUnfinished()).some(job => job.blobHash === hash)) {
+    return false;
+  }
+  return getBlobStore().delete(hash);
+}
+
+/**
+ * Replace the application blob store (for tests or external storage)
+ */
+export function setBlobStore(replacement: BlobStore | null): void {
+  blobStore = replacement;
+}
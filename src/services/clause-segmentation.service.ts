@@ -0,0 +1,280 @@
+/**
+ * Clause Segmentation Service
+ * Splits document text into numbered sections and clauses
+ */
+
+import {
+  ParsedDocument,
+  DocumentClause,
+  ExtractedEntity,
+  DocumentRisk
+} from '../types';
+import { locateRange, stripPageMarkers } from './page-layout.service';
+
+/**
+ * Detected start of a clause on a line of text
+ */
+interface ClauseStart {
+  number?: string;
+  heading?: string;
+  level: number;
+  subclause: boolean;
+}
+
+const ARTICLE_PATTERN = /^(?:article|section|clause)\s+(\d{1,3}(?:\.\d{1,3})*|[IVXLC]+)\b\.?\s*[:.\-–—]?\s*(.*)$/i;
+const DECIMAL_PATTERN = /^(\d{1,2}(?:\.\d{1,2})*)([.)]?)\s+(\S.*)$/;
+const SUBCLAUSE_PATTERN = /^\(([a-z]{1,2}|[ivxlc]{1,5}|\d{1,2})\)\s+(\S.*)$/i;
+const CAPS_HEADING_PATTERN = /^[A-Z][A-Z0-9 ,&'/-]{2,79}$/;
+const PAGE_MARKER_LINE = /^-- \d+ of \d+ --$/;
+
+/**
+ * Longest line treated as a standalone heading
+ */
+const MAX_HEADING_LENGTH = 80;
+
+/**
+ * Split a parsed document into clauses with headings, numbers and offsets
+ */
+export function segmentClauses(parsed: ParsedDocument): DocumentClause[] {
+  const text = parsed.text;
+  const headingTexts = new Set(
+    (parsed.paragraphs || [])
+      .filter(p => p.kind === 'heading')
+      .map(p => (p.number ? `${p.number} ${p.text}` : p.text))
+  );
+
+  const starts: Array<{ offset: number; start: ClauseStart }> = [];
+  let sectionLevel = 0;
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    const start = trimmed && !PAGE_MARKER_LINE.test(trimmed)
+      ? detectClauseStart(trimmed, headingTexts, sectionLevel)
+      : null;
+
+    if (start) {
+      starts.push({ offset: offset + line.indexOf(trimmed), start });
+      if (!start.subclause) sectionLevel = start.level;
+    }
+
+    offset += line.length + 1;
+  }
+
+  const clauses: DocumentClause[] = [];
+  const usedIds = new Set<string>();
+
+  const preambleEnd = starts.length > 0 ? starts[0].offset : text.length;
+  const preambleText = stripPageMarkers(text.slice(0, preambleEnd)).trim();
+  if (preambleText) {
+    usedIds.add('preamble');
+    clauses.push({
+      id: 'preamble',
+      text: preambleText,
+      start: 0,
+      end: preambleEnd,
+      level: 0,
+      page: locateRange(parsed.pageLayout, 0, preambleEnd).page
+    });
+  }
+
+  const parents: DocumentClause[] = [];
+
+  starts.forEach(({ offset: clauseStart, start }, index) => {
+    const rawEnd = index + 1 < starts.length ? starts[index + 1].offset : text.length;
+    const clauseEnd = clauseStart + text.slice(clauseStart, rawEnd).trimEnd().length;
+
+    while (parents.length > 0 && parents[parents.length - 1].level >= start.level) {
+      parents.pop();
+    }
+    const parent = parents[parents.length - 1];
+
+    const clause: DocumentClause = {
+      id: uniqueId(buildClauseId(start, parent, index), usedIds),
+      number: start.number,
+      heading: start.heading,
+      text: stripPageMarkers(text.slice(clauseStart, clauseEnd)).trim(),
+      start: clauseStart,
+      end: clauseEnd,
+      level: start.level,
+      page: locateRange(parsed.pageLayout, clauseStart, clauseEnd).page,
+      parentId: parent?.id
+    };
+
+    clauses.push(clause);
+    parents.push(clause);
+  });
+
+  return clauses;
+}
+
+/**
+ * Find the clause containing a character offset
+ */
+export function findClauseAt(
+  clauses: DocumentClause[],
+  offset: number
+): DocumentClause | undefined {
+  return clauses.find(c => offset >= c.start && offset < c.end);
+}
+
+/**
+ * Find a clause from a free-form reference such as "Section 7.2" or "Indemnification"
+ */
+export function findClauseByReference(
+  clauses: DocumentClause[],
+  reference: string
+): DocumentClause | undefined {
+  const number = reference.match(/\d+(?:\.\d+)*/)?.[0];
+  if (number) {
+    const byNumber = clauses.find(c => c.number === number);
+    if (byNumber) return byNumber;
+  }
+
+  const lowerReference = reference.toLowerCase().trim();
+  if (!lowerReference) return undefined;
+
+  return clauses.find(c => {
+    const heading = c.heading?.toLowerCase();
+    return heading !== undefined && (heading.includes(lowerReference) || lowerReference.includes(heading));
+  });
+}
+
+/**
+ * Point entities and risks at the clause they were found in
+ */
+export function assignClauseIds(
+  clauses: DocumentClause[],
+  entities: ExtractedEntity[],
+  risks: DocumentRisk[]
+): { entities: ExtractedEntity[]; risks: DocumentRisk[] } {
+  const clauseAt = (start?: number) =>
+    start !== undefined ? findClauseAt(clauses, start)?.id : undefined;
+
+  return {
+    entities: entities.map(entity => ({
+      ...entity,
+      clauseId: entity.clauseId ?? clauseAt(entity.location?.start)
+    })),
+    risks: risks.map(risk => ({
+      ...risk,
+      clauseId: risk.clauseId
+        ?? clauseAt(risk.location?.start)
+        ?? (risk.relatedClauses || [])
+          .map(reference => findClauseByReference(clauses, reference)?.id)
+          .find(id => id !== undefined)
+    }))
+  };
+}
+
+/**
+ * Body of a clause with its number and heading removed
+ */
+export function getClauseBody(clause: DocumentClause): string {
+  const firstLineEnd = clause.text.indexOf('\n');
+  const firstLine = firstLineEnd === -1 ? clause.text : clause.text.slice(0, firstLineEnd);
+
+  if (clause.heading && firstLine.includes(clause.heading)) {
+    const headingEnd = firstLine.indexOf(clause.heading) + clause.heading.length;
+    return clause.text.slice(headingEnd).replace(/^[.:\s]+/, '').trim();
+  }
+  if (clause.number && firstLine.startsWith(clause.number)) {
+    return clause.text.slice(clause.number.length).replace(/^[.):\s]+/, '').trim();
+  }
+  return clause.text;
+}
+
+function detectClauseStart(
+  line: string,
+  headingTexts: Set<string>,
+  sectionLevel: number
+): ClauseStart | null {
+  const article = line.match(ARTICLE_PATTERN);
+  // "Section 5 of this Agreement..." is a cross-reference, not a heading
+  if (article && !/^[a-z]/.test(article[2])) {
+    return {
+      number: article[1],
+      heading: extractHeading(article[2]),
+      level: article[1].split('.').length,
+      subclause: false
+    };
+  }
+
+  const decimal = line.match(DECIMAL_PATTERN);
+  // A bare "30 days" line is not a section; require "7." / "7)" or a dotted number
+  if (decimal && (decimal[2] || decimal[1].includes('.')) && /^["“A-Z]/.test(decimal[3])) {
+    return {
+      number: decimal[1],
+      heading: extractHeading(decimal[3]),
+      level: decimal[1].split('.').length,
+      subclause: false
+    };
+  }
+
+  const subclause = line.match(SUBCLAUSE_PATTERN);
+  if (subclause && sectionLevel > 0) {
+    return {
+      number: `(${subclause[1]})`,
+      heading: extractHeading(subclause[2]),
+      level: sectionLevel + 1,
+      subclause: true
+    };
+  }
+
+  if (headingTexts.has(line) || (CAPS_HEADING_PATTERN.test(line) && /[A-Z]{2,}\s+[A-Z]{2,}|^[A-Z]{4,}$/.test(line))) {
+    return { heading: line, level: 1, subclause: false };
+  }
+
+  return null;
+}
+
+/**
+ * Pull a heading from the start of a clause line, if it has one
+ */
+function extractHeading(rest: string): string | undefined {
+  const trimmed = rest.trim();
+  if (!trimmed) return undefined;
+
+  // "Limitation of Liability. Neither party shall..." → "Limitation of Liability"
+  const sentenceEnd = trimmed.search(/[.:](\s|$)/);
+  const candidate = (sentenceEnd === -1 ? trimmed : trimmed.slice(0, sentenceEnd)).trim();
+
+  if (candidate.length > 0 && candidate.length <= MAX_HEADING_LENGTH && looksLikeHeading(candidate)) {
+    return candidate;
+  }
+
+  return undefined;
+}
+
+function looksLikeHeading(candidate: string): boolean {
+  const words = candidate.split(/\s+/);
+  if (words.length > 10) return false;
+
+  const significant = words.filter(word => word.replace(/[^A-Za-z]/g, '').length > 3);
+  if (significant.length === 0) return /^[A-Z]/.test(candidate);
+
+  const capitalized = significant.filter(word => /^["“(]?[A-Z]/.test(word));
+  return capitalized.length / significant.length >= 0.5;
+}
+
+function buildClauseId(start: ClauseStart, parent: DocumentClause | undefined, index: number): string {
+  if (start.number) {
+    const prefix = start.subclause && parent?.number ? parent.number : '';
+    return `clause-${prefix}${start.number}`;
+  }
+  if (start.heading) {
+    const slug = start.heading.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    if (slug) return `clause-${slug}`;
+  }
+  return `clause-${index + 1}`;
+}
+
+function uniqueId(id: string, usedIds: Set<string>): string {
+  let candidate = id;
+  let suffix = 2;
+  while (usedIds.has(candidate)) {
+    candidate = `${id}-${suffix++}`;
+  }
+  usedIds.add(candidate);
+  return candidate;
+}
@@ -10,22 +10,30 @@ import {
   CrmCardSection,
   CrmCardProperty,
   CrmCardAction,
-  RequiredAction
+  RequiredAction,
+  ScoringPolicy
 } from '../types';
-import {
-  getRiskScoreColor,
-  generateRequiredActions
-} from './scoring-engine.service';
+import { explainRiskScore, getRiskScoreColor } from './scoring-engine.service';
+import { DEFAULT_SCORING_POLICY } from './scoring-policy.service';
 import { getHubSpotClient } from './oauth.service';
+import { getRequiredActions } from './action-tasks.service';
+import { signDismissalGrant } from './finding-decisions.service';
 
 /**
- * Generate CRM card data for a deal's document analysis
+ * Generate CRM card data for a deal's document analysis, for the HubSpot user it was fetched for
  */
 export function generateCrmCardData(
   analysis: DocumentAnalysis | null,
   dealId: string,
-  baseUrl: string
+  baseUrl: string,
+  portalId?: string,
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY,
+  user = 'unknown'
 ): CrmCardData {
+  // Iframe pages are not signed by HubSpot, so they learn the portal from the URL
+  const portalQuery = portalId ? `portalId=${encodeURIComponent(portalId)}` : '';
+  const uploadUri = `${baseUrl}/upload?dealId=${encodeURIComponent(dealId)}${portalQuery ? `&${portalQuery}` : ''}`;
+
   if (!analysis) {
     return {
       results: [{
@@ -42,18 +50,15 @@ export function generateCrmCardData(
           type: 'IFRAME',
           width: 800,
           height: 600,
-          uri: `${baseUrl}/upload?dealId=${dealId}`,
+          uri: uploadUri,
           label: 'Upload Document'
         }]
       }]
     };
   }
 
-  const requiredActions = generateRequiredActions(
-    analysis.risks,
-    analysis.missingTerms,
-    analysis.blockers
-  );
+  const requiredActions = getRequiredActions(analysis);
+  const openActions = requiredActions.filter(action => action.status !== 'completed');
 
   const sections: CrmCardSection[] = [];
 
@@ -113,77 +118,150 @@ export function generateCrmCardData(
     ]
   });
 
-  // Insights section
-  if (analysis.risks.length > 0) {
+  // Why the document got its grade, largest contributions first
+  const explanation = explainRiskScore(analysis, policy);
+  sections.push({
+    objectId: 6,
+    title: `Why is this a ${analysis.riskScore.grade}?`,
+    properties: [
+      {
+        label: 'Score',
+        dataType: 'STRING',
+        value: explanation.summary
+      },
+      ...explanation.reasons.filter(reason => reason.points > 0).slice(0, 5).map(reason => ({
+        label: `+${reason.points} points`,
+        dataType: 'STRING' as const,
+        value: reason.text
+      }))
+    ]
+  });
+
+  const actionUri = (params: Record<string, string>) =>
+    `${baseUrl}/api/webhooks/action?${new URLSearchParams({ ...params, documentId: analysis.documentId })}`;
+
+  // Insights section, with dismissed risks left out
+  const openRisks = analysis.risks.filter(risk => !risk.dismissed).slice(0, 5);
+  if (openRisks.length > 0) {
     sections.push({
       objectId: 3,
       title: 'Key Insights',
-      properties: analysis.risks.slice(0, 5).map((risk, index) => ({
+      properties: openRisks.map(risk => ({
         label: `${risk.severity.toUpperCase()}: ${risk.title}`,
         dataType: 'STRING' as const,
         value: risk.description
+      })),
+      // A page rather than a confirmation hook, which cannot ask for the reason. HubSpot does not
+      // sign the page request, so the link carries a grant naming the user the card is for.
+      actions: openRisks.map(risk => ({
+        type: 'IFRAME' as const,
+        width: 600,
+        height: 400,
+        uri: `${baseUrl}/documents/${encodeURIComponent(analysis.documentId)}/dismiss?` + new URLSearchParams({
+          riskId: risk.id,
+          ...(portalId ? {
+            portalId,
+            grant: signDismissalGrant({ portalId, documentId: analysis.documentId, riskId: risk.id, user })
+          } : {})
+        }),
+        label: `Dismiss: ${risk.title}`
       }))
     });
   }
 
-  // Required actions section
+  // Required actions section, open actions first
   if (requiredActions.length > 0) {
+    const completedCount = requiredActions.length - openActions.length;
     sections.push({
       objectId: 4,
-      title: 'Required Actions',
-      properties: requiredActions.slice(0, 5).map(action => ({
-        label: `[${action.priority.toUpperCase()}]`,
-        dataType: 'STRING' as const,
-        value: action.action
-      }))
+      title: completedCount > 0
+        ? `Required Actions (${completedCount}/${requiredActions.length} done)`
+        : 'Required Actions',
+      properties: [...openActions, ...requiredActions.filter(action => action.status === 'completed')]
+        .slice(0, 5)
+        .map(action => ({
+          label: `[${action.priority.toUpperCase()}]${ACTION_STATUS_LABELS[action.status]}`,
+          dataType: 'STRING' as const,
+          value: action.action
+        }))
     });
   }
 
-  // Blockers section
-  if (analysis.blockers.length > 0) {
+  // Blockers section, with resolved blockers left out
+  const openBlockers = analysis.blockers.filter(blocker => !blocker.resolved);
+  if (openBlockers.length > 0) {
     sections.push({
       objectId: 5,
       title: 'Deal Blockers',
-      properties: analysis.blockers.map(blocker => ({
+      properties: openBlockers.map(blocker => ({
         label: blocker.title,
         dataType: 'STRING' as const,
         value: blocker.requiredAction
+      })),
+      actions: openBlockers.map(blocker => ({
+        type: 'CONFIRMATION_ACTION_HOOK' as const,
+        httpMethod: 'POST' as const,
+        width: 400,
+        height: 300,
+        uri: actionUri({ action: 'mark_resolved', blockerId: blocker.id }),
+        label: `Mark resolved: ${blocker.title}`,
+        confirmationMessage: `Mark "${blocker.title}" as resolved? It will no longer count toward the risk score.`,
+        confirmButtonText: 'Mark resolved',
+        cancelButtonText: 'Cancel'
       }))
     });
   }
 
+  const secondaryActions: CrmCardAction[] = [
+    {
+      type: 'IFRAME',
+      width: 800,
+      height: 600,
+      uri: uploadUri,
+      label: 'Upload New Document'
+    },
+    {
+      type: 'ACTION_HOOK',
+      width: 400,
+      height: 300,
+      uri: `${baseUrl}/api/documents/${analysis.documentId}/reanalyze`,
+      label: 'Re-analyze Document'
+    }
+  ];
+
+  if (openActions.some(action => !action.hubspotTaskId)) {
+    secondaryActions.push({
+      type: 'ACTION_HOOK',
+      width: 400,
+      height: 300,
+      uri: `${baseUrl}/api/documents/${encodeURIComponent(analysis.documentId)}/tasks?dealId=${encodeURIComponent(dealId)}`,
+      label: 'Create HubSpot Tasks'
+    });
+  }
+
   return {
     results: sections,
     primaryAction: {
       type: 'IFRAME',
       width: 900,
       height: 700,
-      uri: `${baseUrl}/documents/${analysis.documentId}/details`,
+      uri: `${baseUrl}/documents/${analysis.documentId}/details${portalQuery ? `?${portalQuery}` : ''}`,
       label: 'View Full Analysis'
     },
-    secondaryActions: [
-      {
-        type: 'IFRAME',
-        width: 800,
-        height: 600,
-        uri: `${baseUrl}/upload?dealId=${dealId}`,
-        label: 'Upload New Document'
-      },
-      {
-        type: 'ACTION_HOOK',
-        width: 400,
-        height: 300,
-        uri: `${baseUrl}/api/documents/${analysis.documentId}/reanalyze`,
-        label: 'Re-analyze Document'
-      }
-    ]
+    secondaryActions
   };
 }
 
+const ACTION_STATUS_LABELS: Record<RequiredAction['status'], string> = {
+  pending: '',
+  in_progress: ' In progress',
+  completed: ' Done'
+};
+
 /**
  * Format document type for display
  */
-function formatDocumentType(type: string): string {
+export function formatDocumentType(type: string): string {
   const typeMap: Record<string, string> = {
     contract: 'Contract',
     nda: 'NDA',
@@ -0,0 +1,225 @@
+/**
+ * Deal Properties Service
+ * Keeps analysis results in custom deal properties so HubSpot lists, reports and workflows can use them
+ */
+
+import {
+  PropertyCreate,
+  PropertyCreateFieldTypeEnum,
+  PropertyCreateTypeEnum
+} from '@hubspot/api-client/lib/codegen/crm/properties';
+import { DocumentAnalysis, ScoringPolicy } from '../types';
+import { getHubSpotClient, isAuthenticated } from './oauth.service';
+import { getDealAnalyses, getRepository } from './repository.service';
+import { calculateDealScore, countOpenFindings } from './scoring-engine.service';
+import { getScoringPolicy } from './scoring-policy.service';
+import { DEFAULT_HUBSPOT_RETRY, isRetryableHubSpotError, HubSpotRetryOptions } from './timeline.service';
+import { retryWithBackoff } from '../utils';
+
+export const DEAL_PROPERTY_GROUP = 'document_intelligence';
+
+/**
+ * Custom deal properties created on install, all in the "Document Intelligence" group
+ */
+export const DEAL_PROPERTIES: PropertyCreate[] = [
+  {
+    name: 'di_risk_grade',
+    label: 'Document Risk Grade',
+    description: 'Risk grade (A-F) across the documents analyzed for this deal',
+    type: PropertyCreateTypeEnum.Enumeration,
+    fieldType: PropertyCreateFieldTypeEnum.Select,
+    groupName: DEAL_PROPERTY_GROUP,
+    options: ['A', 'B', 'C', 'D', 'F'].map((grade, index) => ({
+      label: grade,
+      value: grade,
+      displayOrder: index,
+      hidden: false
+    }))
+  },
+  {
+    name: 'di_risk_score',
+    label: 'Document Risk Score',
+    description: 'Risk score (0-100, higher is riskier) of the documents analyzed for this deal, weighted by document type and recency',
+    type: PropertyCreateTypeEnum.Number,
+    fieldType: PropertyCreateFieldTypeEnum.Number,
+    groupName: DEAL_PROPERTY_GROUP
+  },
+  {
+    name: 'di_risk_count',
+    label: 'Document Risks',
+    description: 'Open risks in the current documents analyzed for this deal',
+    type: PropertyCreateTypeEnum.Number,
+    fieldType: PropertyCreateFieldTypeEnum.Number,
+    groupName: DEAL_PROPERTY_GROUP
+  },
+  {
+    name: 'di_blocker_count',
+    label: 'Document Blockers',
+    description: 'Unresolved deal blockers in the current documents analyzed for this deal',
+    type: PropertyCreateTypeEnum.Number,
+    fieldType: PropertyCreateFieldTypeEnum.Number,
+    groupName: DEAL_PROPERTY_GROUP
+  },
+  {
+    name: 'di_contract_end_date',
+    label: 'Contract End Date',
+    description: 'End date stated in the most recently analyzed document',
+    type: PropertyCreateTypeEnum.Date,
+    fieldType: PropertyCreateFieldTypeEnum.Date,
+    groupName: DEAL_PROPERTY_GROUP
+  },
+  {
+    name: 'di_total_contract_value',
+    label: 'Total Contract Value',
+    description: 'Total contract value stated in the most recently analyzed document',
+    type: PropertyCreateTypeEnum.Number,
+    fieldType: PropertyCreateFieldTypeEnum.Number,
+    groupName: DEAL_PROPERTY_GROUP
+  },
+  {
+    name: 'di_contract_currency',
+    label: 'Contract Currency',
+    description: 'Currency of the total contract value',
+    type: PropertyCreateTypeEnum.String,
+    fieldType: PropertyCreateFieldTypeEnum.Text,
+    groupName: DEAL_PROPERTY_GROUP
+  },
+  {
+    name: 'di_documents_analyzed',
+    label: 'Documents Analyzed',
+    description: 'Documents analyzed for this deal',
+    type: PropertyCreateTypeEnum.Number,
+    fieldType: PropertyCreateFieldTypeEnum.Number,
+    groupName: DEAL_PROPERTY_GROUP
+  },
+  {
+    name: 'di_last_analyzed_at',
+    label: 'Last Document Analysis',
+    description: 'When a document for this deal was last analyzed',
+    type: PropertyCreateTypeEnum.Datetime,
+    fieldType: PropertyCreateFieldTypeEnum.Date,
+    groupName: DEAL_PROPERTY_GROUP
+  }
+];
+
+/**
+ * Create the property group and deal properties in a portal, keeping any that already exist
+ */
+export async function ensureDealProperties(portalId: string): Promise<void> {
+  const client = await getHubSpotClient(portalId);
+  if (!client) {
+    throw new Error('HubSpot client not authenticated');
+  }
+
+  await ignoreConflict(client.crm.properties.groupsApi.create('deals', {
+    name: DEAL_PROPERTY_GROUP,
+    label: 'Document Intelligence'
+  }));
+
+  for (const property of DEAL_PROPERTIES) {
+    await ignoreConflict(client.crm.properties.coreApi.create('deals', property));
+  }
+}
+
+/**
+ * Deal property values for a deal's analyses. Values no document provides are
+ * sent empty, which clears whatever an earlier analysis wrote. The deal is graded
+ * with the cutoffs of the given scoring policy.
+ */
+export function buildDealProperties(analyses: DocumentAnalysis[], policy?: ScoringPolicy): Record<string, string> {
+  if (analyses.length === 0) {
+    return Object.fromEntries(DEAL_PROPERTIES.map(property => [property.name, '']));
+  }
+
+  const dealScore = calculateDealScore(analyses, undefined, policy);
+  const newestFirst = [...analyses].sort(
+    (a, b) => new Date(b.analyzedAt).getTime() - new Date(a.analyzedAt).getTime()
+  );
+  const endDate = newestFirst.find(a => a.keyTerms?.endDate)?.keyTerms?.endDate;
+  const contractValue = newestFirst.find(a => a.keyTerms?.totalContractValue)?.keyTerms?.totalContractValue;
+  const openFindings = countOpenFindings(analyses);
+
+  return {
+    di_risk_grade: dealScore.grade!,
+    di_risk_score: String(dealScore.overall),
+    di_risk_count: String(openFindings.risks),
+    di_blocker_count: String(openFindings.blockers),
+    di_contract_end_date: endDate || '',
+    di_total_contract_value: contractValue ? String(contractValue.amount) : '',
+    di_contract_currency: contractValue?.currency || '',
+    di_documents_analyzed: String(analyses.length),
+    di_last_analyzed_at: newestFirst[0].analyzedAt
+  };
+}
+
+/**
+ * Write the current values for a deal from all of its analyses
+ */
+export async function syncDealProperties(portalId: string, dealId: string): Promise<void> {
+  const client = await getHubSpotClient(portalId);
+  if (!client) {
+    throw new Error('HubSpot client not authenticated');
+  }
+
+  const properties = buildDealProperties(await getDealAnalyses(portalId, dealId), await getScoringPolicy(portalId));
+  await client.crm.deals.basicApi.update(dealId, { properties });
+}
+
+/**
+ * Sync the properties of every deal a document is attached to, if the portal is connected.
+ * Failures are logged, not thrown, so a HubSpot outage never fails the analysis itself.
+ */
+export async function syncDocumentDeals(
+  portalId: string,
+  documentId: string,
+  retry: HubSpotRetryOptions = DEFAULT_HUBSPOT_RETRY
+): Promise<{ synced: string[]; failed: string[] }> {
+  if (!(await isAuthenticated(portalId))) {
+    return { synced: [], failed: [] };
+  }
+
+  return syncDeals(portalId, await getRepository().deals.listDealIds(portalId, documentId), retry);
+}
+
+/**
+ * Sync the properties of the given deals, if the portal is connected. Used when a
+ * document is deleted, after which its deal associations can no longer be looked up.
+ * Failures are logged, not thrown.
+ */
+export async function syncDeals(
+  portalId: string,
+  dealIds: string[],
+  retry: HubSpotRetryOptions = DEFAULT_HUBSPOT_RETRY
+): Promise<{ synced: string[]; failed: string[] }> {
+  const result = { synced: [] as string[], failed: [] as string[] };
+
+  if (!(await isAuthenticated(portalId))) {
+    return result;
+  }
+
+  for (const dealId of dealIds) {
+    try {
+      await retryWithBackoff(
+        () => syncDealProperties(portalId, dealId),
+        { ...retry, shouldRetry: isRetryableHubSpotError }
+      );
+      result.synced.push(dealId);
+    } catch (error) {
+      console.error(`Failed to sync properties of deal ${dealId}:`, error);
+      result.failed.push(dealId);
+    }
+  }
+
+  return result;
+}
+
+// HubSpot answers 409 Conflict when the group or property already exists
+async function ignoreConflict(request: Promise<unknown>): Promise<void> {
+  try {
+    await request;
+  } catch (error) {
+    if ((error as { code?: unknown }).code !== 409) {
+      throw error;
+    }
+  }
+}
@@ -1,14 +1,32 @@
 /**
  * Document Ingestion Service
- * Handles PDF parsing and OCR for document text extraction
+ * Handles PDF parsing, Word extraction and OCR for document text extraction
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { PDFParse } from 'pdf-parse';
 import Tesseract from 'tesseract.js';
-import { ParsedDocument, DocumentType } from '../types';
+import { ParsedDocument, DocumentType, DocumentPage, TextBlock } from '../types';
 import { config } from '../config';
+import { parseDocx, parseDoc } from './word-document.service';
+import { buildPageLayout, stripPageMarkers } from './page-layout.service';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Render scale for scanned PDF pages (2x is roughly 144 DPI for OCR)
+ */
+const PDF_OCR_SCALE = 2;
+
+/**
+ * Text and layout recognized on one page image
+ */
+interface OcrPage {
+  text: string;
+  confidence: number;
+  blocks: Tesseract.Block[];
+}
 
 /**
  * Parse a PDF document and extract text
@@ -30,7 +48,8 @@ export async function parsePdf(filePath: string): Promise<ParsedDocument> {
       creator: infoResult.info?.creator || '',
       producer: infoResult.info?.producer || ''
     },
-    confidence: 1.0 // PDFs have high confidence
+    confidence: 1.0, // PDFs have high confidence
+    pageLayout: buildPageLayout(textResult.text)
   };
 }
 
@@ -38,18 +57,140 @@ export async function parsePdf(filePath: string): Promise<ParsedDocument> {
  * Perform OCR on an image file
  */
 export async function performOcr(filePath: string): Promise<ParsedDocument> {
-  const result = await Tesseract.recognize(filePath, 'eng', {
+  const worker = await Tesseract.createWorker('eng', undefined, {
     logger: () => {} // Silent logging
   });
 
+  try {
+    const page = await recognizePage(worker, filePath);
+    return mergeOcrPages([page], {});
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/**
+ * Render each page of a scanned PDF to an image and OCR it page by page
+ */
+export async function performPdfOcr(filePath: string): Promise<ParsedDocument> {
+  let parser: PDFParse | undefined;
+  let worker: Tesseract.Worker | undefined;
+
+  try {
+    parser = new PDFParse({ data: fs.readFileSync(filePath) });
+    worker = await Tesseract.createWorker('eng', undefined, {
+      logger: () => {} // Silent logging
+    });
+
+    const infoResult = await parser.getInfo();
+    const total = infoResult.total || 1;
+    const pages: OcrPage[] = [];
+
+    // Render one page at a time to keep memory flat on long scans
+    for (let page = 1; page <= total; page++) {
+      const screenshot = await parser.getScreenshot({
+        partial: [page],
+        scale: PDF_OCR_SCALE,
+        imageDataUrl: false,
+        imageBuffer: true
+      });
+      const image = screenshot.pages[0];
+
+      pages.push(image
+        ? await recognizePage(worker, Buffer.from(image.data))
+        : { text: '', confidence: 0, blocks: [] });
+    }
+
+    return mergeOcrPages(pages, {
+      title: infoResult.info?.title || '',
+      author: infoResult.info?.author || '',
+      creator: infoResult.info?.creator || '',
+      producer: infoResult.info?.producer || ''
+    });
+  } finally {
+    await worker?.terminate();
+    await parser?.destroy();
+  }
+}
+
+/**
+ * OCR a single page image, keeping block-level layout
+ */
+async function recognizePage(
+  worker: Tesseract.Worker,
+  image: Tesseract.ImageLike
+): Promise<OcrPage> {
+  const result = await worker.recognize(image, {}, { text: true, blocks: true });
+
   return {
-    text: result.data.text,
-    pages: 1,
-    metadata: {},
-    confidence: result.data.confidence / 100
+    text: result.data.text.trim(),
+    confidence: result.data.confidence / 100,
+    blocks: result.data.blocks || []
   };
 }
 
+/**
+ * Merge OCR'd pages into one document, positioning each block in the merged text
+ */
+function mergeOcrPages(pages: OcrPage[], metadata: Record<string, string>): ParsedDocument {
+  let text = '';
+  const pageLayout: DocumentPage[] = [];
+
+  pages.forEach((page, index) => {
+    if (index > 0) text += '\n\n';
+    const start = text.length;
+    text += page.text;
+    pageLayout.push({
+      page: index + 1,
+      start,
+      end: text.length,
+      blocks: positionBlocks(page, start)
+    });
+    text += `\n-- ${index + 1} of ${pages.length} --`;
+  });
+
+  const pageConfidences = pages.map(page => page.confidence);
+
+  return {
+    text,
+    pages: pages.length,
+    metadata,
+    confidence: pageConfidences.reduce((sum, c) => sum + c, 0) / pages.length,
+    pageConfidences,
+    pageLayout
+  };
+}
+
+/**
+ * Find each OCR block's text within its page text, in reading order
+ */
+function positionBlocks(page: OcrPage, offset: number): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let cursor = 0;
+
+  for (const block of page.blocks) {
+    const blockText = block.text.trim();
+    const index = blockText ? page.text.indexOf(blockText, cursor) : -1;
+    if (index === -1) continue;
+
+    blocks.push({
+      text: blockText,
+      start: offset + index,
+      end: offset + index + blockText.length,
+      bbox: {
+        x0: block.bbox.x0,
+        y0: block.bbox.y0,
+        x1: block.bbox.x1,
+        y1: block.bbox.y1
+      },
+      confidence: block.confidence / 100
+    });
+    cursor = index + blockText.length;
+  }
+
+  return blocks;
+}
+
 /**
  * Ingest a document (auto-detect type and extract text)
  */
@@ -59,15 +200,19 @@ export async function ingestDocument(
 ): Promise<ParsedDocument> {
   const isPdf = mimeType === 'application/pdf';
   const isImage = mimeType.startsWith('image/');
+  const isDocx = mimeType === DOCX_MIME_TYPE;
+  const isDoc = mimeType === 'application/msword';
 
   if (isPdf) {
     const parsedPdf = await parsePdf(filePath);
     
-    // If PDF text extraction is poor, try OCR
-    if (parsedPdf.text.trim().length < 100) {
+    // If PDF text extraction is poor, the PDF is likely scanned: OCR every page.
+    // Page markers are ignored so blank multi-page scans are not mistaken for text.
+    const pdfTextLength = stripPageMarkers(parsedPdf.text).trim().length;
+    if (pdfTextLength < 100) {
       try {
-        const ocrResult = await performOcr(filePath);
-        if (ocrResult.text.length > parsedPdf.text.length) {
+        const ocrResult = await performPdfOcr(filePath);
+        if (stripPageMarkers(ocrResult.text).trim().length > pdfTextLength) {
           return ocrResult;
         }
       } catch {
@@ -82,13 +227,22 @@ export async function ingestDocument(
     return performOcr(filePath);
   }
 
+  if (isDocx) {
+    return parseDocx(filePath);
+  }
+
+  if (isDoc) {
+    return parseDoc(filePath);
+  }
+
   // For other document types, attempt basic text extraction
   const content = fs.readFileSync(filePath, 'utf-8');
   return {
     text: content,
     pages: 1,
     metadata: {},
-    confidence: 0.8
+    confidence: 0.8,
+    pageLayout: buildPageLayout(content)
   };
 }
 
@@ -0,0 +1,173 @@
+/**
+ * Document Versioning Service
+ * Links new uploads to earlier revisions of the same document and tracks how risk changes across them
+ */
+
+import {
+  DocumentAnalysis,
+  DocumentRisk,
+  DocumentVersionSummary,
+  RiskChange,
+  RiskTrend
+} from '../types';
+
+/**
+ * Minimum word-shingle overlap for two texts to count as revisions of one document
+ */
+export const SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * Score changes smaller than this (on the 0-100 scale) count as stable
+ */
+export const STABLE_SCORE_MARGIN = 5;
+
+// Number of earlier scores the latest one is compared against
+const TREND_WINDOW = 3;
+const SHINGLE_SIZE = 3;
+const MIN_SHINGLES = 20;
+
+// Words that mark a revision rather than a different document, e.g. "MSA v2 (redline).docx"
+const REVISION_MARKERS = /\b(?:v(?:ersion)?\s?\d+|rev(?:ision)?\s?\d*|r\d+|round\s?\d+|draft|final|redlined?|markup|clean|copy|updated|signed|executed|\d{4}\s\d{2}\s\d{2}|\d{8})\b/g;
+
+/**
+ * Reduce a filename to the document it names, ignoring extension, version and date markers
+ */
+export function filenameLineage(filename: string): string {
+  return filename
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, '')
+    .replace(/\(\d+\)/g, ' ') // Browser duplicate suffix, e.g. "msa (1)"
+    .replace(/[_\-.()[\]]+/g, ' ')
+    .replace(REVISION_MARKERS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Jaccard similarity of the two texts' word shingles, from 0 (unrelated) to 1 (identical)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const first = shingles(a);
+  const second = shingles(b);
+  if (first.size < MIN_SHINGLES || second.size < MIN_SHINGLES) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const shingle of first) {
+    if (second.has(shingle)) {
+      shared++;
+    }
+  }
+  return shared / (first.size + second.size - shared);
+}
+
+/**
+ * Find the document a new analysis revises among a deal's existing documents.
+ * A matching filename lineage wins; otherwise the most similar text above the threshold.
+ */
+export function findPriorVersion(
+  candidate: DocumentAnalysis,
+  existing: DocumentAnalysis[]
+): { analysis: DocumentAnalysis; matchedBy: 'filename' | 'similarity' } | undefined {
+  const others = existing.filter(doc => doc.documentId !== candidate.documentId);
+  const lineage = filenameLineage(candidate.filename);
+
+  const sameLineage = lineage
+    ? others
+      .filter(doc => filenameLineage(doc.filename) === lineage)
+      .sort((a, b) => b.analyzedAt.localeCompare(a.analyzedAt))
+    : [];
+  if (sameLineage.length > 0) {
+    return { analysis: sameLineage[0], matchedBy: 'filename' };
+  }
+
+  if (!candidate.rawText) {
+    return undefined;
+  }
+
+  let best: { analysis: DocumentAnalysis; similarity: number } | undefined;
+  for (const doc of others) {
+    const similarity = doc.rawText ? textSimilarity(candidate.rawText, doc.rawText) : 0;
+    if (similarity >= SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { analysis: doc, similarity };
+    }
+  }
+
+  return best && { analysis: best.analysis, matchedBy: 'similarity' };
+}
+
+/**
+ * Trend of a score history (oldest first): the latest score against the average of the ones before it.
+ * Lower scores are less risky, so a falling score is improving.
+ */
+export function computeTrend(scores: number[]): RiskTrend | undefined {
+  if (scores.length < 2) {
+    return undefined;
+  }
+
+  const latest = scores[scores.length - 1];
+  const earlier = scores.slice(-1 - TREND_WINDOW, -1);
+  const delta = latest - earlier.reduce((sum, score) => sum + score, 0) / earlier.length;
+
+  if (Math.abs(delta) < STABLE_SCORE_MARGIN) {
+    return 'stable';
+  }
+  return delta < 0 ? 'improving' : 'worsening';
+}
+
+/**
+ * Describe each version (oldest first) and what changed from the one before
+ */
+export function summarizeVersions(versions: DocumentAnalysis[]): DocumentVersionSummary[] {
+  return versions.map((analysis, index) => {
+    const previous = index > 0 ? versions[index - 1] : undefined;
+    const summary: DocumentVersionSummary = {
+      version: analysis.version || index + 1,
+      filename: analysis.filename,
+      analyzedAt: analysis.analyzedAt,
+      grade: analysis.riskScore.grade,
+      overall: analysis.riskScore.overall,
+      riskCount: analysis.risks.length,
+      risksIntroduced: previous ? riskDifference(analysis.risks, previous.risks) : analysis.risks.map(toRiskChange),
+      risksResolved: previous ? riskDifference(previous.risks, analysis.risks) : []
+    };
+
+    if (previous) {
+      summary.scoreDelta = analysis.riskScore.overall - previous.riskScore.overall;
+      if (previous.riskScore.grade !== analysis.riskScore.grade) {
+        summary.gradeChange = { from: previous.riskScore.grade, to: analysis.riskScore.grade };
+      }
+    }
+
+    return summary;
+  });
+}
+
+/**
+ * Risks in the first list with no counterpart (same category and title) in the second
+ */
+export function riskDifference(risks: DocumentRisk[], others: DocumentRisk[]): RiskChange[] {
+  const otherKeys = new Set(others.map(riskKey));
+  return risks.filter(risk => !otherKeys.has(riskKey(risk))).map(toRiskChange);
+}
+
+/**
+ * Identifies a risk across versions of a document: its category and title
+ */
+export function riskKey(risk: DocumentRisk): string {
+  return `${risk.category}:${risk.title.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+}
+
+function toRiskChange(risk: DocumentRisk): RiskChange {
+  return { category: risk.category, severity: risk.severity, title: risk.title };
+}
+
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
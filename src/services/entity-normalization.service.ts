@@ -0,0 +1,356 @@
+/**
+ * Entity Normalization Service
+ * Converts raw entity strings into typed values and derives key contract terms
+ */
+
+import {
+  ExtractedEntity,
+  NormalizedValue,
+  MonetaryAmount,
+  Duration,
+  KeyTerms
+} from '../types';
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+const MONTH_PATTERN = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+const ISO_DATE = /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/;
+const MONTH_FIRST_DATE = new RegExp(`\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i');
+const DAY_FIRST_DATE = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:day\\s+of\\s+)?(${MONTH_PATTERN})\\.?,?\\s+(\\d{4})\\b`, 'i');
+const NUMERIC_DATE = /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD',
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR'
+};
+
+const CURRENCY_CODES = new Set([
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'JPY', 'CHF', 'CNY', 'INR',
+  'SEK', 'NOK', 'DKK', 'SGD', 'HKD', 'MXN', 'BRL', 'ZAR'
+]);
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9
+};
+
+const AMOUNT_PATTERN = /(?:(US\$|[$€£¥₹])\s?|\b([A-Z]{3})\s?)?(\d{1,3}(?:[,.]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)(?:\s?(thousand|million|billion|mm|MM|bn|BN|k|K|m|M|b|B)\b)?(?:\s?([A-Z]{3})\b)?/g;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40,
+  fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+
+const NUMBER_WORD_PATTERN = `(?:${Object.keys(NUMBER_WORDS).join('|')})(?:[\\s-](?:${Object.keys(NUMBER_WORDS).join('|')}))?`;
+
+const DIGIT_DURATION = /(\d{1,4})\)?[\s-]*(?:calendar\s+|business\s+)?(day|week|month|year)s?\b/i;
+const WORD_DURATION = new RegExp(`\\b(${NUMBER_WORD_PATTERN})[\\s-]+(?:calendar\\s+|business\\s+)?(day|week|month|year)s?\\b`, 'i');
+
+const NET_TERMS = new RegExp(`\\bnet[\\s-]*(\\d{1,3}|${NUMBER_WORD_PATTERN})\\b`, 'i');
+const DUE_ON_RECEIPT = /\b(?:due\s+)?(?:up)?on\s+receipt\b/i;
+
+/**
+ * Keywords that tie a date or amount to a key term, matched in the text just before it
+ */
+const DATE_ROLES: Record<'effective' | 'end', RegExp> = {
+  effective: /effective|commenc|start|dated|as of/gi,
+  end: /expir|terminat|\bend(?:s|ing)?\b|until|through/gi
+};
+
+const AMOUNT_ROLES: Record<'total' | 'other', RegExp> = {
+  total: /total|contract value|aggregate|in consideration/gi,
+  other: /liabilit|\bcap\b|insurance|damages|penalt|interest|late/gi
+};
+
+/**
+ * Characters before an entity searched for role keywords
+ */
+const CONTEXT_WINDOW = 120;
+
+/**
+ * Parse a date in common contract formats to ISO 8601 (YYYY-MM-DD).
+ * Numeric dates are read month-first unless the first part cannot be a month.
+ */
+export function normalizeDate(raw: string): string | undefined {
+  const iso = raw.match(ISO_DATE);
+  if (iso) {
+    return toIsoDate(+iso[1], +iso[2], +iso[3]);
+  }
+
+  const monthFirst = raw.match(MONTH_FIRST_DATE);
+  if (monthFirst) {
+    return toIsoDate(+monthFirst[3], monthNumber(monthFirst[1]), +monthFirst[2]);
+  }
+
+  const dayFirst = raw.match(DAY_FIRST_DATE);
+  if (dayFirst) {
+    return toIsoDate(+dayFirst[3], monthNumber(dayFirst[2]), +dayFirst[1]);
+  }
+
+  const numeric = raw.match(NUMERIC_DATE);
+  if (numeric) {
+    let [month, day] = [+numeric[1], +numeric[2]];
+    if (month > 12) {
+      [month, day] = [day, month];
+    }
+    const year = numeric[3].length === 2
+      ? (+numeric[3] < 70 ? 2000 : 1900) + +numeric[3]
+      : +numeric[3];
+    return toIsoDate(year, month, day);
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a monetary amount with its ISO 4217 currency ("$1,250,000.00", "€5k", "USD 10k")
+ */
+export function normalizeAmount(raw: string): MonetaryAmount | undefined {
+  for (const match of raw.matchAll(AMOUNT_PATTERN)) {
+    const [, symbol, prefixCode, number, multiplier, suffixCode] = match;
+    const currency = symbol
+      ? CURRENCY_SYMBOLS[symbol]
+      : [prefixCode, suffixCode].find(code => code && CURRENCY_CODES.has(code));
+
+    if (!currency) {
+      continue;
+    }
+
+    const value = parseNumber(number) * (multiplier ? AMOUNT_MULTIPLIERS[multiplier.toLowerCase()] : 1);
+    return { amount: Math.round(value * 100) / 100, currency };
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a duration ("36 months", "thirty (30) days", "two years").
+ * Day and week durations are kept in days, month and year durations in months.
+ */
+export function normalizeDuration(raw: string): Duration | undefined {
+  const digits = raw.match(DIGIT_DURATION);
+  const words = digits ? null : raw.match(WORD_DURATION);
+  const match = digits || words;
+  if (!match) {
+    return undefined;
+  }
+
+  const count = digits ? parseInt(match[1], 10) : parseNumberWords(match[1]);
+  if (!count) {
+    return undefined;
+  }
+
+  switch (match[2].toLowerCase()) {
+    case 'day':
+      return { days: count };
+    case 'week':
+      return { days: count * 7 };
+    case 'month':
+      return { months: count };
+    default:
+      return { months: count * 12 };
+  }
+}
+
+/**
+ * Parse payment terms to net days ("Net 30", "due upon receipt", "within 45 days of invoice")
+ */
+export function normalizePaymentTerms(raw: string): number | undefined {
+  const net = raw.match(NET_TERMS);
+  if (net) {
+    return /^\d+$/.test(net[1]) ? parseInt(net[1], 10) : parseNumberWords(net[1]);
+  }
+
+  if (DUE_ON_RECEIPT.test(raw)) {
+    return 0;
+  }
+
+  return normalizeDuration(raw)?.days;
+}
+
+/**
+ * Attach a normalized value to an entity, reading its value and then its evidence
+ */
+export function normalizeEntity(entity: ExtractedEntity): ExtractedEntity {
+  for (const raw of [entity.value, entity.evidence]) {
+    const normalized = raw ? normalizeValue(entity.type, raw) : undefined;
+    if (normalized) {
+      return { ...entity, normalized };
+    }
+  }
+  return entity;
+}
+
+/**
+ * Normalize every entity that has a typed form
+ */
+export function normalizeEntities(entities: ExtractedEntity[]): ExtractedEntity[] {
+  return entities.map(normalizeEntity);
+}
+
+/**
+ * Derive key contract terms from normalized entities.
+ * Dates and amounts are assigned by the nearest preceding keyword ("effective", "expires",
+ * "total"); without a keyword, the first date is taken as the effective date and the
+ * largest amount not tied to liability, interest or penalties as the contract value.
+ */
+export function extractKeyTerms(text: string, entities: ExtractedEntity[]): KeyTerms {
+  const keyTerms: KeyTerms = {};
+  const ordered = [...entities].sort(
+    (a, b) => (a.location?.start ?? Number.MAX_SAFE_INTEGER) - (b.location?.start ?? Number.MAX_SAFE_INTEGER)
+  );
+
+  const dates = ordered.filter(e => e.normalized?.kind === 'date');
+  const effective = dates.find(e => nearestRole(text, e, DATE_ROLES) === 'effective')
+    || dates.find(e => nearestRole(text, e, DATE_ROLES) === undefined);
+  const end = dates.find(e => e !== effective && nearestRole(text, e, DATE_ROLES) === 'end');
+
+  if (effective?.normalized?.kind === 'date') {
+    keyTerms.effectiveDate = effective.normalized.date;
+  }
+
+  const term = ordered.find(e => e.type === 'term_duration' && e.normalized?.kind === 'duration');
+  if (term?.normalized?.kind === 'duration') {
+    const { days, months } = term.normalized;
+    keyTerms.term = days !== undefined ? { days } : { months };
+  }
+
+  if (end?.normalized?.kind === 'date') {
+    keyTerms.endDate = end.normalized.date;
+  } else if (keyTerms.effectiveDate && keyTerms.term) {
+    keyTerms.endDate = addDuration(keyTerms.effectiveDate, keyTerms.term);
+  }
+
+  const amounts = ordered.filter(e => e.normalized?.kind === 'amount');
+  const total = amounts.find(e => nearestRole(text, e, AMOUNT_ROLES) === 'total')
+    || amounts
+      .filter(e => nearestRole(text, e, AMOUNT_ROLES) === undefined)
+      .sort((a, b) => amountOf(b) - amountOf(a))[0];
+
+  if (total?.normalized?.kind === 'amount') {
+    keyTerms.totalContractValue = { amount: total.normalized.amount, currency: total.normalized.currency };
+  }
+
+  const payment = ordered.find(e => e.normalized?.kind === 'net_days');
+  if (payment?.normalized?.kind === 'net_days') {
+    keyTerms.paymentNetDays = payment.normalized.days;
+  }
+
+  return keyTerms;
+}
+
+/**
+ * Add a duration to an ISO date, clamping to the end of shorter months
+ */
+export function addDuration(isoDate: string, duration: Duration): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, 1));
+
+  if (duration.months) {
+    date.setUTCMonth(date.getUTCMonth() + duration.months);
+  }
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, daysInMonth) + (duration.days || 0));
+
+  return date.toISOString().slice(0, 10);
+}
+
+function normalizeValue(type: ExtractedEntity['type'], raw: string): NormalizedValue | undefined {
+  switch (type) {
+    case 'date': {
+      const date = normalizeDate(raw);
+      return date ? { kind: 'date', date } : undefined;
+    }
+    case 'amount': {
+      const amount = normalizeAmount(raw);
+      return amount ? { kind: 'amount', ...amount } : undefined;
+    }
+    case 'term_duration': {
+      const duration = normalizeDuration(raw);
+      return duration ? { kind: 'duration', ...duration } : undefined;
+    }
+    case 'payment_terms': {
+      const days = normalizePaymentTerms(raw);
+      return days !== undefined ? { kind: 'net_days', days } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The role whose keyword appears closest before the entity, if any
+ */
+function nearestRole<R extends string>(
+  text: string,
+  entity: ExtractedEntity,
+  roles: Record<R, RegExp>
+): R | undefined {
+  const start = entity.location?.start;
+  const context = start !== undefined
+    ? text.slice(Math.max(0, start - CONTEXT_WINDOW), start)
+    : entity.evidence || '';
+
+  let best: { role: R; index: number } | undefined;
+  for (const role of Object.keys(roles) as R[]) {
+    for (const match of context.matchAll(roles[role])) {
+      if (!best || match.index! > best.index) {
+        best = { role, index: match.index! };
+      }
+    }
+  }
+  return best?.role;
+}
+
+function amountOf(entity: ExtractedEntity): number {
+  return entity.normalized?.kind === 'amount' ? entity.normalized.amount : 0;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function monthNumber(name: string): number {
+  const prefix = name.toLowerCase().slice(0, 3);
+  return MONTH_NAMES.findIndex(month => month.startsWith(prefix)) + 1;
+}
+
+/**
+ * Parse digits with thousands separators, treating a final 1-2 digit group as decimals
+ */
+function parseNumber(raw: string): number {
+  const lastSeparator = Math.max(raw.lastIndexOf(','), raw.lastIndexOf('.'));
+  const decimals = lastSeparator === -1 ? '' : raw.slice(lastSeparator + 1);
+
+  if (lastSeparator !== -1 && decimals.length <= 2) {
+    return parseFloat(`${raw.slice(0, lastSeparator).replace(/[,.]/g, '')}.${decimals}`);
+  }
+  return parseFloat(raw.replace(/[,.]/g, ''));
+}
+
+function parseNumberWords(words: string): number {
+  return words
+    .toLowerCase()
+    .split(/[\s-]+/)
+    .reduce((total, word) => total + (NUMBER_WORDS[word] || 0), 0);
+}
@@ -0,0 +1,80 @@
+/**
+ * Evidence Verification Service
+ * Checks that AI findings are backed by a quote that appears in the document
+ */
+
+import { ExtractedEntity, DocumentRisk, TextLocation } from '../types';
+
+/**
+ * Resolves a snippet to its location in the document text
+ */
+export type SnippetLocator = (snippet: string) => TextLocation | undefined;
+
+/**
+ * Confidence multiplier for entities whose evidence cannot be found
+ */
+export const UNVERIFIED_CONFIDENCE_FACTOR = 0.5;
+
+/**
+ * Attach verified evidence to an entity.
+ * Falls back to the value itself as evidence; unlocatable entities are kept with reduced confidence.
+ */
+export function verifyEntity(
+  entity: ExtractedEntity,
+  text: string,
+  locate: SnippetLocator
+): ExtractedEntity {
+  for (const snippet of [entity.evidence, entity.value]) {
+    const location = snippet ? locate(snippet) : undefined;
+    if (location) {
+      return {
+        ...entity,
+        evidence: text.slice(location.start, location.end),
+        location,
+        verified: true
+      };
+    }
+  }
+
+  return {
+    ...entity,
+    evidence: undefined,
+    location: undefined,
+    confidence: entity.confidence * UNVERIFIED_CONFIDENCE_FACTOR,
+    verified: false
+  };
+}
+
+/**
+ * Attach verified evidence to a risk.
+ * Risks quoting text that is not in the document are dropped; risks without a quote
+ * are kept as unverified (scored at reduced weight), except missing clauses, which
+ * have nothing to quote.
+ */
+export function verifyRisk(
+  risk: DocumentRisk,
+  text: string,
+  locate: SnippetLocator
+): { risk?: DocumentRisk; error?: string } {
+  if (risk.evidence) {
+    const location = locate(risk.evidence);
+    if (!location) {
+      return { error: 'evidence quote not found in document' };
+    }
+
+    return {
+      risk: {
+        ...risk,
+        evidence: text.slice(location.start, location.end),
+        location,
+        verified: true
+      }
+    };
+  }
+
+  if (risk.category === 'missing_clause') {
+    return { risk };
+  }
+
+  return { risk: { ...risk, verified: false } };
+}
@@ -0,0 +1,173 @@
+/**
+ * Finding Decisions Service
+ * Records risks dismissed and blockers resolved from the CRM card, and rescores without them
+ */
+
+import * as crypto from 'crypto';
+import { config } from '../config';
+import {
+  DealBlocker,
+  DismissalGrant,
+  DocumentAnalysis,
+  FindingDecision,
+  RequiredAction,
+  ScoringPolicy
+} from '../types';
+import { getRepository } from './repository.service';
+import { syncDocumentDeals } from './deal-properties.service';
+import { calculateRiskScore } from './scoring-engine.service';
+import { riskKey } from './document-versioning.service';
+import { DEFAULT_SCORING_POLICY, getScoringPolicy } from './scoring-policy.service';
+
+// Cards are fetched when the deal is opened and may stay open for a working day
+const DISMISSAL_GRANT_TTL_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Sign a link for the CRM card to open the dismiss page with. The page cannot be signed
+ * by HubSpot, so the grant carries the user from the signed card request instead.
+ */
+export function signDismissalGrant(
+  grant: Omit<DismissalGrant, 'expiresAt'>,
+  now = Date.now()
+): string {
+  const payload = Buffer.from(JSON.stringify({ ...grant, expiresAt: now + DISMISSAL_GRANT_TTL_MS })).toString('base64url');
+  return `${payload}.${signGrantPayload(payload)}`;
+}
+
+/**
+ * The grant a dismiss link was signed with, or undefined if it was altered or has expired
+ */
+export function verifyDismissalGrant(token: unknown, now = Date.now()): DismissalGrant | undefined {
+  if (typeof token !== 'string') {
+    return undefined;
+  }
+
+  const [payload, signature = ''] = token.split('.');
+  const expected = signGrantPayload(payload);
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return undefined;
+  }
+
+  const grant = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as DismissalGrant;
+  return grant.expiresAt > now ? grant : undefined;
+}
+
+function signGrantPayload(payload: string): string {
+  return crypto.createHmac('sha256', config.hubspot.clientSecret).update(payload).digest('base64url');
+}
+
+/**
+ * Dismiss a risk of a stored analysis, complete the actions it required and rescore
+ * it with the portal's current policy. The document's deals are re-synced.
+ * Returns undefined if the document or risk does not exist.
+ */
+export async function dismissRisk(
+  portalId: string,
+  documentId: string,
+  riskId: string,
+  decision: FindingDecision
+): Promise<DocumentAnalysis | undefined> {
+  const repository = getRepository();
+  const analysis = await repository.analyses.get(portalId, documentId);
+  const risk = analysis?.risks.find(r => r.id === riskId);
+  if (!analysis || !risk) {
+    return undefined;
+  }
+
+  risk.dismissed = decision;
+  const rescored = rescore(completeSetAsideActions(analysis), await getScoringPolicy(portalId));
+  await repository.analyses.save(portalId, rescored);
+  await syncDocumentDeals(portalId, documentId);
+  return rescored;
+}
+
+/**
+ * Resolve a blocker of a stored analysis, complete the actions it required and rescore
+ * it with the portal's current policy. The document's deals are re-synced.
+ * Returns undefined if the document or blocker does not exist.
+ */
+export async function resolveBlocker(
+  portalId: string,
+  documentId: string,
+  blockerId: string,
+  decision: FindingDecision
+): Promise<DocumentAnalysis | undefined> {
+  const repository = getRepository();
+  const analysis = await repository.analyses.get(portalId, documentId);
+  const blocker = analysis?.blockers.find(b => b.id === blockerId);
+  if (!analysis || !blocker) {
+    return undefined;
+  }
+
+  blocker.resolved = decision;
+  const rescored = rescore(completeSetAsideActions(analysis), await getScoringPolicy(portalId));
+  await repository.analyses.save(portalId, rescored);
+  await syncDocumentDeals(portalId, documentId);
+  return rescored;
+}
+
+/**
+ * Keep decisions on findings a new analysis of the document reports again, complete the
+ * actions those findings would require, and rescore it
+ */
+export function carryOverDecisions(
+  previous: DocumentAnalysis,
+  next: DocumentAnalysis,
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): DocumentAnalysis {
+  const dismissals = new Map(
+    previous.risks.filter(risk => risk.dismissed).map(risk => [riskKey(risk), risk.dismissed!])
+  );
+  const resolutions = new Map(
+    previous.blockers.filter(blocker => blocker.resolved).map(blocker => [blockerKey(blocker), blocker.resolved!])
+  );
+  if (dismissals.size === 0 && resolutions.size === 0) {
+    return next;
+  }
+
+  return rescore(completeSetAsideActions({
+    ...next,
+    risks: next.risks.map(risk => {
+      const dismissed = dismissals.get(riskKey(risk));
+      return dismissed ? { ...risk, dismissed } : risk;
+    }),
+    blockers: next.blockers.map(blocker => {
+      const resolved = resolutions.get(blockerKey(blocker));
+      return resolved ? { ...blocker, resolved } : blocker;
+    })
+  }), policy);
+}
+
+function completeSetAsideActions(analysis: DocumentAnalysis): DocumentAnalysis {
+  return {
+    ...analysis,
+    requiredActions: analysis.requiredActions?.map(action =>
+      isSetAsideAction(analysis, action) ? { ...action, status: 'completed' } : action
+    )
+  };
+}
+
+// Actions stored before they recorded their finding are matched on the text they were generated from
+function isSetAsideAction(analysis: DocumentAnalysis, action: RequiredAction): boolean {
+  const risk = analysis.risks.find(r => action.riskId
+    ? r.id === action.riskId
+    : !action.blockerId && r.recommendation === action.action && r.description === action.reason
+  );
+  const blocker = analysis.blockers.find(b => action.blockerId
+    ? b.id === action.blockerId
+    : !action.riskId && b.requiredAction === action.action && b.description === action.reason
+  );
+  return Boolean(risk?.dismissed || blocker?.resolved);
+}
+
+function rescore(analysis: DocumentAnalysis, policy: ScoringPolicy): DocumentAnalysis {
+  const riskScore = calculateRiskScore(analysis.risks, analysis.missingTerms, analysis.blockers, policy);
+  return {
+    ...analysis,
+    riskScore: analysis.riskScore.trend ? { ...riskScore, trend: analysis.riskScore.trend } : riskScore
+  };
+}
+
+function blockerKey(blocker: DealBlocker): string {
+  return `${blocker.type}:${blocker.title.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+}
@@ -0,0 +1,67 @@
+/**
+ * HubSpot Files Service
+ * Downloads files attached in HubSpot so they can be analyzed
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { config } from '../config';
+import { getHubSpotClient } from './oauth.service';
+import { getUploadDir } from './document-ingestion.service';
+import { sanitizeFilename } from '../utils';
+
+/**
+ * A HubSpot file saved to the upload directory
+ */
+export interface DownloadedFile {
+  filePath: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+/**
+ * Download a file from the portal's File Manager through a signed URL.
+ * The caller owns the returned file and removes it when done.
+ */
+export async function downloadHubSpotFile(portalId: string, fileId: string): Promise<DownloadedFile> {
+  const client = await getHubSpotClient(portalId);
+  if (!client) {
+    throw new Error('HubSpot client not authenticated');
+  }
+
+  const signed = await client.files.filesApi.getSignedUrl(fileId);
+  if (signed.size > config.upload.maxFileSize) {
+    throw new Error(`File ${fileId} is too large to analyze (${signed.size} bytes)`);
+  }
+
+  const response = await fetch(signed.url);
+  if (!response.ok) {
+    throw new Error(`Failed to download file ${fileId}: HTTP ${response.status}`);
+  }
+  const content = Buffer.from(await response.arrayBuffer());
+
+  // HubSpot file names exclude the extension
+  const extension = signed.extension.toLowerCase();
+  const filename = signed.name.toLowerCase().endsWith(`.${extension}`) ? signed.name : `${signed.name}.${extension}`;
+  const mimeType = MIME_TYPES_BY_EXTENSION[extension] ||
+    response.headers.get('content-type')?.split(';')[0].trim() ||
+    'application/octet-stream';
+
+  const filePath = path.join(getUploadDir(), `${randomUUID()}-${sanitizeFilename(filename)}`);
+  await fs.promises.writeFile(filePath, content);
+
+  return { filePath, filename, mimeType, size: content.length };
+}
@@ -2,8 +2,27 @@
  * Services barrel export
  */
 
+export * from './repository.service';
+export * from './blob-store.service';
 export * from './oauth.service';
+export * from './hubspot-files.service';
 export * from './document-ingestion.service';
+export * from './word-document.service';
+export * from './page-layout.service';
+export * from './clause-segmentation.service';
+export * from './llm-provider.service';
+export * from './llm-validation.service';
+export * from './evidence-verification.service';
+export * from './entity-normalization.service';
 export * from './ai-parsing.service';
+export * from './scoring-policy.service';
 export * from './scoring-engine.service';
+export * from './document-versioning.service';
+export * from './redline.service';
+export * from './job-queue.service';
 export * from './crm-card.service';
+export * from './page-rendering.service';
+export * from './timeline.service';
+export * from './deal-properties.service';
+export * from './action-tasks.service';
+export * from './finding-decisions.service';
@@ -0,0 +1,358 @@
+/**
+ * Job Queue Service
+ * Runs document analysis in the background with a concurrency limit and retries,
+ * one job at a time per document. Jobs are persisted through the repository so unfinished ones resume after a restart.
+ */
+
+import { randomUUID } from 'crypto';
+import { config } from '../config';
+import { AnalysisJob, AnalysisStage, DocumentAnalysis } from '../types';
+import { getRepository, getDealAnalyses } from './repository.service';
+import { analyzeDocument } from './scoring-engine.service';
+import { cleanupFile } from './document-ingestion.service';
+import { deleteUnreferencedBlob, getBlobStore } from './blob-store.service';
+import { findPriorVersion, computeTrend } from './document-versioning.service';
+import { publishAnalysisEvent } from './timeline.service';
+import { syncDocumentDeals } from './deal-properties.service';
+import { carryOverActions } from './action-tasks.service';
+import { carryOverDecisions } from './finding-decisions.service';
+import { getScoringPolicy } from './scoring-policy.service';
+
+/**
+ * Does the work for a job, reporting each stage as it starts and the original file
+ * once it is in the blob store. May return the document the result was stored under,
+ * if not the job's own.
+ */
+export type JobProcessor = (
+  job: AnalysisJob,
+  reportStage: (stage: AnalysisStage) => Promise<void>,
+  reportBlob: (blobHash: string) => Promise<void>
+) => Promise<{ documentId: string } | void>;
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  retryDelayMs: number;
+  process: JobProcessor;
+  onSettled?: (job: AnalysisJob) => void | Promise<void>; // Called once a job completes or finally fails
+}
+
+/**
+ * What a caller supplies to start an analysis job: an uploaded file for a deal,
+ * or the stored original of an existing document
+ */
+export type NewAnalysisJob = Pick<AnalysisJob, 'portalId' | 'filename' | 'mimeType'> &
+  Partial<Pick<AnalysisJob, 'dealId' | 'documentId' | 'filePath' | 'blobHash'>>;
+
+export interface JobQueue {
+  enqueue(input: NewAnalysisJob): Promise<AnalysisJob>;
+  resume(): Promise<number>;
+  onIdle(): Promise<void>;
+}
+
+let jobQueue: JobQueue | null = null;
+
+/**
+ * Create an in-process job queue backed by the application repository
+ */
+export function createJobQueue(options: JobQueueOptions): JobQueue {
+  const pending: AnalysisJob[] = [];
+  const active = new Set<string>();
+  const busyDocuments = new Set<string>();
+  let running = 0;
+  let waitingRetries = 0;
+  let idleWaiters: Array<() => void> = [];
+
+  const notifyIdle = (): void => {
+    if (running === 0 && pending.length === 0 && waitingRetries === 0) {
+      idleWaiters.forEach(resolve => resolve());
+      idleWaiters = [];
+    }
+  };
+
+  const pump = (): void => {
+    while (running < options.concurrency) {
+      // Jobs for a document run one at a time so each archives the version the last one stored
+      const index = pending.findIndex(job => !busyDocuments.has(documentKey(job)));
+      if (index === -1) {
+        return;
+      }
+
+      const [job] = pending.splice(index, 1);
+      busyDocuments.add(documentKey(job));
+      running++;
+      run(job)
+        .catch(error => console.error(`Job ${job.id} could not be updated:`, error))
+        .finally(() => {
+          busyDocuments.delete(documentKey(job));
+          running--;
+          pump();
+          notifyIdle();
+        });
+    }
+  };
+
+  const schedule = (job: AnalysisJob): void => {
+    if (active.has(job.id)) {
+      return;
+    }
+    active.add(job.id);
+    pending.push(job);
+    pump();
+  };
+
+  const run = async (queued: AnalysisJob): Promise<void> => {
+    const jobs = getRepository().jobs;
+    let job: AnalysisJob = {
+      ...queued,
+      status: 'running',
+      attempts: queued.attempts + 1,
+      error: undefined,
+      updatedAt: new Date().toISOString()
+    };
+    await jobs.save(job);
+
+    try {
+      const outcome = await options.process(
+        job,
+        async stage => {
+          job = { ...job, stage, updatedAt: new Date().toISOString() };
+          await jobs.save(job);
+        },
+        async blobHash => {
+          job = { ...job, blobHash, updatedAt: new Date().toISOString() };
+          await jobs.save(job);
+        }
+      );
+      job = {
+        ...job,
+        documentId: outcome ? outcome.documentId : job.documentId,
+        status: 'completed',
+        updatedAt: new Date().toISOString(),
+        completedAt: new Date().toISOString()
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retry = job.attempts < options.maxAttempts;
+      job = {
+        ...job,
+        status: retry ? 'queued' : 'failed',
+        error: message,
+        updatedAt: new Date().toISOString(),
+        completedAt: retry ? undefined : new Date().toISOString()
+      };
+
+      if (retry) {
+        await jobs.save(job);
+        active.delete(job.id);
+        waitingRetries++;
+        const retryJob = job;
+        setTimeout(() => {
+          waitingRetries--;
+          schedule(retryJob);
+        }, options.retryDelayMs).unref();
+        return;
+      }
+    }
+
+    await jobs.save(job);
+    active.delete(job.id);
+    await options.onSettled?.(job);
+  };
+
+  return {
+    async enqueue(input) {
+      const now = new Date().toISOString();
+      const job: AnalysisJob = {
+        ...input,
+        id: randomUUID(),
+        documentId: input.documentId || randomUUID(),
+        status: 'queued',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await getRepository().jobs.save(job);
+      schedule(job);
+      return { ...job };
+    },
+
+    async resume() {
+      const unfinished = (await getRepository().jobs.listUnfinished()).filter(job => !active.has(job.id));
+
+      for (const job of unfinished) {
+        // A job that was running when the process stopped starts over
+        const queued: AnalysisJob = { ...job, status: 'queued', updatedAt: new Date().toISOString() };
+        await getRepository().jobs.save(queued);
+        schedule(queued);
+      }
+
+      return unfinished.length;
+    },
+
+    onIdle() {
+      return new Promise(resolve => {
+        idleWaiters.push(resolve);
+        notifyIdle();
+      });
+    }
+  };
+}
+
+function documentKey(job: AnalysisJob): string {
+  return `${job.portalId}/${job.documentId}`;
+}
+
+/**
+ * Analyze a job's document and store the result.
+ * Uploads are kept in the blob store first. An upload that revises a document already
+ * on the deal is stored as that document's next version; the analysis it replaces is
+ * archived as a prior version and the risk trend is computed from the score history.
+ * Every deal the document is attached to then gets a timeline event.
+ * A retry after the result was stored only repeats the HubSpot updates.
+ */
+export async function processAnalysisJob(
+  job: AnalysisJob,
+  reportStage: (stage: AnalysisStage) => Promise<void>,
+  reportBlob: (blobHash: string) => Promise<void> = async () => undefined
+): Promise<{ documentId: string }> {
+  const repository = getRepository();
+  const alreadyStored = await findStoredResult(job);
+  if (alreadyStored) {
+    await publishResult(job.portalId, alreadyStored);
+    return { documentId: alreadyStored.documentId };
+  }
+
+  const blobStore = getBlobStore();
+  let blobHash = job.blobHash;
+  if (!blobHash) {
+    blobHash = await blobStore.put(job.filePath!);
+    await reportBlob(blobHash);
+  }
+  const sourcePath = await blobStore.getPath(blobHash);
+  if (!sourcePath) {
+    throw new Error(`Original file ${blobHash} is missing from the blob store`);
+  }
+
+  const analyzed = await analyzeDocument(
+    sourcePath,
+    job.filename,
+    job.mimeType,
+    job.documentId,
+    job.portalId,
+    reportStage
+  );
+
+  let previous = await repository.analyses.get(job.portalId, job.documentId);
+  if (!previous && job.dealId) {
+    previous = findPriorVersion(analyzed, await getDealAnalyses(job.portalId, job.dealId))?.analysis;
+  }
+  const documentId = previous ? previous.documentId : job.documentId;
+  const analysis = previous
+    ? carryOverDecisions(previous, analyzed, await getScoringPolicy(job.portalId))
+    : analyzed;
+
+  const history = previous
+    ? [...await repository.analyses.listVersions(job.portalId, documentId), previous]
+    : [];
+  const trend = computeTrend([...history, analysis].map(version => version.riskScore.overall));
+
+  if (previous) {
+    await repository.analyses.archive(job.portalId, previous);
+  }
+
+  const stored: DocumentAnalysis = {
+    ...analysis,
+    documentId,
+    mimeType: job.mimeType,
+    blobHash,
+    version: previous ? (previous.version || history.length) + 1 : 1,
+    jobId: job.id,
+    uploadedAt: previous ? previous.uploadedAt : analysis.uploadedAt,
+    riskScore: trend ? { ...analysis.riskScore, trend } : analysis.riskScore
+  };
+  if (previous?.requiredActions && stored.requiredActions) {
+    stored.requiredActions = carryOverActions(previous.requiredActions, stored.requiredActions);
+  }
+  await repository.analyses.save(job.portalId, stored);
+  if (job.dealId) {
+    await repository.deals.add(job.portalId, job.dealId, documentId);
+  }
+
+  await publishResult(job.portalId, stored);
+  return { documentId };
+}
+
+/**
+ * The analysis an earlier attempt of the job stored, if it got that far
+ */
+async function findStoredResult(job: AnalysisJob): Promise<DocumentAnalysis | undefined> {
+  const current = await getRepository().analyses.get(job.portalId, job.documentId);
+  if (current?.jobId === job.id) {
+    return current;
+  }
+  if (job.dealId) {
+    return (await getDealAnalyses(job.portalId, job.dealId)).find(analysis => analysis.jobId === job.id);
+  }
+  return undefined;
+}
+
+/**
+ * Post a stored analysis to the timelines and properties of its deals
+ */
+async function publishResult(portalId: string, analysis: DocumentAnalysis): Promise<void> {
+  await publishAnalysisEvent(portalId, analysis);
+  await syncDocumentDeals(portalId, analysis.documentId);
+}
+
+/**
+ * Describe the job that re-analyzes a stored document from its original file.
+ * Returns undefined when the original was not retained.
+ */
+export function toReanalysisJob(portalId: string, analysis: DocumentAnalysis): NewAnalysisJob | undefined {
+  if (!analysis.blobHash || !analysis.mimeType) {
+    return undefined;
+  }
+
+  return {
+    portalId,
+    documentId: analysis.documentId,
+    filename: analysis.filename,
+    mimeType: analysis.mimeType,
+    blobHash: analysis.blobHash
+  };
+}
+
+/**
+ * Get the application's analysis queue, created from configuration on first use
+ */
+export function getJobQueue(): JobQueue {
+  if (!jobQueue) {
+    jobQueue = createJobQueue({
+      ...config.jobs,
+      process: processAnalysisJob,
+      onSettled: async job => {
+        if (job.filePath) {
+          cleanupFile(job.filePath);
+        }
+        // No analysis refers to the original of an upload that never got analyzed
+        if (job.status === 'failed' && job.blobHash) {
+          try {
+            await deleteUnreferencedBlob(job.blobHash);
+          } catch (error) {
+            console.error(`Failed to delete original file ${job.blobHash} of job ${job.id}:`, error);
+          }
+        }
+      }
+    });
+  }
+  return jobQueue;
+}
+
+/**
+ * Replace the application's analysis queue (for tests)
+ */
+export function setJobQueue(replacement: JobQueue | null): void {
+  jobQueue = replacement;
+}
@@ -0,0 +1,393 @@
+/**
+ * LLM Provider Service
+ * Provider abstraction over chat completion backends, selectable per portal
+ */
+
+import OpenAI from 'openai';
+import * as fs from 'fs';
+import { isIP } from 'net';
+import { config } from '../config';
+import {
+  LlmProvider,
+  LlmProviderName,
+  LlmCompletionRequest,
+  LlmCompletionResult,
+  LlmTokenUsage,
+  LlmSettings,
+  LlmUsageSummary
+} from '../types';
+import { getRepository } from './repository.service';
+
+/**
+ * Recorded response replayed by the fixture provider
+ */
+export interface LlmFixture {
+  match: string | RegExp; // Matched against the concatenated request messages
+  response: string | object;
+  usage?: LlmTokenUsage;
+}
+
+/**
+ * Provider wrapper that accumulates token usage across requests
+ */
+export interface TrackedLlmProvider extends LlmProvider {
+  getUsage(): LlmUsageSummary;
+}
+
+const SETTINGS_PROVIDERS: LlmSettings['provider'][] = ['openai', 'openai-compatible'];
+
+// Placeholder key for local endpoints that do not check one
+const LOCAL_API_KEY = 'not-required';
+
+// Host names that only resolve inside a private network
+const PRIVATE_HOSTNAME = /(^|\.)(localhost|local|internal)$/i;
+
+const providerCache = new Map<string, LlmProvider>();
+
+// Overrides the configured default provider; undefined restores config
+let defaultProviderOverride: LlmProvider | null | undefined;
+
+/**
+ * Create a provider backed by the OpenAI API
+ */
+export function createOpenAIProvider(options: { apiKey: string; model: string }): LlmProvider {
+  const client = new OpenAI({ apiKey: options.apiKey });
+  return buildChatCompletionsProvider('openai', client, options.model, false);
+}
+
+/**
+ * Create a provider for any OpenAI-compatible endpoint (vLLM, Ollama, LM Studio...)
+ */
+export function createOpenAICompatibleProvider(options: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}): LlmProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey || LOCAL_API_KEY,
+    baseURL: options.baseUrl
+  });
+  return buildChatCompletionsProvider('openai-compatible', client, options.model, true);
+}
+
+/**
+ * Create a deterministic provider that replays recorded responses
+ */
+export function createFixtureProvider(fixtures: LlmFixture[], model: string = 'fixture'): LlmProvider {
+  return {
+    name: 'fixture',
+    model,
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletionResult> {
+      const prompt = request.messages.map(m => m.content).join('\n');
+      const fixture = fixtures.find(f =>
+        typeof f.match === 'string' ? prompt.includes(f.match) : f.match.test(prompt)
+      );
+
+      if (!fixture) {
+        throw new Error(`No LLM fixture matches request: ${prompt.substring(0, 100)}`);
+      }
+
+      const content = typeof fixture.response === 'string'
+        ? fixture.response
+        : JSON.stringify(fixture.response);
+
+      return {
+        content,
+        model,
+        usage: fixture.usage || estimateUsage(prompt, content)
+      };
+    }
+  };
+}
+
+/**
+ * Load a fixture provider from a JSON file of {match, response} entries
+ */
+export function loadFixtureProvider(filePath: string): LlmProvider {
+  const fixtures: LlmFixture[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  return createFixtureProvider(fixtures);
+}
+
+/**
+ * Build a provider from settings
+ */
+export function createLlmProvider(settings: LlmSettings): LlmProvider | null {
+  if (settings.provider === 'openai-compatible') {
+    return settings.baseUrl
+      ? createOpenAICompatibleProvider({
+          baseUrl: settings.baseUrl,
+          model: settings.model,
+          apiKey: settings.apiKey
+        })
+      : null;
+  }
+
+  const apiKey = settings.apiKey || config.openai.apiKey;
+  return apiKey ? createOpenAIProvider({ apiKey, model: settings.model }) : null;
+}
+
+/**
+ * Get the configured default provider.
+ * Returns null when no provider is usable, so callers use rule-based analysis.
+ */
+export function getLlmProvider(): LlmProvider | null {
+  if (defaultProviderOverride !== undefined) {
+    return defaultProviderOverride;
+  }
+  return resolveProvider(getDefaultLlmSettings());
+}
+
+/**
+ * Get the provider for a portal, falling back to the configured default
+ */
+export async function getPortalLlmProvider(portalId?: string): Promise<LlmProvider | null> {
+  const settings = portalId ? await getPortalLlmSettings(portalId) : undefined;
+  return settings ? resolveProvider(settings) : getLlmProvider();
+}
+
+/**
+ * Replace the configured default provider (pass undefined to restore config)
+ */
+export function setDefaultLlmProvider(provider: LlmProvider | null | undefined): void {
+  defaultProviderOverride = provider;
+}
+
+/**
+ * Default settings from environment configuration
+ */
+export function getDefaultLlmSettings(): LlmSettings {
+  return {
+    provider: config.llm.provider,
+    model: config.llm.model,
+    baseUrl: config.llm.baseUrl || undefined,
+    apiKey: config.llm.apiKey || undefined
+  };
+}
+
+/**
+ * Get the LLM settings stored for a portal
+ */
+export async function getPortalLlmSettings(portalId: string): Promise<LlmSettings | undefined> {
+  return getRepository().llmSettings.get(portalId);
+}
+
+/**
+ * Store LLM settings for a portal
+ */
+export async function setPortalLlmSettings(portalId: string, settings: LlmSettings): Promise<void> {
+  await getRepository().llmSettings.save(portalId, settings);
+}
+
+/**
+ * Remove a portal's LLM settings so it uses the default again
+ */
+export async function removePortalLlmSettings(portalId: string): Promise<boolean> {
+  return getRepository().llmSettings.delete(portalId);
+}
+
+/**
+ * Validate LLM settings submitted for a portal.
+ * Endpoints must use https on a public host unless their host is in LLM_ALLOWED_HOSTS.
+ */
+export function validateLlmSettings(input: unknown): { settings?: LlmSettings; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Settings must be an object' };
+  }
+
+  const { provider, model, baseUrl, apiKey } = input as Record<string, unknown>;
+
+  if (!SETTINGS_PROVIDERS.includes(provider as LlmSettings['provider'])) {
+    return { error: `provider must be one of: ${SETTINGS_PROVIDERS.join(', ')}` };
+  }
+  if (typeof model !== 'string' || !model.trim()) {
+    return { error: 'model is required' };
+  }
+  if (baseUrl !== undefined && typeof baseUrl !== 'string') {
+    return { error: 'baseUrl must be a string' };
+  }
+  if (apiKey !== undefined && typeof apiKey !== 'string') {
+    return { error: 'apiKey must be a string' };
+  }
+  if (provider === 'openai-compatible') {
+    if (!baseUrl) {
+      return { error: 'baseUrl is required for openai-compatible providers' };
+    }
+    const error = checkEndpointUrl(baseUrl);
+    if (error) {
+      return { error };
+    }
+  }
+
+  return {
+    settings: {
+      provider: provider as LlmSettings['provider'],
+      model: model.trim(),
+      baseUrl: provider === 'openai-compatible' ? baseUrl : undefined,
+      apiKey: apiKey || undefined
+    }
+  };
+}
+
+/**
+ * Wrap a provider to record token usage across its requests
+ */
+export function trackUsage(provider: LlmProvider): TrackedLlmProvider {
+  const usage: LlmUsageSummary = {
+    provider: provider.name,
+    model: provider.model,
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletionResult> {
+      const result = await provider.complete(request);
+      usage.requests++;
+      usage.promptTokens += result.usage.promptTokens;
+      usage.completionTokens += result.usage.completionTokens;
+      usage.totalTokens += result.usage.totalTokens;
+      return result;
+    },
+    getUsage: () => ({ ...usage })
+  };
+}
+
+/**
+ * Pull the JSON payload out of a response that may wrap it in prose or code fences
+ */
+export function extractJson(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : content).trim();
+
+  const start = candidate.search(/[{[]/);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  return start !== -1 && end > start ? candidate.slice(start, end + 1) : candidate;
+}
+
+function resolveProvider(settings: LlmSettings): LlmProvider | null {
+  const cacheKey = JSON.stringify([settings, settings.provider === 'openai' ? config.openai.apiKey : '']);
+
+  const cached = providerCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const provider = createLlmProvider(settings);
+  if (provider) {
+    providerCache.set(cacheKey, provider);
+  }
+  return provider;
+}
+
+/**
+ * Why an endpoint URL may not be used, or undefined if it may
+ */
+function checkEndpointUrl(baseUrl: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return 'baseUrl must be a valid URL';
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (config.llm.allowedHosts.includes(host)) {
+    return url.protocol === 'https:' || url.protocol === 'http:' ? undefined : 'baseUrl must be an http(s) URL';
+  }
+  if (url.protocol !== 'https:') {
+    return 'baseUrl must be an https URL';
+  }
+  if (isPrivateHost(host)) {
+    return `baseUrl host ${host} is private; add it to LLM_ALLOWED_HOSTS to allow it`;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a host is loopback, private, link-local or otherwise internal
+ */
+function isPrivateHost(host: string): boolean {
+  const version = isIP(host);
+  if (version === 0) {
+    return PRIVATE_HOSTNAME.test(host);
+  }
+  if (version === 6) {
+    // IPv4-mapped addresses, which URL parsing rewrites as hex (::ffff:7f00:1)
+    const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mapped) {
+      const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+      return isPrivateHost([high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'));
+    }
+    if (/^::ffff:\d+\.\d+\.\d+\.\d+$/.test(host)) {
+      return isPrivateHost(host.slice('::ffff:'.length));
+    }
+    // Unspecified, loopback, unique local (fc00::/7) and link-local (fe80::/10)
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+  }
+
+  const [a, b] = host.split('.').map(Number);
+  return a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168);
+}
+
+function buildChatCompletionsProvider(
+  name: LlmProviderName,
+  client: OpenAI,
+  model: string,
+  jsonModeFallback: boolean
+): LlmProvider {
+  const create = (request: LlmCompletionRequest, jsonMode: boolean) =>
+    client.chat.completions.create({
+      model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+    });
+
+  return {
+    name,
+    model,
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletionResult> {
+      let response;
+      try {
+        response = await create(request, request.json === true);
+      } catch (error) {
+        // Some local servers reject response_format; ask again relying on the prompt alone
+        if (!jsonModeFallback || !request.json || (error as { status?: number }).status !== 400) {
+          throw error;
+        }
+        response = await create(request, false);
+      }
+
+      const content = response.choices[0]?.message?.content ?? null;
+      return {
+        content: content && request.json ? extractJson(content) : content,
+        model: response.model || model,
+        usage: {
+          promptTokens: response.usage?.prompt_tokens ?? 0,
+          completionTokens: response.usage?.completion_tokens ?? 0,
+          totalTokens: response.usage?.total_tokens ?? 0
+        }
+      };
+    }
+  };
+}
+
+/**
+ * Rough token estimate (~4 characters per token) for providers without usage data
+ */
+function estimateUsage(prompt: string, completion: string): LlmTokenUsage {
+  const promptTokens = Math.ceil(prompt.length / 4);
+  const completionTokens = Math.ceil(completion.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
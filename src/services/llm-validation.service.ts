@@ -0,0 +1,244 @@
+/**
+ * LLM Validation Service
+ * Runtime validation of model responses before they enter an analysis
+ */
+
+import {
+  EntityType,
+  RiskCategory,
+  RiskSeverity,
+  ExtractedEntity,
+  DocumentRisk,
+  RejectedLlmItem
+} from '../types';
+
+/**
+ * Risk fields as returned by the model, before an ID and location are assigned
+ */
+export type LlmRisk = Omit<DocumentRisk, 'id' | 'location' | 'clauseId' | 'verified'>;
+
+/**
+ * Entity fields as returned by the model, before a location is assigned
+ */
+export type LlmEntity = Omit<ExtractedEntity, 'location' | 'clauseId' | 'verified'>;
+
+/**
+ * Valid items from a response, plus what was rejected and why
+ */
+export interface ValidationResult<T> {
+  items: T[];
+  rejected: Array<Omit<RejectedLlmItem, 'kind' | 'chunk'>>;
+  error?: string; // Set when the response as a whole is unusable
+}
+
+// Records keyed by each union member, so adding a member without updating these fails to compile
+const ENTITY_TYPE_KEYS: Record<EntityType, true> = {
+  party_name: true,
+  date: true,
+  amount: true,
+  term_duration: true,
+  payment_terms: true,
+  liability_clause: true,
+  termination_clause: true,
+  confidentiality_clause: true,
+  indemnification_clause: true,
+  governing_law: true,
+  signature: true,
+  contact_info: true
+};
+
+const RISK_CATEGORY_KEYS: Record<RiskCategory, true> = {
+  missing_clause: true,
+  unfavorable_terms: true,
+  compliance_issue: true,
+  liability_exposure: true,
+  termination_risk: true,
+  payment_risk: true,
+  legal_ambiguity: true
+};
+
+const RISK_SEVERITY_KEYS: Record<RiskSeverity, true> = {
+  low: true,
+  medium: true,
+  high: true,
+  critical: true
+};
+
+export const ENTITY_TYPES = Object.keys(ENTITY_TYPE_KEYS) as EntityType[];
+export const RISK_CATEGORIES = Object.keys(RISK_CATEGORY_KEYS) as RiskCategory[];
+export const RISK_SEVERITIES = Object.keys(RISK_SEVERITY_KEYS) as RiskSeverity[];
+
+/**
+ * Validate a single entity from a model response
+ */
+export function validateEntity(item: unknown): { entity?: LlmEntity; errors: string[] } {
+  if (!isRecord(item)) {
+    return { errors: ['entity must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { type, value, confidence, evidence } = item;
+
+  if (!ENTITY_TYPES.includes(type as EntityType)) {
+    errors.push(`type must be one of: ${ENTITY_TYPES.join(', ')}`);
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push('value must be a non-empty string');
+  }
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    errors.push('confidence must be a number between 0 and 1');
+  }
+  if (evidence !== undefined && typeof evidence !== 'string') {
+    errors.push('evidence must be a string');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const entity: LlmEntity = {
+    type: type as EntityType,
+    value: (value as string).trim(),
+    confidence: confidence as number
+  };
+  if (typeof evidence === 'string' && evidence.trim()) {
+    entity.evidence = evidence.trim();
+  }
+
+  return { entity, errors };
+}
+
+/**
+ * Validate a single risk from a model response
+ */
+export function validateRisk(item: unknown): { risk?: LlmRisk; errors: string[] } {
+  if (!isRecord(item)) {
+    return { errors: ['risk must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { category, severity, title, description, recommendation, relatedClauses, evidence } = item;
+
+  if (!RISK_CATEGORIES.includes(category as RiskCategory)) {
+    errors.push(`category must be one of: ${RISK_CATEGORIES.join(', ')}`);
+  }
+  if (!RISK_SEVERITIES.includes(severity as RiskSeverity)) {
+    errors.push(`severity must be one of: ${RISK_SEVERITIES.join(', ')}`);
+  }
+  for (const [field, fieldValue] of Object.entries({ title, description, recommendation })) {
+    if (typeof fieldValue !== 'string' || !fieldValue.trim()) {
+      errors.push(`${field} must be a non-empty string`);
+    }
+  }
+  if (relatedClauses !== undefined && (
+    !Array.isArray(relatedClauses) || relatedClauses.some(clause => typeof clause !== 'string')
+  )) {
+    errors.push('relatedClauses must be an array of strings');
+  }
+  if (evidence !== undefined && typeof evidence !== 'string') {
+    errors.push('evidence must be a string');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const risk: LlmRisk = {
+    category: category as RiskCategory,
+    severity: severity as RiskSeverity,
+    title: (title as string).trim(),
+    description: (description as string).trim(),
+    recommendation: (recommendation as string).trim()
+  };
+  if (Array.isArray(relatedClauses) && relatedClauses.length > 0) {
+    risk.relatedClauses = relatedClauses as string[];
+  }
+  if (typeof evidence === 'string' && evidence.trim()) {
+    risk.evidence = evidence.trim();
+  }
+
+  return { risk, errors };
+}
+
+/**
+ * Parse and validate an entity extraction response ({"entities": [...]} or a bare array)
+ */
+export function validateEntityResponse(content: string): ValidationResult<LlmEntity> {
+  const parsed = parseJson(content);
+  if (parsed === undefined) {
+    return { items: [], rejected: [], error: 'Response is not valid JSON' };
+  }
+
+  const list = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.entities : undefined;
+  if (!Array.isArray(list)) {
+    return { items: [], rejected: [], error: 'Response must be an object with an "entities" array' };
+  }
+
+  return collect(list, item => {
+    const { entity, errors } = validateEntity(item);
+    return { value: entity, errors };
+  });
+}
+
+/**
+ * Parse and validate a risk identification response ({"risks": [...]})
+ */
+export function validateRiskResponse(content: string): ValidationResult<LlmRisk> {
+  const parsed = parseJson(content);
+  if (parsed === undefined) {
+    return { items: [], rejected: [], error: 'Response is not valid JSON' };
+  }
+
+  const list = isRecord(parsed) ? parsed.risks : undefined;
+  if (!Array.isArray(list)) {
+    return { items: [], rejected: [], error: 'Response must be an object with a "risks" array' };
+  }
+
+  return collect(list, item => {
+    const { risk, errors } = validateRisk(item);
+    return { value: risk, errors };
+  });
+}
+
+/**
+ * Build a follow-up prompt asking the model to fix the problems in its last response
+ */
+export function buildRepairPrompt<T>(result: ValidationResult<T>): string {
+  const problems = result.error
+    ? [result.error]
+    : result.rejected.map(r => `${JSON.stringify(r.item)}: ${r.errors.join('; ')}`);
+
+  return `Your previous response did not match the required schema:
+${problems.map(problem => `- ${problem}`).join('\n')}
+Return the complete corrected JSON only, using exactly the allowed values. Drop any item you cannot correct.`;
+}
+
+function collect<T>(
+  list: unknown[],
+  validate: (item: unknown) => { value?: T; errors: string[] }
+): ValidationResult<T> {
+  const result: ValidationResult<T> = { items: [], rejected: [] };
+
+  for (const item of list) {
+    const { value, errors } = validate(item);
+    if (value) {
+      result.items.push(value);
+    } else {
+      result.rejected.push({ item, errors });
+    }
+  }
+
+  return result;
+}
+
+function parseJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -6,9 +6,7 @@
 import { Client } from '@hubspot/api-client';
 import { config } from '../config';
 import { OAuthTokens } from '../types';
-
-// In-memory token storage (use Redis/DB in production)
-const tokenStorage = new Map<string, OAuthTokens>();
+import { getRepository } from './repository.service';
 
 /**
  * Generate the OAuth authorization URL
@@ -48,7 +46,7 @@ export async function exchangeCodeForTokens(code: string): Promise<OAuthTokens>
   tokens.portalId = accessTokenInfo.hubId?.toString();
 
   if (tokens.portalId) {
-    tokenStorage.set(tokens.portalId, tokens);
+    await getRepository().tokens.save(tokens.portalId, tokens);
   }
 
   return tokens;
@@ -58,7 +56,7 @@ export async function exchangeCodeForTokens(code: string): Promise<OAuthTokens>
  * Refresh expired tokens
  */
 export async function refreshTokens(portalId: string): Promise<OAuthTokens | null> {
-  const existingTokens = tokenStorage.get(portalId);
+  const existingTokens = await getRepository().tokens.get(portalId);
   if (!existingTokens) {
     return null;
   }
@@ -81,7 +79,7 @@ export async function refreshTokens(portalId: string): Promise<OAuthTokens | nul
     portalId
   };
 
-  tokenStorage.set(portalId, tokens);
+  await getRepository().tokens.save(portalId, tokens);
   return tokens;
 }
 
@@ -89,7 +87,7 @@ export async function refreshTokens(portalId: string): Promise<OAuthTokens | nul
  * Get valid tokens for a portal, refreshing if needed
  */
 export async function getValidTokens(portalId: string): Promise<OAuthTokens | null> {
-  const tokens = tokenStorage.get(portalId);
+  const tokens = await getRepository().tokens.get(portalId);
   if (!tokens) {
     return null;
   }
@@ -111,26 +109,26 @@ export async function getHubSpotClient(portalId: string): Promise<Client | null>
     return null;
   }
 
-  return new Client({ accessToken: tokens.accessToken });
+  return new Client({ accessToken: tokens.accessToken, basePath: config.hubspot.apiBaseUrl });
 }
 
 /**
  * Store tokens (for testing or external storage integration)
  */
-export function storeTokens(portalId: string, tokens: OAuthTokens): void {
-  tokenStorage.set(portalId, tokens);
+export async function storeTokens(portalId: string, tokens: OAuthTokens): Promise<void> {
+  await getRepository().tokens.save(portalId, tokens);
 }
 
 /**
  * Check if a portal is authenticated
  */
-export function isAuthenticated(portalId: string): boolean {
-  return tokenStorage.has(portalId);
+export async function isAuthenticated(portalId: string): Promise<boolean> {
+  return (await getRepository().tokens.get(portalId)) !== undefined;
 }
 
 /**
  * Remove tokens (logout)
  */
-export function removeTokens(portalId: string): boolean {
-  return tokenStorage.delete(portalId);
+export async function removeTokens(portalId: string): Promise<boolean> {
+  return getRepository().tokens.delete(portalId);
 }
@@ -0,0 +1,101 @@
+/**
+ * Page Layout Service
+ * Maps character offsets in extracted text to pages and OCR blocks
+ */
+
+import { DocumentPage, TextLocation } from '../types';
+
+/**
+ * Page boundary marker emitted after each page ("-- 2 of 5 --")
+ */
+const PAGE_MARKER_PATTERN = /^-- (\d+) of \d+ --$/gm;
+
+/**
+ * Longest snippet searched for when locating model output in the text
+ */
+const MAX_SNIPPET_LENGTH = 300;
+
+/**
+ * Build page character ranges from the page markers in extracted text
+ */
+export function buildPageLayout(text: string): DocumentPage[] {
+  const pages: DocumentPage[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(PAGE_MARKER_PATTERN)) {
+    pages.push({ page: parseInt(match[1], 10), start, end: match.index! });
+    start = match.index! + match[0].length;
+  }
+
+  if (pages.length === 0) {
+    return [{ page: 1, start: 0, end: text.length }];
+  }
+
+  // Anything after the final marker still belongs to the last page
+  if (text.slice(start).trim()) {
+    pages[pages.length - 1].end = text.length;
+  }
+
+  return pages;
+}
+
+/**
+ * Remove page markers from extracted text
+ */
+export function stripPageMarkers(text: string): string {
+  return text.replace(PAGE_MARKER_PATTERN, '');
+}
+
+/**
+ * Resolve a character range to its page and, for OCR'd text, its block
+ */
+export function locateRange(
+  layout: DocumentPage[] | undefined,
+  start: number,
+  end: number
+): TextLocation {
+  const location: TextLocation = { start, end };
+  if (!layout || layout.length === 0) {
+    return location;
+  }
+
+  // Offsets inside a marker gap belong to the following page
+  const page = layout.find(p => start < p.end) || layout[layout.length - 1];
+  location.page = page.page;
+
+  const block = page.blocks?.find(b => start >= b.start && start < b.end);
+  if (block) {
+    location.bbox = block.bbox;
+  }
+
+  return location;
+}
+
+/**
+ * Locate the first occurrence of a snippet, ignoring case and whitespace differences
+ */
+export function findTextLocation(
+  text: string,
+  layout: DocumentPage[] | undefined,
+  snippet: string
+): TextLocation | undefined {
+  const trimmed = snippet.trim().substring(0, MAX_SNIPPET_LENGTH);
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const pattern = new RegExp(
+    trimmed
+      .split(/\s+/)
+      .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('\\s+'),
+    'i'
+  );
+
+  const match = pattern.exec(text);
+  if (!match) {
+    return undefined;
+  }
+
+  return locateRange(layout, match.index, match.index + match[0].length);
+}
@@ -0,0 +1,338 @@
+/**
+ * Page Rendering Service
+ * Server-rendered HTML pages opened from the CRM card in HubSpot iframes
+ */
+
+import { DocumentAnalysis, DocumentRisk, ExtractedEntity, ScoringPolicy, TextLocation } from '../types';
+import { explainRiskScore, getRiskScoreColor, getRiskSeverityLabel } from './scoring-engine.service';
+import { DEFAULT_SCORING_POLICY } from './scoring-policy.service';
+import { formatDocumentType } from './crm-card.service';
+import { escapeHtml, formatDate } from '../utils';
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #33475b; margin: 0; padding: 16px 24px; font-size: 14px; line-height: 1.5; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; border-bottom: 1px solid #cbd6e2; padding-bottom: 4px; }
+  .muted { color: #7c98b6; }
+  .grade { display: inline-block; color: #fff; font-weight: bold; border-radius: 4px; padding: 2px 10px; font-size: 18px; }
+  ${(['A', 'B', 'C', 'D', 'F'] as const).map(grade => `.grade-${grade} { background: ${getRiskScoreColor(grade)}; }`).join('\n  ')}
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eaf0f6; vertical-align: top; }
+  .finding { border: 1px solid #cbd6e2; border-radius: 4px; padding: 8px 12px; margin-bottom: 8px; }
+  .finding.set-aside { opacity: 0.6; }
+  .severity-critical, .severity-high { color: #de350b; }
+  .severity-medium { color: #b06d00; }
+  blockquote { margin: 6px 0; padding: 4px 10px; border-left: 3px solid #cbd6e2; color: #516f90; }
+  progress { width: 100%; height: 12px; }
+  .error { color: #de350b; }
+  button { background: #ff7a59; color: #fff; border: 0; border-radius: 3px; padding: 8px 16px; font-size: 14px; cursor: pointer; }
+  button:disabled { opacity: 0.5; cursor: default; }
+  textarea { width: 100%; box-sizing: border-box; font: inherit; }
+`;
+
+/**
+ * Full analysis of a document: summary, score and why, findings and extracted entities
+ */
+export function renderDetailsPage(
+  analysis: DocumentAnalysis,
+  nonce: string,
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): string {
+  const { riskScore } = analysis;
+  const explanation = explainRiskScore(analysis, policy);
+  const breakdown: Array<[string, number]> = [
+    ['Missing Clauses', riskScore.breakdown.missingClauses],
+    ['Unfavorable Terms', riskScore.breakdown.unfavorableTerms],
+    ['Compliance Issues', riskScore.breakdown.complianceIssues],
+    ['Liability Exposure', riskScore.breakdown.liabilityExposure]
+  ];
+
+  const body = `
+    <h1>${escapeHtml(analysis.filename)}</h1>
+    <div class="muted">
+      ${escapeHtml(formatDocumentType(analysis.documentType))}${analysis.version ? ` &middot; Version ${analysis.version}` : ''}
+      &middot; Analyzed ${escapeHtml(formatDate(analysis.analyzedAt))}
+    </div>
+
+    <h2>Risk Score</h2>
+    <p>
+      <span class="grade grade-${riskScore.grade}">${riskScore.grade}</span>
+      Risk score ${riskScore.overall}/100${riskScore.trend ? ` &middot; ${riskScore.trend}` : ''}
+    </p>
+    <table>
+      ${breakdown.map(([label, value]) => `<tr><th>${label}</th><td>${value}/25</td></tr>`).join('')}
+    </table>
+
+    <h2>Why is this a ${riskScore.grade}?</h2>
+    <p>${escapeHtml(explanation.summary)}</p>
+    ${explanation.reasons.length > 0 ? `
+      <table>
+        ${explanation.reasons.map(reason => `
+          <tr><td>${escapeHtml(reason.text)}</td><td>+${reason.points}</td></tr>`).join('')}
+      </table>` : ''}
+
+    <h2>Summary</h2>
+    <p>${escapeHtml(analysis.summary)}</p>
+
+    <h2>Risks (${analysis.risks.length})</h2>
+    ${analysis.risks.length > 0 ? analysis.risks.map(renderRisk).join('') : '<p class="muted">No risks identified.</p>'}
+
+    <h2>Missing Terms (${analysis.missingTerms.length})</h2>
+    ${analysis.missingTerms.length > 0 ? `
+      <table>
+        <tr><th>Term</th><th>Importance</th><th>Impact</th></tr>
+        ${analysis.missingTerms.map(term => `
+          <tr>
+            <td>${escapeHtml(term.term)}</td>
+            <td>${escapeHtml(term.importance)}</td>
+            <td>${escapeHtml(term.impact)}</td>
+          </tr>`).join('')}
+      </table>` : '<p class="muted">No missing terms.</p>'}
+
+    <h2>Deal Blockers (${analysis.blockers.length})</h2>
+    ${analysis.blockers.length > 0 ? analysis.blockers.map(blocker => `
+      <div class="finding${blocker.resolved ? ' set-aside' : ''}">
+        <strong>${escapeHtml(blocker.title)}</strong>
+        ${blocker.resolved ? `<span class="muted">Resolved by ${escapeHtml(blocker.resolved.by)}</span>` : ''}
+        <div>${escapeHtml(blocker.description)}</div>
+        <div><em>Required action:</em> ${escapeHtml(blocker.requiredAction)}</div>
+      </div>`).join('') : '<p class="muted">No blockers.</p>'}
+
+    <h2>Entities (${analysis.entities.length})</h2>
+    ${analysis.entities.length > 0 ? `
+      <table>
+        <tr><th>Type</th><th>Value</th><th>Source</th></tr>
+        ${analysis.entities.map(renderEntity).join('')}
+      </table>` : '<p class="muted">No entities extracted.</p>'}
+  `;
+
+  return renderPage(`${analysis.filename} - Document Intelligence`, body, nonce);
+}
+
+/**
+ * Upload form that sends a document for analysis against a deal and follows the job until it finishes
+ */
+export function renderUploadPage(portalId: string, dealId: string, nonce: string): string {
+  const body = `
+    <h1>Upload Document</h1>
+    <p class="muted">PDF, Word or image files up to 10MB. The analysis is attached to this deal.</p>
+    <form id="upload-form">
+      <p><input type="file" id="document" name="document" accept=".pdf,.doc,.docx,.png,.jpg,.jpeg,.tif,.tiff" required></p>
+      <p><button type="submit" id="submit">Analyze</button></p>
+    </form>
+    <div id="progress" hidden>
+      <p id="status"></p>
+      <progress id="bar" max="100" value="0"></progress>
+    </div>
+    <p id="result"></p>
+
+    <script nonce="${nonce}">
+      (function () {
+        var portalId = ${scriptString(portalId)};
+        var dealId = ${scriptString(dealId)};
+        var stages = {
+          queued: ['Waiting to start', 10],
+          ingesting: ['Reading the document', 25],
+          extracting: ['Extracting terms and risks', 50],
+          scoring: ['Scoring', 80]
+        };
+        var form = document.getElementById('upload-form');
+        var status = document.getElementById('status');
+        var bar = document.getElementById('bar');
+        var result = document.getElementById('result');
+
+        function show(text, value) {
+          status.textContent = text;
+          bar.value = value;
+        }
+
+        function fail(message) {
+          result.className = 'error';
+          result.textContent = message;
+          document.getElementById('submit').disabled = false;
+        }
+
+        function poll(statusUrl) {
+          fetch(statusUrl, { headers: { 'x-hubspot-portal-id': portalId } })
+            .then(function (response) { return response.json(); })
+            .then(function (body) {
+              var job = body.data;
+              if (!body.success) return fail(body.error.message);
+              if (job.status === 'completed') {
+                show('Analysis complete', 100);
+                var link = document.createElement('a');
+                link.href = 'documents/' + encodeURIComponent(job.documentId) + '/details?portalId=' + encodeURIComponent(portalId);
+                link.textContent = 'View the full analysis (grade ' + job.result.riskScore.grade + ')';
+                result.className = '';
+                result.replaceChildren(link);
+                return;
+              }
+              if (job.status === 'failed') return fail('Analysis failed: ' + (job.error || 'unknown error'));
+              var stage = stages[job.status === 'running' ? job.stage || 'queued' : 'queued'];
+              show(stage[0] + '...', stage[1]);
+              setTimeout(function () { poll(statusUrl); }, 1500);
+            })
+            .catch(function () { fail('Lost connection while waiting for the analysis'); });
+        }
+
+        form.addEventListener('submit', function (event) {
+          event.preventDefault();
+          var file = document.getElementById('document').files[0];
+          if (!file) return;
+
+          var data = new FormData();
+          data.append('dealId', dealId);
+          data.append('document', file);
+
+          var request = new XMLHttpRequest();
+          request.open('POST', 'api/documents/upload');
+          request.setRequestHeader('x-hubspot-portal-id', portalId);
+          request.upload.onprogress = function (e) {
+            if (e.lengthComputable) show('Uploading ' + Math.round(e.loaded / e.total * 100) + '%', Math.round(e.loaded / e.total * 10));
+          };
+          request.onload = function () {
+            var body = {};
+            try { body = JSON.parse(request.responseText); } catch (e) { /* not JSON */ }
+            if (request.status !== 202 || !body.success) {
+              return fail((body.error && body.error.message) || 'Upload failed (HTTP ' + request.status + ')');
+            }
+            poll(body.data.statusUrl.replace(/^\\//, ''));
+          };
+          request.onerror = function () { fail('Upload failed'); };
+
+          document.getElementById('submit').disabled = true;
+          document.getElementById('progress').hidden = false;
+          result.textContent = '';
+          show('Uploading...', 0);
+          request.send(data);
+        });
+      })();
+    </script>
+  `;
+
+  return renderPage('Upload Document - Document Intelligence', body, nonce);
+}
+
+/**
+ * Form that dismisses a risk with the reason the user gives. The page posts the grant
+ * its link was signed with, which names the user who dismissed it.
+ */
+export function renderDismissRiskPage(
+  portalId: string,
+  analysis: DocumentAnalysis,
+  risk: DocumentRisk,
+  grant: { token: string; user: string },
+  nonce: string
+): string {
+  if (risk.dismissed) {
+    return renderPage('Risk Dismissed - Document Intelligence', `
+      <h1>Risk Already Dismissed</h1>
+      ${renderRisk(risk)}
+    `, nonce);
+  }
+
+  const body = `
+    <h1>Dismiss Risk</h1>
+    <p class="muted">${escapeHtml(analysis.filename)}</p>
+    ${renderRisk(risk)}
+    <form id="dismiss-form">
+      <p>
+        <label for="reason">Why does this risk not apply?</label>
+        <textarea id="reason" name="reason" rows="3" maxlength="500" required></textarea>
+      </p>
+      <p class="muted">It will no longer count toward the risk score, including after re-analysis.
+        Dismissing as ${escapeHtml(grant.user)}.</p>
+      <p><button type="submit" id="submit">Dismiss</button></p>
+    </form>
+    <p id="result"></p>
+
+    <script nonce="${nonce}">
+      (function () {
+        var portalId = ${scriptString(portalId)};
+        var grant = ${scriptString(grant.token)};
+        var url = ${scriptString(`../../api/documents/${encodeURIComponent(analysis.documentId)}/risks/${encodeURIComponent(risk.id)}/dismiss`)};
+        var form = document.getElementById('dismiss-form');
+        var result = document.getElementById('result');
+
+        form.addEventListener('submit', function (event) {
+          event.preventDefault();
+          document.getElementById('submit').disabled = true;
+
+          fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'x-hubspot-portal-id': portalId },
+            body: JSON.stringify({ reason: document.getElementById('reason').value, grant: grant })
+          })
+            .then(function (response) { return response.json(); })
+            .then(function (body) {
+              if (!body.success) throw new Error(body.error.message);
+              form.hidden = true;
+              result.className = '';
+              result.textContent = 'Dismissed. The document is now graded ' + body.data.riskScore.grade +
+                ' (risk score ' + body.data.riskScore.overall + '). Close this window and refresh the card.';
+            })
+            .catch(function (error) {
+              result.className = 'error';
+              result.textContent = error.message || 'Dismissing the risk failed';
+              document.getElementById('submit').disabled = false;
+            });
+        });
+      })();
+    </script>
+  `;
+
+  return renderPage('Dismiss Risk - Document Intelligence', body, nonce);
+}
+
+/**
+ * A page explaining why the requested page cannot be shown
+ */
+export function renderErrorPage(title: string, message: string, nonce: string): string {
+  return renderPage(title, `<h1>${escapeHtml(title)}</h1><p>${escapeHtml(message)}</p>`, nonce);
+}
+
+function renderPage(title: string, body: string, nonce: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style nonce="${nonce}">${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function renderRisk(risk: DocumentRisk): string {
+  return `
+    <div class="finding${risk.dismissed ? ' set-aside' : ''}">
+      <strong class="severity-${risk.severity}">${escapeHtml(getRiskSeverityLabel(risk.severity))}:</strong>
+      <strong>${escapeHtml(risk.title)}</strong>
+      ${risk.dismissed ? `<span class="muted">Dismissed by ${escapeHtml(risk.dismissed.by)}${risk.dismissed.reason ? `: ${escapeHtml(risk.dismissed.reason)}` : ''}</span>` : ''}
+      <div>${escapeHtml(risk.description)}</div>
+      ${risk.evidence ? `<blockquote>&ldquo;${escapeHtml(risk.evidence)}&rdquo;${renderLocation(risk.location)}</blockquote>` : ''}
+      ${risk.verified === false ? '<div class="muted">The quoted evidence was not found in the document.</div>' : ''}
+      <div><em>Recommendation:</em> ${escapeHtml(risk.recommendation)}</div>
+    </div>`;
+}
+
+function renderEntity(entity: ExtractedEntity): string {
+  return `
+    <tr>
+      <td>${escapeHtml(entity.type.replace(/_/g, ' '))}</td>
+      <td>${escapeHtml(entity.value)}</td>
+      <td>${entity.evidence ? `&ldquo;${escapeHtml(entity.evidence)}&rdquo;${renderLocation(entity.location)}` : ''}</td>
+    </tr>`;
+}
+
+function renderLocation(location?: TextLocation): string {
+  return location?.page ? ` <span class="muted">(page ${location.page})</span>` : '';
+}
+
+// A string literal safe to embed in an inline script
+function scriptString(value: string): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,221 @@
+/**
+ * Redline Service
+ * Compares two analyses of a document clause by clause, with the risks and score that changed
+ */
+
+import {
+  DocumentAnalysis,
+  DocumentClause,
+  DocumentComparison,
+  ClauseReference,
+  ComparedVersion,
+  ModifiedClause,
+  TextDiffSegment
+} from '../types';
+import { getClauseBody } from './clause-segmentation.service';
+import { riskDifference } from './document-versioning.service';
+
+/**
+ * Minimum word overlap for a renumbered and retitled clause to count as modified rather than replaced
+ */
+export const CLAUSE_SIMILARITY_THRESHOLD = 0.5;
+
+// Word diffs of longer clause pairs fall back to replacing the whole text
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Compare a base analysis with a revised one
+ */
+export function compareAnalyses(base: DocumentAnalysis, revised: DocumentAnalysis): DocumentComparison {
+  const { pairs, added, removed } = matchClauses(base.clauses || [], revised.clauses || []);
+
+  const modified: ModifiedClause[] = pairs
+    .filter(([baseClause, revisedClause]) => !sameWording(baseClause, revisedClause))
+    .map(([baseClause, revisedClause]) => ({
+      base: toReference(baseClause),
+      revised: toReference(revisedClause),
+      diff: diffWords(baseClause.text, revisedClause.text)
+    }));
+
+  const breakdown = base.riskScore.breakdown;
+  const revisedBreakdown = revised.riskScore.breakdown;
+
+  const comparison: DocumentComparison = {
+    base: toComparedVersion(base),
+    revised: toComparedVersion(revised),
+    clauses: {
+      added: added.map(toReference),
+      removed: removed.map(toReference),
+      modified,
+      unchangedCount: pairs.length - modified.length
+    },
+    risks: {
+      introduced: riskDifference(revised.risks, base.risks),
+      resolved: riskDifference(base.risks, revised.risks)
+    },
+    score: {
+      base: base.riskScore.overall,
+      revised: revised.riskScore.overall,
+      delta: revised.riskScore.overall - base.riskScore.overall,
+      breakdownDelta: {
+        missingClauses: revisedBreakdown.missingClauses - breakdown.missingClauses,
+        unfavorableTerms: revisedBreakdown.unfavorableTerms - breakdown.unfavorableTerms,
+        complianceIssues: revisedBreakdown.complianceIssues - breakdown.complianceIssues,
+        liabilityExposure: revisedBreakdown.liabilityExposure - breakdown.liabilityExposure
+      }
+    }
+  };
+
+  if (base.riskScore.grade !== revised.riskScore.grade) {
+    comparison.score.gradeChange = { from: base.riskScore.grade, to: revised.riskScore.grade };
+  }
+
+  return comparison;
+}
+
+/**
+ * Pair up clauses across two versions.
+ * Passes run from strongest to weakest evidence: identical wording (even if renumbered),
+ * the same clause ID (number or heading), the same heading, then similar wording.
+ */
+export function matchClauses(
+  baseClauses: DocumentClause[],
+  revisedClauses: DocumentClause[]
+): { pairs: Array<[DocumentClause, DocumentClause]>; added: DocumentClause[]; removed: DocumentClause[] } {
+  const unmatchedBase = [...baseClauses];
+  const unmatchedRevised = [...revisedClauses];
+  const pairs: Array<[DocumentClause, DocumentClause]> = [];
+
+  const matchBy = (isMatch: (a: DocumentClause, b: DocumentClause) => boolean) => {
+    for (const revisedClause of [...unmatchedRevised]) {
+      const index = unmatchedBase.findIndex(baseClause => isMatch(baseClause, revisedClause));
+      if (index !== -1) {
+        pairs.push([unmatchedBase[index], revisedClause]);
+        unmatchedBase.splice(index, 1);
+        unmatchedRevised.splice(unmatchedRevised.indexOf(revisedClause), 1);
+      }
+    }
+  };
+
+  matchBy((a, b) => Boolean(normalize(getClauseBody(a))) && sameWording(a, b));
+  matchBy((a, b) => a.id === b.id);
+  matchBy((a, b) => Boolean(a.heading) && normalize(a.heading!) === normalize(b.heading || ''));
+
+  for (const revisedClause of [...unmatchedRevised]) {
+    let best: { index: number; similarity: number } | undefined;
+    unmatchedBase.forEach((baseClause, index) => {
+      const similarity = wordSimilarity(getClauseBody(baseClause), getClauseBody(revisedClause));
+      if (similarity >= CLAUSE_SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { index, similarity };
+      }
+    });
+    if (best) {
+      pairs.push([unmatchedBase[best.index], revisedClause]);
+      unmatchedBase.splice(best.index, 1);
+      unmatchedRevised.splice(unmatchedRevised.indexOf(revisedClause), 1);
+    }
+  }
+
+  // Report in the revised document's order
+  const order = new Map(revisedClauses.map((clause, index) => [clause, index]));
+  pairs.sort((a, b) => order.get(a[1])! - order.get(b[1])!);
+
+  return { pairs, added: unmatchedRevised, removed: unmatchedBase };
+}
+
+/**
+ * Word-level diff of two texts, merged into runs
+ */
+export function diffWords(before: string, after: string): TextDiffSegment[] {
+  const a = before.match(/\S+/g) || [];
+  const b = after.match(/\S+/g) || [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return mergeSegments([
+      ...a.map(text => ({ type: 'delete' as const, text })),
+      ...b.map(text => ({ type: 'insert' as const, text }))
+    ]);
+  }
+
+  // Longest common subsequence lengths of the suffixes a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      segments.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      segments.push({ type: 'delete', text: a[i++] });
+    } else {
+      segments.push({ type: 'insert', text: b[j++] });
+    }
+  }
+  while (i < a.length) segments.push({ type: 'delete', text: a[i++] });
+  while (j < b.length) segments.push({ type: 'insert', text: b[j++] });
+
+  return mergeSegments(segments);
+}
+
+function mergeSegments(segments: TextDiffSegment[]): TextDiffSegment[] {
+  const merged: TextDiffSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.text += ` ${segment.text}`;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+// Renumbering alone does not change a clause
+function sameWording(a: DocumentClause, b: DocumentClause): boolean {
+  return normalize(getClauseBody(a)) === normalize(getClauseBody(b)) &&
+    normalize(a.heading || '') === normalize(b.heading || '');
+}
+
+function wordSimilarity(a: string, b: string): number {
+  const first = new Set(normalize(a).match(/[a-z0-9]+/g) || []);
+  const second = new Set(normalize(b).match(/[a-z0-9]+/g) || []);
+  if (first.size === 0 || second.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const word of first) {
+    if (second.has(word)) {
+      shared++;
+    }
+  }
+  return shared / (first.size + second.size - shared);
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function toReference(clause: DocumentClause): ClauseReference {
+  return { id: clause.id, number: clause.number, heading: clause.heading, text: clause.text };
+}
+
+function toComparedVersion(analysis: DocumentAnalysis): ComparedVersion {
+  return {
+    documentId: analysis.documentId,
+    version: analysis.version || 1,
+    filename: analysis.filename,
+    analyzedAt: analysis.analyzedAt
+  };
+}
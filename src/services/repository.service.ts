@@ -0,0 +1,292 @@
+/**
+ * Repository Service
+ * Storage for analyses, deal associations, portal tokens, analysis jobs, action tasks, scoring policies,
+ * LLM settings and app settings, with a JSON file-backed implementation and an in-memory one for tests
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import {
+  ActionTaskLink,
+  AnalysisJob,
+  AppSettings,
+  DocumentAnalysis,
+  LlmSettings,
+  OAuthTokens,
+  Repository,
+  ScoringPolicy
+} from '../types';
+
+/**
+ * Everything a repository holds, as persisted to disk
+ */
+interface StoreState {
+  analyses: Record<string, Record<string, DocumentAnalysis>>; // portalId -> documentId -> analysis
+  versions: Record<string, Record<string, DocumentAnalysis[]>>; // portalId -> documentId -> prior analyses
+  deals: Record<string, Record<string, string[]>>; // portalId -> dealId -> documentIds
+  tokens: Record<string, OAuthTokens>;
+  jobs: Record<string, AnalysisJob>;
+  tasks: Record<string, Record<string, ActionTaskLink>>; // portalId -> taskId -> action
+  policies: Record<string, { active?: number; versions: ScoringPolicy[] }>; // portalId -> policy history
+  llmSettings: Record<string, LlmSettings>;
+  appSettings: AppSettings;
+}
+
+let repository: Repository | null = null;
+
+/**
+ * Create a repository that keeps everything in memory
+ */
+export function createInMemoryRepository(): Repository {
+  return createStateRepository(emptyState(), async () => undefined);
+}
+
+/**
+ * Create a repository persisted to a JSON file.
+ * State is loaded once, and every change is written through with an atomic rename.
+ */
+export function createFileRepository(filePath: string): Repository {
+  const state = loadState(filePath);
+  let writeChain: Promise<void> = Promise.resolve();
+
+  const persist = (): Promise<void> => {
+    const snapshot = JSON.stringify(state);
+    // A failed write should not block later ones
+    writeChain = writeChain.catch(() => undefined).then(async () => {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, snapshot, 'utf-8');
+      await fs.promises.rename(tempPath, filePath);
+    });
+    return writeChain;
+  };
+
+  return createStateRepository(state, persist);
+}
+
+/**
+ * Get the application repository, created from configuration on first use
+ */
+export function getRepository(): Repository {
+  if (!repository) {
+    repository = config.storage.driver === 'memory'
+      ? createInMemoryRepository()
+      : createFileRepository(config.storage.path);
+  }
+  return repository;
+}
+
+/**
+ * Load a portal's stored analyses associated with a deal
+ */
+export async function getDealAnalyses(portalId: string, dealId: string): Promise<DocumentAnalysis[]> {
+  const { analyses, deals } = getRepository();
+  const documentIds = await deals.listDocumentIds(portalId, dealId);
+  const found = await Promise.all(documentIds.map(id => analyses.get(portalId, id)));
+  return found.filter((doc): doc is DocumentAnalysis => doc !== undefined);
+}
+
+/**
+ * Replace the application repository (for tests or external storage)
+ */
+export function setRepository(replacement: Repository | null): void {
+  repository = replacement;
+}
+
+function createStateRepository(state: StoreState, persist: () => Promise<void>): Repository {
+  return {
+    analyses: {
+      async get(portalId, documentId) {
+        const analysis = state.analyses[portalId]?.[documentId];
+        return analysis ? structuredClone(analysis) : undefined;
+      },
+      async save(portalId, analysis) {
+        state.analyses[portalId] = state.analyses[portalId] || {};
+        state.analyses[portalId][analysis.documentId] = structuredClone({ ...analysis, portalId });
+        await persist();
+      },
+      async delete(portalId, documentId) {
+        const portalAnalyses = state.analyses[portalId];
+        if (!portalAnalyses || !(documentId in portalAnalyses)) {
+          return false;
+        }
+        delete portalAnalyses[documentId];
+        delete state.versions[portalId]?.[documentId];
+        await persist();
+        return true;
+      },
+      async archive(portalId, analysis) {
+        state.versions[portalId] = state.versions[portalId] || {};
+        const versions = state.versions[portalId][analysis.documentId] || [];
+        state.versions[portalId][analysis.documentId] = [...versions, structuredClone({ ...analysis, portalId })];
+        await persist();
+      },
+      async listVersions(portalId, documentId) {
+        return structuredClone(state.versions[portalId]?.[documentId] || []);
+      },
+      async isBlobReferenced(blobHash) {
+        const current = Object.values(state.analyses).flatMap(portalAnalyses => Object.values(portalAnalyses));
+        const archived = Object.values(state.versions).flatMap(portalVersions => Object.values(portalVersions).flat());
+        return [...current, ...archived].some(analysis => analysis.blobHash === blobHash);
+      }
+    },
+
+    deals: {
+      async listDocumentIds(portalId, dealId) {
+        return [...(state.deals[portalId]?.[dealId] || [])];
+      },
+      async listDealIds(portalId, documentId) {
+        return Object.entries(state.deals[portalId] || {})
+          .filter(([, documentIds]) => documentIds.includes(documentId))
+          .map(([dealId]) => dealId);
+      },
+      async add(portalId, dealId, documentId) {
+        state.deals[portalId] = state.deals[portalId] || {};
+        const documentIds = state.deals[portalId][dealId] || [];
+        if (!documentIds.includes(documentId)) {
+          state.deals[portalId][dealId] = [...documentIds, documentId];
+          await persist();
+        }
+      },
+      async removeDocument(portalId, documentId) {
+        const portalDeals = state.deals[portalId] || {};
+        let changed = false;
+        for (const [dealId, documentIds] of Object.entries(portalDeals)) {
+          if (documentIds.includes(documentId)) {
+            portalDeals[dealId] = documentIds.filter(id => id !== documentId);
+            changed = true;
+          }
+        }
+        if (changed) {
+          await persist();
+        }
+      }
+    },
+
+    tokens: {
+      async get(portalId) {
+        const tokens = state.tokens[portalId];
+        return tokens ? { ...tokens } : undefined;
+      },
+      async save(portalId, tokens) {
+        state.tokens[portalId] = { ...tokens };
+        await persist();
+      },
+      async delete(portalId) {
+        if (!(portalId in state.tokens)) {
+          return false;
+        }
+        delete state.tokens[portalId];
+        await persist();
+        return true;
+      }
+    },
+
+    jobs: {
+      async get(portalId, jobId) {
+        const job = state.jobs[jobId];
+        return job && job.portalId === portalId ? { ...job } : undefined;
+      },
+      async save(job) {
+        state.jobs[job.id] = { ...job };
+        await persist();
+      },
+      async listUnfinished() {
+        return Object.values(state.jobs)
+          .filter(job => job.status === 'queued' || job.status === 'running')
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+          .map(job => ({ ...job }));
+      }
+    },
+
+    tasks: {
+      async get(portalId, taskId) {
+        const link = state.tasks[portalId]?.[taskId];
+        return link ? { ...link } : undefined;
+      },
+      async save(portalId, link) {
+        state.tasks[portalId] = state.tasks[portalId] || {};
+        state.tasks[portalId][link.taskId] = { ...link };
+        await persist();
+      }
+    },
+
+    policies: {
+      async getActive(portalId) {
+        const history = state.policies[portalId];
+        const policy = history?.versions.find(p => p.version === history.active);
+        return policy ? structuredClone(policy) : undefined;
+      },
+      async getVersion(portalId, version) {
+        const policy = state.policies[portalId]?.versions.find(p => p.version === version);
+        return policy ? structuredClone(policy) : undefined;
+      },
+      async listVersions(portalId) {
+        return structuredClone(state.policies[portalId]?.versions || []);
+      },
+      async save(portalId, policy) {
+        const history = state.policies[portalId] || { versions: [] };
+        state.policies[portalId] = {
+          active: policy.version,
+          versions: [...history.versions.filter(p => p.version !== policy.version), structuredClone(policy)]
+        };
+        await persist();
+      },
+      async deactivate(portalId) {
+        const history = state.policies[portalId];
+        if (history?.active === undefined) {
+          return false;
+        }
+        delete history.active;
+        await persist();
+        return true;
+      }
+    },
+
+    llmSettings: {
+      async get(portalId) {
+        const settings = state.llmSettings[portalId];
+        return settings ? { ...settings } : undefined;
+      },
+      async save(portalId, settings) {
+        state.llmSettings[portalId] = { ...settings };
+        await persist();
+      },
+      async delete(portalId) {
+        if (!(portalId in state.llmSettings)) {
+          return false;
+        }
+        delete state.llmSettings[portalId];
+        await persist();
+        return true;
+      }
+    },
+
+    appSettings: {
+      async get() {
+        return { ...state.appSettings };
+      },
+      async save(settings) {
+        state.appSettings = { ...settings };
+        await persist();
+      }
+    }
+  };
+}
+
+function loadState(filePath: string): StoreState {
+  if (!fs.existsSync(filePath)) {
+    return emptyState();
+  }
+
+  try {
+    return { ...emptyState(), ...JSON.parse(fs.readFileSync(filePath, 'utf-8')) };
+  } catch (error) {
+    throw new Error(`Invalid store file ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+function emptyState(): StoreState {
+  return { analyses: {}, versions: {}, deals: {}, tokens: {}, jobs: {}, tasks: {}, policies: {}, llmSettings: {}, appSettings: {} };
+}
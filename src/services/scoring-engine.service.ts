@@ -13,7 +13,16 @@ import {
   RiskGrade,
   RequiredAction,
   ExtractedEntity,
-  DocumentType
+  DocumentType,
+  RejectedLlmItem,
+  AnalysisStage,
+  ScoringPolicy,
+  ScoreContribution,
+  ScoreExplanation,
+  RiskCategory,
+  DealRiskScore,
+  DealDocumentScore,
+  ExpectedDocument
 } from '../types';
 import {
   extractEntities,
@@ -26,39 +35,84 @@ import {
   ingestDocument,
   detectDocumentType
 } from './document-ingestion.service';
+import { segmentClauses, assignClauseIds } from './clause-segmentation.service';
+import { getPortalLlmProvider, trackUsage } from './llm-provider.service';
+import { normalizeEntities, extractKeyTerms } from './entity-normalization.service';
+import { filenameLineage } from './document-versioning.service';
+import { DEFAULT_SCORING_POLICY, getScoringPolicy } from './scoring-policy.service';
 
 /**
- * Weight factors for different risk categories
+ * Weight of risks whose evidence could not be verified in the document
  */
-const RISK_WEIGHTS = {
-  missing_clause: 15,
-  unfavorable_terms: 20,
-  compliance_issue: 25,
-  liability_exposure: 30,
-  termination_risk: 15,
-  payment_risk: 20,
-  legal_ambiguity: 10
+const UNVERIFIED_RISK_WEIGHT = 0.5;
+
+/**
+ * How much each document type counts toward its deal's score
+ */
+export const DOCUMENT_TYPE_WEIGHTS: Record<DocumentType, number> = {
+  msa: 1,
+  contract: 1,
+  agreement: 1,
+  sow: 0.8,
+  proposal: 0.5,
+  unknown: 0.4,
+  nda: 0.3,
+  invoice: 0.2
 };
 
 /**
- * Severity multipliers
+ * Documents count half as much for every this many days they predate the deal's newest document
+ */
+export const RECENCY_HALF_LIFE_DAYS = 180;
+
+// Floor so an old but still binding agreement keeps counting
+const MIN_RECENCY_WEIGHT = 0.25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONTRACT_TYPES: DocumentType[] = ['msa', 'contract', 'agreement'];
+
+/**
+ * Documents a deal is expected to have at each stage of HubSpot's default sales pipeline
  */
-const SEVERITY_MULTIPLIERS = {
-  low: 0.25,
-  medium: 0.5,
-  high: 0.75,
-  critical: 1.0
+export const EXPECTED_DOCUMENTS_BY_STAGE: Record<string, ExpectedDocument[]> = {
+  decisionmakerboughtin: [
+    { label: 'Proposal', types: ['proposal'], signed: false }
+  ],
+  contractsent: [
+    { label: 'Contract', types: CONTRACT_TYPES, signed: false }
+  ],
+  closedwon: [
+    { label: 'Signed contract', types: CONTRACT_TYPES, signed: true },
+    { label: 'Signed SOW', types: ['sow'], signed: true }
+  ]
 };
 
 /**
- * Calculate the overall risk score from identified risks
+ * Breakdown bucket each risk category's points are reported under
+ */
+const BREAKDOWN_BUCKETS: Record<RiskCategory, keyof RiskScore['breakdown']> = {
+  missing_clause: 'missingClauses',
+  unfavorable_terms: 'unfavorableTerms',
+  termination_risk: 'unfavorableTerms',
+  payment_risk: 'unfavorableTerms',
+  compliance_issue: 'complianceIssues',
+  legal_ambiguity: 'complianceIssues',
+  liability_exposure: 'liabilityExposure'
+};
+
+/**
+ * Calculate the overall risk score from identified risks with a scoring policy,
+ * itemizing what every finding contributes.
+ * Dismissed risks and resolved blockers are listed but add no points.
  */
 export function calculateRiskScore(
   risks: DocumentRisk[],
   missingTerms: MissingTerm[],
-  blockers: DealBlocker[]
+  blockers: DealBlocker[],
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
 ): RiskScore {
-  let totalScore = 0;
+  const contributions: ScoreContribution[] = [];
   const breakdown = {
     missingClauses: 0,
     unfavorableTerms: 0,
@@ -66,45 +120,59 @@ export function calculateRiskScore(
     liabilityExposure: 0
   };
 
-  // Calculate risk-based scores
   for (const risk of risks) {
-    const weight = RISK_WEIGHTS[risk.category] || 10;
-    const multiplier = SEVERITY_MULTIPLIERS[risk.severity];
-    const riskScore = weight * multiplier;
-
-    totalScore += riskScore;
-
-    // Update breakdown
-    switch (risk.category) {
-      case 'missing_clause':
-        breakdown.missingClauses += riskScore;
-        break;
-      case 'unfavorable_terms':
-      case 'termination_risk':
-      case 'payment_risk':
-        breakdown.unfavorableTerms += riskScore;
-        break;
-      case 'compliance_issue':
-      case 'legal_ambiguity':
-        breakdown.complianceIssues += riskScore;
-        break;
-      case 'liability_exposure':
-        breakdown.liabilityExposure += riskScore;
-        break;
+    const weight = policy.riskWeights[risk.category] ?? 10;
+    const unverified = risk.verified === false;
+    const multiplier = risk.dismissed
+      ? 0
+      : policy.severityMultipliers[risk.severity] * (unverified ? UNVERIFIED_RISK_WEIGHT : 1);
+    contributions.push({
+      kind: 'risk',
+      id: risk.id,
+      label: risk.title,
+      category: risk.category,
+      severity: risk.severity,
+      weight,
+      multiplier,
+      points: weight * multiplier,
+      ...(unverified && { unverified }),
+      ...(risk.dismissed && { setAside: 'dismissed' as const })
+    });
+    const bucket = BREAKDOWN_BUCKETS[risk.category];
+    if (bucket) {
+      breakdown[bucket] += weight * multiplier;
     }
   }
 
-  // Add penalty for missing terms
   for (const term of missingTerms) {
-    const penalty = term.importance === 'required' ? 10 : term.importance === 'recommended' ? 5 : 2;
-    totalScore += penalty;
+    const penalty = policy.missingTermPenalties[term.importance] ?? policy.missingTermPenalties.optional;
+    contributions.push({
+      kind: 'missing_term',
+      label: term.term,
+      category: term.importance,
+      weight: penalty,
+      multiplier: 1,
+      points: penalty
+    });
     breakdown.missingClauses += penalty;
   }
 
-  // Add penalty for blockers
-  totalScore += blockers.length * 5;
+  for (const blocker of blockers) {
+    const multiplier = blocker.resolved ? 0 : 1;
+    contributions.push({
+      kind: 'blocker',
+      id: blocker.id,
+      label: blocker.title,
+      category: blocker.type,
+      weight: policy.blockerPenalty,
+      multiplier,
+      points: policy.blockerPenalty * multiplier,
+      ...(blocker.resolved && { setAside: 'resolved' as const })
+    });
+  }
 
   // Normalize to 0-100 scale
+  const totalScore = contributions.reduce((sum, contribution) => sum + contribution.points, 0);
   const normalizedScore = Math.min(100, Math.round(totalScore));
 
   return {
@@ -115,23 +183,184 @@ export function calculateRiskScore(
       complianceIssues: Math.min(25, Math.round(breakdown.complianceIssues)),
       liabilityExposure: Math.min(25, Math.round(breakdown.liabilityExposure))
     },
-    grade: calculateGrade(normalizedScore)
+    grade: calculateGrade(normalizedScore, policy),
+    policyVersion: policy.version,
+    contributions: contributions.map(contribution => ({
+      ...contribution,
+      multiplier: Math.round(contribution.multiplier * 10000) / 10000,
+      points: Math.round(contribution.points * 100) / 100
+    }))
   };
 }
 
 /**
- * Calculate risk grade from score
+ * Calculate risk grade from score with a scoring policy's cutoffs
  */
-function calculateGrade(score: number): RiskGrade {
-  if (score <= 20) return 'A';
-  if (score <= 40) return 'B';
-  if (score <= 60) return 'C';
-  if (score <= 80) return 'D';
+export function calculateGrade(score: number, policy: ScoringPolicy = DEFAULT_SCORING_POLICY): RiskGrade {
+  const { gradeCutoffs } = policy;
+  if (score <= gradeCutoffs.A) return 'A';
+  if (score <= gradeCutoffs.B) return 'B';
+  if (score <= gradeCutoffs.C) return 'C';
+  if (score <= gradeCutoffs.D) return 'D';
   return 'F';
 }
 
 /**
- * Generate required actions from analysis
+ * The lowest and highest score that earn a grade under a scoring policy
+ */
+export function getGradeRange(grade: RiskGrade, policy: ScoringPolicy = DEFAULT_SCORING_POLICY): { min: number; max: number } {
+  const { A, B, C, D } = policy.gradeCutoffs;
+  const ranges: Record<RiskGrade, { min: number; max: number }> = {
+    A: { min: 0, max: A },
+    B: { min: A + 1, max: B },
+    C: { min: B + 1, max: C },
+    D: { min: C + 1, max: D },
+    F: { min: D + 1, max: 100 }
+  };
+  return ranges[grade];
+}
+
+/**
+ * What each finding of an analysis adds to its score. Scores stored before contributions
+ * were itemized are itemized again with the policy they were computed with.
+ */
+export function getScoreContributions(
+  analysis: DocumentAnalysis,
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): ScoreContribution[] {
+  return analysis.riskScore.contributions ||
+    calculateRiskScore(analysis.risks, analysis.missingTerms, analysis.blockers, policy).contributions!;
+}
+
+/**
+ * Explain why an analysis got its grade, finding by finding, under the policy it was scored with
+ */
+export function explainRiskScore(
+  analysis: DocumentAnalysis,
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): ScoreExplanation {
+  const { overall, grade } = analysis.riskScore;
+  const { min, max } = getGradeRange(grade, policy);
+  const contributions = getScoreContributions(analysis, policy);
+  const total = Math.round(contributions.reduce((sum, c) => sum + c.points, 0) * 100) / 100;
+
+  const details = [
+    `in the ${grade} range of ${min}-${max}`,
+    policy.version > 0 ? `under scoring policy version ${policy.version}` : '',
+    total > 100 ? `findings add up to ${total} points, capped at 100` : ''
+  ].filter(Boolean);
+
+  return {
+    summary: `Grade ${grade}: risk score ${overall} of 100, ${details.join(', ')}.`,
+    reasons: [...contributions]
+      .sort((a, b) => b.points - a.points)
+      .map(contribution => ({ points: contribution.points, text: describeContribution(contribution) }))
+  };
+}
+
+function describeContribution(contribution: ScoreContribution): string {
+  const category = contribution.category.replace(/_/g, ' ');
+  const points = `${contribution.points} point${contribution.points === 1 ? '' : 's'}`;
+
+  switch (contribution.kind) {
+    case 'risk':
+      if (contribution.setAside) {
+        return `Dismissed risk "${contribution.label}" (${category}) adds no points`;
+      }
+      return `${getRiskSeverityLabel(contribution.severity!)} "${contribution.label}" (${category}): ` +
+        `${contribution.weight} x ${contribution.multiplier} = ${points}` +
+        (contribution.unverified ? ', halved because its evidence was not found in the document' : '');
+    case 'missing_term':
+      return `Missing ${category} term "${contribution.label}": ${points}`;
+    case 'blocker':
+      return contribution.setAside
+        ? `Resolved blocker "${contribution.label}" adds no points`
+        : `Blocker "${contribution.label}" (${category}): ${points}`;
+  }
+}
+
+/**
+ * Calculate a deal's risk score from its documents. Documents are weighted by type and
+ * recency, older revisions of a document are superseded by the newest, and documents
+ * expected at the deal stage (a HubSpot dealstage ID) but missing are flagged.
+ * The deal is graded with the cutoffs of the given policy.
+ */
+export function calculateDealScore(
+  analyses: DocumentAnalysis[],
+  dealStage?: string,
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): DealRiskScore {
+  // A document keeps its first upload time across versions, so its latest analysis dates it
+  const newestFirst = [...analyses].sort(
+    (a, b) => new Date(b.analyzedAt).getTime() - new Date(a.analyzedAt).getTime()
+  );
+  const newestAnalysis = newestFirst.length > 0 ? new Date(newestFirst[0].analyzedAt).getTime() : 0;
+  const latestByLineage = new Map<string, DocumentAnalysis>();
+  const current: DocumentAnalysis[] = [];
+  let weightedScore = 0;
+  let totalWeight = 0;
+
+  const documents = newestFirst.map((analysis): DealDocumentScore => {
+    const document = {
+      documentId: analysis.documentId,
+      filename: analysis.filename,
+      documentType: analysis.documentType,
+      score: analysis.riskScore.overall,
+      grade: analysis.riskScore.grade
+    };
+
+    const lineage = `${analysis.documentType}:${filenameLineage(analysis.filename) || analysis.documentId}`;
+    const newer = latestByLineage.get(lineage);
+    if (newer) {
+      return { ...document, weight: 0, supersededBy: newer.documentId };
+    }
+    latestByLineage.set(lineage, analysis);
+    current.push(analysis);
+
+    const ageDays = (newestAnalysis - new Date(analysis.analyzedAt).getTime()) / DAY_MS;
+    const recency = Math.max(MIN_RECENCY_WEIGHT, 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS));
+    const weight = Math.round(DOCUMENT_TYPE_WEIGHTS[analysis.documentType] * recency * 100) / 100;
+    weightedScore += document.score * weight;
+    totalWeight += weight;
+    return { ...document, weight };
+  });
+
+  const expected = (dealStage && EXPECTED_DOCUMENTS_BY_STAGE[dealStage]) || [];
+  const missingDocuments = expected.filter(expectation => !current.some(analysis =>
+    expectation.types.includes(analysis.documentType) && (!expectation.signed || isSigned(analysis))
+  ));
+
+  const overall = totalWeight > 0 ? Math.round(weightedScore / totalWeight) : null;
+  return {
+    overall,
+    grade: overall === null ? null : calculateGrade(overall, policy),
+    documents,
+    missingDocuments
+  };
+}
+
+/**
+ * Risks and blockers still open across a deal's documents. Superseded revisions,
+ * dismissed risks and resolved blockers are left out, as they are from the score.
+ */
+export function countOpenFindings(analyses: DocumentAnalysis[]): { risks: number; blockers: number } {
+  const superseded = new Set(
+    calculateDealScore(analyses).documents.filter(d => d.supersededBy).map(d => d.documentId)
+  );
+  const current = analyses.filter(a => !superseded.has(a.documentId));
+
+  return {
+    risks: current.reduce((sum, a) => sum + a.risks.filter(r => !r.dismissed).length, 0),
+    blockers: current.reduce((sum, a) => sum + a.blockers.filter(b => !b.resolved).length, 0)
+  };
+}
+
+function isSigned(analysis: DocumentAnalysis): boolean {
+  return !analysis.blockers.some(blocker => blocker.type === 'missing_signature' && !blocker.resolved);
+}
+
+/**
+ * Generate required actions from analysis. Dismissed risks and resolved blockers need none.
  */
 export function generateRequiredActions(
   risks: DocumentRisk[],
@@ -141,25 +370,29 @@ export function generateRequiredActions(
   const actions: RequiredAction[] = [];
 
   // Actions from critical/high risks
-  for (const risk of risks.filter(r => r.severity === 'critical' || r.severity === 'high')) {
+  for (const risk of risks.filter(r => (r.severity === 'critical' || r.severity === 'high') && !r.dismissed)) {
     actions.push({
       id: randomUUID(),
       priority: risk.severity === 'critical' ? 'urgent' : 'high',
       action: risk.recommendation,
       reason: risk.description,
-      status: 'pending'
+      status: 'pending',
+      riskId: risk.id
     });
   }
 
   // Actions from blockers
-  for (const blocker of blockers) {
+  for (const blocker of blockers.filter(b => !b.resolved)) {
     const priority = blocker.type === 'missing_signature' ? 'urgent' : 'high';
     actions.push({
       id: randomUUID(),
       priority,
       action: blocker.requiredAction,
       reason: blocker.description,
-      status: 'pending'
+      deadline: blocker.dueDate,
+      assignedTo: blocker.assignedTo,
+      status: 'pending',
+      blockerId: blocker.id
     });
   }
 
@@ -182,37 +415,54 @@ export function generateRequiredActions(
 }
 
 /**
- * Perform complete document analysis
+ * Perform complete document analysis, reporting each stage as it starts
  */
 export async function analyzeDocument(
   filePath: string,
   filename: string,
   mimeType: string,
-  documentId?: string
+  documentId?: string,
+  portalId?: string,
+  onStage?: (stage: AnalysisStage) => void | Promise<void>
 ): Promise<DocumentAnalysis> {
+  const configuredProvider = await getPortalLlmProvider(portalId);
+  const provider = configuredProvider ? trackUsage(configuredProvider) : null;
+  const rejectedItems: RejectedLlmItem[] = [];
+
   // Ingest document
+  await onStage?.('ingesting');
   const parsed = await ingestDocument(filePath, mimeType);
 
   // Detect document type
   const documentType = detectDocumentType(parsed.text, filename);
 
-  // Extract entities
-  const entities = await extractEntities(parsed.text);
+  // Segment into sections and clauses
+  const clauses = segmentClauses(parsed);
+
+  // Extract entities and identify risks, then point each at its clause
+  await onStage?.('extracting');
+  const { entities: rawEntities, risks } = assignClauseIds(
+    clauses,
+    await extractEntities(parsed.text, parsed.pageLayout, provider, rejectedItems),
+    await identifyRisks(parsed.text, documentType, parsed.pageLayout, provider, rejectedItems)
+  );
 
-  // Identify risks
-  const risks = await identifyRisks(parsed.text, documentType);
+  // Normalize dates, amounts, durations and payment terms, then derive key terms
+  const entities = normalizeEntities(rawEntities);
+  const keyTerms = extractKeyTerms(parsed.text, entities);
 
   // Identify missing terms
-  const missingTerms = await identifyMissingTerms(parsed.text, documentType);
+  await onStage?.('scoring');
+  const missingTerms = await identifyMissingTerms(parsed.text, documentType, clauses);
 
   // Identify blockers
   const blockers = await identifyBlockers(parsed.text, risks, missingTerms);
 
   // Calculate risk score
-  const riskScore = calculateRiskScore(risks, missingTerms, blockers);
+  const riskScore = calculateRiskScore(risks, missingTerms, blockers, await getScoringPolicy(portalId));
 
   // Generate summary
-  const summary = await generateSummary(parsed.text, documentType);
+  const summary = await generateSummary(parsed.text, documentType, provider);
 
   return {
     documentId: documentId || randomUUID(),
@@ -226,7 +476,12 @@ export async function analyzeDocument(
     blockers,
     riskScore,
     summary,
-    rawText: parsed.text.substring(0, 5000) // Store first 5000 chars
+    rawText: parsed.text.substring(0, 5000), // Store first 5000 chars
+    clauses,
+    keyTerms,
+    requiredActions: generateRequiredActions(risks, missingTerms, blockers),
+    llmUsage: provider?.getUsage(),
+    rejectedItems: provider ? rejectedItems : undefined
   };
 }
 
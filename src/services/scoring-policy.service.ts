@@ -0,0 +1,174 @@
+/**
+ * Scoring Policy Service
+ * Per-portal weights, penalties and grade cutoffs for risk scoring, kept as numbered versions
+ */
+
+import { RiskCategory, RiskScore, RiskSeverity, ScoringPolicy } from '../types';
+import { getRepository } from './repository.service';
+
+/**
+ * The policy portals score with until they save their own
+ */
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  version: 0,
+  riskWeights: {
+    missing_clause: 15,
+    unfavorable_terms: 20,
+    compliance_issue: 25,
+    liability_exposure: 30,
+    termination_risk: 15,
+    payment_risk: 20,
+    legal_ambiguity: 10
+  },
+  severityMultipliers: {
+    low: 0.25,
+    medium: 0.5,
+    high: 0.75,
+    critical: 1.0
+  },
+  missingTermPenalties: {
+    required: 10,
+    recommended: 5,
+    optional: 2
+  },
+  blockerPenalty: 5,
+  gradeCutoffs: { A: 20, B: 40, C: 60, D: 80 }
+};
+
+/**
+ * Policy fields a portal can set, with the range each value must fall in
+ */
+const POLICY_SECTIONS = {
+  riskWeights: { keys: Object.keys(DEFAULT_SCORING_POLICY.riskWeights) as RiskCategory[], max: 100 },
+  severityMultipliers: { keys: Object.keys(DEFAULT_SCORING_POLICY.severityMultipliers) as RiskSeverity[], max: 1 },
+  missingTermPenalties: { keys: Object.keys(DEFAULT_SCORING_POLICY.missingTermPenalties), max: 100 },
+  gradeCutoffs: { keys: Object.keys(DEFAULT_SCORING_POLICY.gradeCutoffs), max: 100 }
+} as const;
+
+type PolicySection = keyof typeof POLICY_SECTIONS;
+
+/**
+ * The policy a portal's analyses are scored with
+ */
+export async function getScoringPolicy(portalId?: string): Promise<ScoringPolicy> {
+  const policy = portalId ? await getRepository().policies.getActive(portalId) : undefined;
+  return policy || DEFAULT_SCORING_POLICY;
+}
+
+/**
+ * A policy version of a portal, including the default (version 0)
+ */
+export async function getScoringPolicyVersion(portalId: string, version: number): Promise<ScoringPolicy | undefined> {
+  return version === 0 ? DEFAULT_SCORING_POLICY : getRepository().policies.getVersion(portalId, version);
+}
+
+/**
+ * The policy a stored score was computed with. Scores from before policies used the default.
+ */
+export async function getPolicyForScore(portalId: string, score: RiskScore): Promise<ScoringPolicy> {
+  return (await getScoringPolicyVersion(portalId, score.policyVersion ?? 0)) || DEFAULT_SCORING_POLICY;
+}
+
+/**
+ * Every policy a portal has saved, oldest first
+ */
+export async function listScoringPolicies(portalId: string): Promise<ScoringPolicy[]> {
+  return getRepository().policies.listVersions(portalId);
+}
+
+/**
+ * Save a new policy version for a portal and score its analyses with it from now on.
+ * Stored scores keep the version they were computed with.
+ */
+export async function setScoringPolicy(
+  portalId: string,
+  policy: Omit<ScoringPolicy, 'version' | 'createdAt'>
+): Promise<ScoringPolicy> {
+  const { policies } = getRepository();
+  const versions = await policies.listVersions(portalId);
+  const saved: ScoringPolicy = {
+    ...policy,
+    version: Math.max(0, ...versions.map(p => p.version)) + 1,
+    createdAt: new Date().toISOString()
+  };
+
+  await policies.save(portalId, saved);
+  return saved;
+}
+
+/**
+ * Revert a portal to the default policy. Its saved versions are kept.
+ */
+export async function removeScoringPolicy(portalId: string): Promise<boolean> {
+  return getRepository().policies.deactivate(portalId);
+}
+
+/**
+ * Validate a scoring policy submitted for a portal.
+ * Sections and values left out are taken from the default policy.
+ */
+export function validateScoringPolicy(
+  input: unknown
+): { policy?: Omit<ScoringPolicy, 'version' | 'createdAt'>; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Policy must be an object' };
+  }
+
+  const body = input as Record<string, unknown>;
+  const allowed = [...Object.keys(POLICY_SECTIONS), 'blockerPenalty'];
+  const unknown = Object.keys(body).find(key => !allowed.includes(key));
+  if (unknown) {
+    return { error: `Unknown policy field: ${unknown}` };
+  }
+
+  const policy = {
+    riskWeights: { ...DEFAULT_SCORING_POLICY.riskWeights },
+    severityMultipliers: { ...DEFAULT_SCORING_POLICY.severityMultipliers },
+    missingTermPenalties: { ...DEFAULT_SCORING_POLICY.missingTermPenalties },
+    blockerPenalty: DEFAULT_SCORING_POLICY.blockerPenalty,
+    gradeCutoffs: { ...DEFAULT_SCORING_POLICY.gradeCutoffs }
+  };
+
+  for (const section of Object.keys(POLICY_SECTIONS) as PolicySection[]) {
+    const values = body[section];
+    if (values === undefined) {
+      continue;
+    }
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      return { error: `${section} must be an object` };
+    }
+
+    const { keys, max } = POLICY_SECTIONS[section];
+    for (const [key, value] of Object.entries(values)) {
+      if (!(keys as readonly string[]).includes(key)) {
+        return { error: `${section} keys must be one of: ${keys.join(', ')}` };
+      }
+      if (!isInRange(value, max)) {
+        return { error: `${section}.${key} must be a number from 0 to ${max}` };
+      }
+      // Overall scores are whole numbers, so a fractional cutoff would grade like the integer below it
+      if (section === 'gradeCutoffs' && !Number.isInteger(value)) {
+        return { error: `gradeCutoffs.${key} must be a whole number` };
+      }
+      (policy[section] as Record<string, number>)[key] = value;
+    }
+  }
+
+  if (body.blockerPenalty !== undefined) {
+    if (!isInRange(body.blockerPenalty, 100)) {
+      return { error: 'blockerPenalty must be a number from 0 to 100' };
+    }
+    policy.blockerPenalty = body.blockerPenalty;
+  }
+
+  const { A, B, C, D } = policy.gradeCutoffs;
+  if (!(A < B && B < C && C < D)) {
+    return { error: 'gradeCutoffs must increase from A to D' };
+  }
+
+  return { policy };
+}
+
+function isInRange(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max;
+}
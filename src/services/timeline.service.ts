@@ -0,0 +1,100 @@
+/**
+ * Timeline Service
+ * Posts analysis results to deal timelines and registers the app's timeline event template
+ */
+
+import { Client } from '@hubspot/api-client';
+import { TimelineEventTemplateCreateRequest } from '@hubspot/api-client/lib/codegen/crm/timeline';
+import { config } from '../config';
+import { DocumentAnalysis } from '../types';
+import { createTimelineEvent, getTimelineEventTemplate } from './crm-card.service';
+import { getRepository } from './repository.service';
+import { retryWithBackoff } from '../utils';
+
+/**
+ * How often and how patiently to retry a HubSpot write while HubSpot is unavailable
+ */
+export interface HubSpotRetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+}
+
+export const DEFAULT_HUBSPOT_RETRY: HubSpotRetryOptions = { attempts: 4, baseDelayMs: 1000 };
+
+// Connection failures worth retrying, as reported by Node's HTTP stack
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * Whether a HubSpot API failure is temporary: rate limiting, a server error or a dropped connection
+ */
+export function isRetryableHubSpotError(error: unknown): boolean {
+  const { code, cause } = (error ?? {}) as { code?: unknown; cause?: unknown };
+  if (typeof code === 'number') {
+    return code === 429 || code >= 500;
+  }
+  if (typeof code === 'string') {
+    return NETWORK_ERROR_CODES.includes(code);
+  }
+  return cause !== undefined && cause !== error && isRetryableHubSpotError(cause);
+}
+
+/**
+ * Add an analysis event to the timeline of every deal the document is attached to.
+ * Does nothing until a template is registered. Failures are logged, not thrown,
+ * so a HubSpot outage never fails the analysis itself.
+ */
+export async function publishAnalysisEvent(
+  portalId: string,
+  analysis: DocumentAnalysis,
+  retry: HubSpotRetryOptions = DEFAULT_HUBSPOT_RETRY
+): Promise<{ published: string[]; failed: string[] }> {
+  const result = { published: [] as string[], failed: [] as string[] };
+  const templateId = await getTimelineTemplateId();
+  if (!templateId) {
+    return result;
+  }
+
+  const dealIds = await getRepository().deals.listDealIds(portalId, analysis.documentId);
+  for (const dealId of dealIds) {
+    try {
+      await retryWithBackoff(
+        () => createTimelineEvent(portalId, dealId, analysis, templateId),
+        { ...retry, shouldRetry: isRetryableHubSpotError }
+      );
+      result.published.push(dealId);
+    } catch (error) {
+      console.error(`Failed to add timeline event for document ${analysis.documentId} to deal ${dealId}:`, error);
+      result.failed.push(dealId);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The template analysis events are posted with: the registered one, else the configured one
+ */
+export async function getTimelineTemplateId(): Promise<string> {
+  const { timelineEventTemplateId } = await getRepository().appSettings.get();
+  return timelineEventTemplateId || config.hubspot.timelineEventTemplateId;
+}
+
+/**
+ * Register the app's timeline event template for deals and store it for publishing from now on
+ */
+export async function registerTimelineTemplate(): Promise<string> {
+  const { appId, developerApiKey, apiBaseUrl } = config.hubspot;
+  if (!appId || !developerApiKey) {
+    throw new Error('HUBSPOT_APP_ID and HUBSPOT_DEVELOPER_API_KEY are required to register the timeline template');
+  }
+
+  const client = new Client({ developerApiKey, basePath: apiBaseUrl });
+  const template = await client.crm.timeline.templatesApi.create(Number(appId), {
+    ...getTimelineEventTemplate(),
+    objectType: 'deals'
+  } as TimelineEventTemplateCreateRequest);
+
+  const { appSettings } = getRepository();
+  await appSettings.save({ ...await appSettings.get(), timelineEventTemplateId: template.id });
+  return template.id;
+}
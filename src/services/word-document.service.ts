@@ -0,0 +1,636 @@
+/**
+ * Word Document Service
+ * Extracts structured text from Microsoft Word documents
+ */
+
+import * as fs from 'fs';
+import JSZip from 'jszip';
+import * as CFB from 'cfb';
+import { ParsedDocument, DocumentParagraph } from '../types';
+import { buildPageLayout } from './page-layout.service';
+
+interface StyleInfo {
+  name: string;
+  outlineLevel?: number;
+  numId?: string;
+  ilvl?: number;
+}
+
+interface NumberingLevel {
+  format: string;
+  text: string;
+  start: number;
+}
+
+/**
+ * Numbering definitions keyed by numId, then by level
+ */
+type NumberingDefinitions = Map<string, Map<number, NumberingLevel>>;
+
+/**
+ * Word 97-2003 magic number at the start of the File Information Block
+ */
+const DOC_FIB_IDENT = 0xa5ec;
+
+/**
+ * Summary information property IDs mapped to metadata keys
+ */
+const SUMMARY_PROPERTIES: Record<number, string> = {
+  2: 'title',
+  4: 'author',
+  8: 'lastSavedBy',
+  12: 'created',
+  13: 'modified'
+};
+
+/**
+ * Windows-1252 characters that differ from Latin-1 in compressed text pieces
+ */
+const CP1252_OVERRIDES: Record<number, string> = {
+  0x80: '\u20ac', 0x82: '\u201a', 0x83: '\u0192', 0x84: '\u201e', 0x85: '\u2026',
+  0x86: '\u2020', 0x87: '\u2021', 0x88: '\u02c6', 0x89: '\u2030', 0x8a: '\u0160',
+  0x8b: '\u2039', 0x8c: '\u0152', 0x8e: '\u017d', 0x91: '\u2018', 0x92: '\u2019',
+  0x93: '\u201c', 0x94: '\u201d', 0x95: '\u2022', 0x96: '\u2013', 0x97: '\u2014',
+  0x98: '\u02dc', 0x99: '\u2122', 0x9a: '\u0161', 0x9b: '\u203a', 0x9c: '\u0153',
+  0x9e: '\u017e', 0x9f: '\u0178'
+};
+
+/**
+ * Parse a DOCX (Office Open XML) document and extract structured text
+ */
+export async function parseDocx(filePath: string): Promise<ParsedDocument> {
+  const dataBuffer = fs.readFileSync(filePath);
+  return parseDocxBuffer(dataBuffer);
+}
+
+/**
+ * Parse a DOCX document from an in-memory buffer
+ */
+export async function parseDocxBuffer(data: Buffer): Promise<ParsedDocument> {
+  const zip = await JSZip.loadAsync(data);
+
+  const documentXml = await readZipEntry(zip, 'word/document.xml');
+  if (!documentXml) {
+    throw new Error('Invalid DOCX file: word/document.xml not found');
+  }
+
+  const styles = parseStyles(await readZipEntry(zip, 'word/styles.xml'));
+  const numbering = parseNumbering(await readZipEntry(zip, 'word/numbering.xml'));
+  const metadata = parseCoreProperties(await readZipEntry(zip, 'docProps/core.xml'));
+
+  const paragraphs = extractParagraphs(documentXml, styles, numbering);
+  const pages = paragraphs.length > 0 ? paragraphs[paragraphs.length - 1].page : 1;
+  const text = renderParagraphs(paragraphs, pages);
+
+  return {
+    text,
+    pages,
+    metadata,
+    confidence: 1.0, // Native text, no recognition involved
+    paragraphs,
+    pageLayout: buildPageLayout(text)
+  };
+}
+
+/**
+ * Parse a legacy Word 97-2003 (.doc) binary document and extract text
+ */
+export async function parseDoc(filePath: string): Promise<ParsedDocument> {
+  const dataBuffer = fs.readFileSync(filePath);
+  return parseDocBuffer(dataBuffer);
+}
+
+/**
+ * Parse a .doc document from an in-memory buffer.
+ * List numbers and heading styles live in binary style sheets that are not
+ * decoded, so paragraphs are returned as plain body text.
+ */
+export async function parseDocBuffer(data: Buffer): Promise<ParsedDocument> {
+  let container: CFB.CFB$Container;
+  try {
+    container = CFB.read(data, { type: 'buffer' });
+  } catch {
+    throw new Error('Invalid DOC file: not an OLE compound document');
+  }
+
+  const wordDocument = readCfbStream(container, 'WordDocument');
+  if (!wordDocument || wordDocument.length < 32 || wordDocument.readUInt16LE(0) !== DOC_FIB_IDENT) {
+    throw new Error('Invalid DOC file: WordDocument stream not found');
+  }
+
+  const flags = wordDocument.readUInt16LE(0x0a);
+  if (flags & 0x0100) {
+    throw new Error('Encrypted DOC files are not supported');
+  }
+
+  const tableStream = readCfbStream(container, flags & 0x0200 ? '1Table' : '0Table');
+  if (!tableStream) {
+    throw new Error('Invalid DOC file: table stream not found');
+  }
+
+  const rawText = readDocText(wordDocument, tableStream);
+  const paragraphs = splitDocParagraphs(rawText);
+  const pages = paragraphs.length > 0 ? paragraphs[paragraphs.length - 1].page : 1;
+
+  const summaryStream = readCfbStream(container, '\u0005SummaryInformation');
+  const metadata: Record<string, string> = {
+    title: '',
+    author: '',
+    lastSavedBy: '',
+    created: '',
+    modified: '',
+    ...(summaryStream ? parseSummaryInformation(summaryStream) : {})
+  };
+
+  const text = renderParagraphs(paragraphs, pages);
+
+  return {
+    text,
+    pages,
+    metadata,
+    confidence: 1.0,
+    paragraphs,
+    pageLayout: buildPageLayout(text)
+  };
+}
+
+/**
+ * Render paragraphs as plain text with PDF-style page markers
+ */
+export function renderParagraphs(paragraphs: DocumentParagraph[], pages: number): string {
+  const pageTexts: string[] = [];
+
+  for (let page = 1; page <= pages; page++) {
+    const lines = paragraphs
+      .filter(p => p.page === page)
+      .map(p => (p.number ? `${p.number} ${p.text}` : p.text));
+    pageTexts.push(`${lines.join('\n')}\n-- ${page} of ${pages} --`);
+  }
+
+  return pageTexts.join('\n\n');
+}
+
+async function readZipEntry(zip: JSZip, name: string): Promise<string | null> {
+  const entry = zip.file(name);
+  return entry ? entry.async('string') : null;
+}
+
+function readCfbStream(container: CFB.CFB$Container, name: string): Buffer | null {
+  const entry = CFB.find(container, name);
+  return entry?.content ? Buffer.from(entry.content) : null;
+}
+
+/**
+ * Reassemble the main document text from the piece table (CLX)
+ */
+function readDocText(wordDocument: Buffer, tableStream: Buffer): string {
+  // FIB layout: FibBase (32 bytes), then counted FibRgW, FibRgLw and FibRgFcLcb blocks
+  const cswOffset = 32;
+  const rgLwOffset = cswOffset + 2 + wordDocument.readUInt16LE(cswOffset) * 2 + 2;
+  const cslw = wordDocument.readUInt16LE(rgLwOffset - 2);
+  const rgFcLcbOffset = rgLwOffset + cslw * 4 + 2;
+
+  const ccpText = wordDocument.readUInt32LE(rgLwOffset + 3 * 4);
+  const fcClx = wordDocument.readUInt32LE(rgFcLcbOffset + 33 * 8);
+  const lcbClx = wordDocument.readUInt32LE(rgFcLcbOffset + 33 * 8 + 4);
+
+  const clxEnd = fcClx + lcbClx;
+  if (lcbClx === 0 || clxEnd > tableStream.length) {
+    throw new Error('Invalid DOC file: piece table not found');
+  }
+
+  // Skip property modifier entries (Prc) preceding the piece descriptor table (Pcdt).
+  // Their sizes come from the file, so each must stay inside the CLX.
+  let position = fcClx;
+  while (position < clxEnd && tableStream[position] === 0x01) {
+    const prcSize = position + 3 <= clxEnd ? tableStream.readInt16LE(position + 1) : -1;
+    if (prcSize < 0 || position + 3 + prcSize > clxEnd) {
+      throw new Error('Invalid DOC file: malformed piece table');
+    }
+    position += 3 + prcSize;
+  }
+  if (position + 5 > clxEnd || tableStream[position] !== 0x02) {
+    throw new Error('Invalid DOC file: malformed piece table');
+  }
+
+  const plcLength = tableStream.readUInt32LE(position + 1);
+  const plcOffset = position + 5;
+  if (plcOffset + plcLength > clxEnd) {
+    throw new Error('Invalid DOC file: malformed piece table');
+  }
+  const pieceCount = (plcLength - 4) / 12;
+
+  let text = '';
+  for (let i = 0; i < pieceCount && text.length < ccpText; i++) {
+    const cpStart = tableStream.readUInt32LE(plcOffset + i * 4);
+    const cpEnd = tableStream.readUInt32LE(plcOffset + (i + 1) * 4);
+    const descriptor = plcOffset + (pieceCount + 1) * 4 + i * 8;
+    const fcValue = tableStream.readUInt32LE(descriptor + 2);
+    const length = Math.min(cpEnd - cpStart, ccpText - text.length);
+
+    if (fcValue & 0x40000000) {
+      // Compressed piece: one Windows-1252 byte per character
+      const start = (fcValue & 0x3fffffff) / 2;
+      for (const byte of wordDocument.subarray(start, start + length)) {
+        text += CP1252_OVERRIDES[byte] ?? String.fromCharCode(byte);
+      }
+    } else {
+      const start = fcValue & 0x3fffffff;
+      text += wordDocument.subarray(start, start + length * 2).toString('utf16le');
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Split .doc text on paragraph marks, dropping field codes and special characters
+ */
+function splitDocParagraphs(rawText: string): DocumentParagraph[] {
+  const paragraphs: DocumentParagraph[] = [];
+  const fieldStack: Array<'code' | 'result'> = [];
+  let page = 1;
+  let current = '';
+
+  const flush = () => {
+    const trimmed = current.trim();
+    if (trimmed) {
+      paragraphs.push({ kind: 'paragraph', text: trimmed, page });
+    }
+    current = '';
+  };
+
+  for (const char of rawText) {
+    switch (char) {
+      case '\u0013': // Field begin
+        fieldStack.push('code');
+        continue;
+      case '\u0014': // Field separator
+        if (fieldStack.length > 0) fieldStack[fieldStack.length - 1] = 'result';
+        continue;
+      case '\u0015': // Field end
+        fieldStack.pop();
+        continue;
+    }
+
+    if (fieldStack.includes('code')) continue;
+
+    switch (char) {
+      case '\r':
+      case '\u0007': // Table cell or row end
+        flush();
+        break;
+      case '\u000c': // Page or section break
+        flush();
+        page++;
+        break;
+      case '\u000b':
+        current += '\n';
+        break;
+      case '\u001e': // Non-breaking hyphen
+        current += '-';
+        break;
+      case '\t':
+        current += char;
+        break;
+      default:
+        if (char >= ' ') current += char;
+    }
+  }
+  flush();
+
+  return paragraphs;
+}
+
+/**
+ * Read string and date properties from an OLE SummaryInformation property set
+ */
+function parseSummaryInformation(stream: Buffer): Record<string, string> {
+  const properties: Record<string, string> = {};
+  if (stream.length < 48) return properties;
+
+  const section = stream.readUInt32LE(44);
+  if (section + 8 > stream.length) return properties;
+
+  const count = stream.readUInt32LE(section + 4);
+  const entries: Array<{ id: number; offset: number }> = [];
+  for (let i = 0; i < count; i++) {
+    const entryOffset = section + 8 + i * 8;
+    if (entryOffset + 8 > stream.length) break;
+    entries.push({
+      id: stream.readUInt32LE(entryOffset),
+      offset: section + stream.readUInt32LE(entryOffset + 4)
+    });
+  }
+
+  const codepageEntry = entries.find(entry => entry.id === 1);
+  const codepage = codepageEntry ? stream.readUInt16LE(codepageEntry.offset + 4) : 1252;
+
+  for (const { id, offset } of entries) {
+    const key = SUMMARY_PROPERTIES[id];
+    if (!key || offset + 8 > stream.length) continue;
+
+    const type = stream.readUInt32LE(offset) & 0xffff;
+    if (type === 0x1e) {
+      // VT_LPSTR: byte count, then a null-terminated string in the property set codepage
+      const size = stream.readUInt32LE(offset + 4);
+      const bytes = stream.subarray(offset + 8, offset + 8 + size);
+      const value = codepage === 1200 ? bytes.toString('utf16le')
+        : codepage === 65001 ? bytes.toString('utf8')
+        : Array.from(bytes, byte => CP1252_OVERRIDES[byte] ?? String.fromCharCode(byte)).join('');
+      properties[key] = value.replace(/\0+$/, '');
+    } else if (type === 0x1f) {
+      // VT_LPWSTR: character count, then UTF-16 text
+      const length = stream.readUInt32LE(offset + 4);
+      properties[key] = stream.subarray(offset + 8, offset + 8 + length * 2).toString('utf16le').replace(/\0+$/, '');
+    } else if (type === 0x40) {
+      // VT_FILETIME: 100ns intervals since 1601-01-01
+      const ticks = stream.readUInt32LE(offset + 8) * 2 ** 32 + stream.readUInt32LE(offset + 4);
+      if (ticks > 0) {
+        properties[key] = new Date(ticks / 10000 - 11644473600000).toISOString();
+      }
+    }
+  }
+
+  return properties;
+}
+
+/**
+ * Walk document.xml paragraphs, resolving headings, numbering and page breaks
+ */
+function extractParagraphs(
+  documentXml: string,
+  styles: Map<string, StyleInfo>,
+  numbering: NumberingDefinitions
+): DocumentParagraph[] {
+  const paragraphs: DocumentParagraph[] = [];
+  const counters = new Map<string, number[]>();
+
+  // Word records where it last paginated; prefer that over explicit breaks
+  const useRenderedBreaks = documentXml.includes('<w:lastRenderedPageBreak');
+  let page = 1;
+
+  const paragraphPattern = /<w:p(?:\s[^>]*)?\/>|<w:p(?:\s[^>]*)?>([\s\S]*?)<\/w:p>/g;
+  for (const match of documentXml.matchAll(paragraphPattern)) {
+    const body = match[1] || '';
+    const properties = body.match(/<w:pPr>([\s\S]*?)<\/w:pPr>/)?.[1] || '';
+
+    if (!useRenderedBreaks && /<w:pageBreakBefore(?:\s+w:val="(?:true|1|on)")?\s*\/>/.test(properties)) {
+      page++;
+    }
+
+    const { text, breaksBefore, breaksAfter } = extractRuns(body, useRenderedBreaks);
+    page += breaksBefore;
+
+    const trimmed = text.trim();
+    if (trimmed) {
+      const styleId = properties.match(/<w:pStyle w:val="([^"]+)"/)?.[1];
+      const style = styleId ? styles.get(styleId) : undefined;
+      const paragraph: DocumentParagraph = { kind: 'paragraph', text: trimmed, page };
+
+      const headingLevel = getHeadingLevel(properties, style);
+      if (headingLevel !== undefined) {
+        paragraph.kind = 'heading';
+        paragraph.level = headingLevel;
+      }
+
+      const numId = properties.match(/<w:numId w:val="([^"]+)"/)?.[1] ?? style?.numId;
+      const ilvlValue = properties.match(/<w:ilvl w:val="(\d+)"/)?.[1];
+      const ilvl = ilvlValue !== undefined ? parseInt(ilvlValue, 10) : style?.ilvl ?? 0;
+
+      if (numId && numId !== '0' && numbering.has(numId)) {
+        paragraph.number = formatListNumber(numId, ilvl, numbering, counters);
+        if (paragraph.kind === 'paragraph') {
+          paragraph.kind = 'list_item';
+          paragraph.level = ilvl;
+        }
+      }
+
+      paragraphs.push(paragraph);
+    }
+
+    page += breaksAfter;
+
+    // A section break starting on a new page ends the current page
+    if (!useRenderedBreaks && /<w:sectPr[\s>]/.test(properties)) {
+      const sectionType = properties.match(/<w:type w:val="([^"]+)"/)?.[1];
+      if (!sectionType || ['nextPage', 'oddPage', 'evenPage'].includes(sectionType)) {
+        page++;
+      }
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Concatenate run text within a paragraph and count page breaks
+ */
+function extractRuns(
+  paragraphXml: string,
+  useRenderedBreaks: boolean
+): { text: string; breaksBefore: number; breaksAfter: number } {
+  let text = '';
+  let breaksBefore = 0;
+  let breaksAfter = 0;
+
+  const tokenPattern = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br(?:\s[^>]*)?\/>|<w:lastRenderedPageBreak\/>/g;
+  for (const match of paragraphXml.matchAll(tokenPattern)) {
+    const token = match[0];
+
+    if (match[1] !== undefined) {
+      text += decodeXmlEntities(match[1]);
+    } else if (token === '<w:tab/>') {
+      text += '\t';
+    } else if (token.startsWith('<w:lastRenderedPageBreak')) {
+      if (useRenderedBreaks) {
+        if (text.trim()) breaksAfter++;
+        else breaksBefore++;
+      }
+    } else if (token.includes('w:type="page"')) {
+      if (!useRenderedBreaks) {
+        if (text.trim()) breaksAfter++;
+        else breaksBefore++;
+      }
+    } else {
+      text += '\n';
+    }
+  }
+
+  return { text, breaksBefore, breaksAfter };
+}
+
+function getHeadingLevel(properties: string, style?: StyleInfo): number | undefined {
+  const outlineLevel = properties.match(/<w:outlineLvl w:val="(\d+)"/)?.[1];
+  // Outline level 9 means "body text"
+  if (outlineLevel !== undefined && outlineLevel !== '9') {
+    return parseInt(outlineLevel, 10) + 1;
+  }
+
+  if (!style) return undefined;
+
+  const headingName = style.name.match(/^heading\s*(\d)$/i);
+  if (headingName) return parseInt(headingName[1], 10);
+  if (/^title$/i.test(style.name)) return 1;
+  if (style.outlineLevel !== undefined && style.outlineLevel < 9) {
+    return style.outlineLevel + 1;
+  }
+
+  return undefined;
+}
+
+/**
+ * Advance the list counters and render the number for a list paragraph
+ */
+function formatListNumber(
+  numId: string,
+  ilvl: number,
+  numbering: NumberingDefinitions,
+  counters: Map<string, number[]>
+): string {
+  const levels = numbering.get(numId)!;
+  const current = counters.get(numId) || [];
+
+  for (let level = 0; level < ilvl; level++) {
+    if (current[level] === undefined) {
+      current[level] = levels.get(level)?.start ?? 1;
+    }
+  }
+  current[ilvl] = current[ilvl] === undefined ? levels.get(ilvl)?.start ?? 1 : current[ilvl] + 1;
+  current.length = ilvl + 1; // Deeper levels restart
+  counters.set(numId, current);
+
+  const definition = levels.get(ilvl);
+  if (!definition) return `${current[ilvl]}.`;
+  if (definition.format === 'bullet') return '•';
+
+  return definition.text.replace(/%(\d)/g, (_, levelRef: string) => {
+    const level = parseInt(levelRef, 10) - 1;
+    const format = levels.get(level)?.format || 'decimal';
+    return formatCounter(current[level] ?? 1, format);
+  });
+}
+
+function formatCounter(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter':
+      return toLetters(value).toLowerCase();
+    case 'upperLetter':
+      return toLetters(value);
+    case 'lowerRoman':
+      return toRoman(value).toLowerCase();
+    case 'upperRoman':
+      return toRoman(value);
+    default:
+      return String(value);
+  }
+}
+
+function toLetters(value: number): string {
+  // Word repeats the letter after Z: AA, BB, ...
+  const letter = String.fromCharCode(65 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'],
+    [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'],
+    [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+  ];
+  let remaining = value;
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+}
+
+function parseStyles(stylesXml: string | null): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+  if (!stylesXml) return styles;
+
+  const stylePattern = /<w:style\b[^>]*w:styleId="([^"]+)"[^>]*>([\s\S]*?)<\/w:style>/g;
+  for (const match of stylesXml.matchAll(stylePattern)) {
+    const body = match[2];
+    const outlineLevel = body.match(/<w:outlineLvl w:val="(\d+)"/)?.[1];
+    const ilvl = body.match(/<w:ilvl w:val="(\d+)"/)?.[1];
+
+    styles.set(match[1], {
+      name: body.match(/<w:name w:val="([^"]+)"/)?.[1] || match[1],
+      outlineLevel: outlineLevel !== undefined ? parseInt(outlineLevel, 10) : undefined,
+      numId: body.match(/<w:numId w:val="([^"]+)"/)?.[1],
+      ilvl: ilvl !== undefined ? parseInt(ilvl, 10) : undefined
+    });
+  }
+
+  return styles;
+}
+
+function parseNumbering(numberingXml: string | null): NumberingDefinitions {
+  const definitions: NumberingDefinitions = new Map();
+  if (!numberingXml) return definitions;
+
+  const abstractDefinitions = new Map<string, Map<number, NumberingLevel>>();
+  const abstractPattern = /<w:abstractNum\b[^>]*w:abstractNumId="([^"]+)"[^>]*>([\s\S]*?)<\/w:abstractNum>/g;
+  for (const match of numberingXml.matchAll(abstractPattern)) {
+    const levels = new Map<number, NumberingLevel>();
+    const levelPattern = /<w:lvl\b[^>]*w:ilvl="(\d+)"[^>]*>([\s\S]*?)<\/w:lvl>/g;
+
+    for (const levelMatch of match[2].matchAll(levelPattern)) {
+      const body = levelMatch[2];
+      levels.set(parseInt(levelMatch[1], 10), {
+        format: body.match(/<w:numFmt w:val="([^"]+)"/)?.[1] || 'decimal',
+        text: decodeXmlEntities(body.match(/<w:lvlText w:val="([^"]*)"/)?.[1] ?? '%1.'),
+        start: parseInt(body.match(/<w:start w:val="(\d+)"/)?.[1] || '1', 10)
+      });
+    }
+
+    abstractDefinitions.set(match[1], levels);
+  }
+
+  const numPattern = /<w:num\b[^>]*w:numId="([^"]+)"[^>]*>([\s\S]*?)<\/w:num>/g;
+  for (const match of numberingXml.matchAll(numPattern)) {
+    const abstractId = match[2].match(/<w:abstractNumId w:val="([^"]+)"/)?.[1];
+    const levels = abstractId ? abstractDefinitions.get(abstractId) : undefined;
+    if (levels) {
+      definitions.set(match[1], levels);
+    }
+  }
+
+  return definitions;
+}
+
+function parseCoreProperties(coreXml: string | null): Record<string, string> {
+  const readProperty = (tag: string): string => {
+    const value = coreXml?.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`))?.[1];
+    return value ? decodeXmlEntities(value) : '';
+  };
+
+  return {
+    title: readProperty('dc:title'),
+    author: readProperty('dc:creator'),
+    lastSavedBy: readProperty('cp:lastModifiedBy'),
+    created: readProperty('dcterms:created'),
+    modified: readProperty('dcterms:modified')
+  };
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      default:
+        return String.fromCodePoint(
+          code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        );
+    }
+  });
+}
@@ -9,10 +9,55 @@ export interface ExtractedEntity {
   type: EntityType;
   value: string;
   confidence: number;
-  location?: {
-    page?: number;
-    position?: string;
-  };
+  normalized?: NormalizedValue;
+  evidence?: string; // Verbatim quote from the document supporting the entity
+  location?: TextLocation;
+  clauseId?: string;
+  verified?: boolean; // Whether the evidence was found in the document text
+}
+
+/**
+ * Typed form of an entity value
+ */
+export type NormalizedValue =
+  | { kind: 'date'; date: string } // ISO 8601 (YYYY-MM-DD)
+  | ({ kind: 'amount' } & MonetaryAmount)
+  | ({ kind: 'duration' } & Duration)
+  | { kind: 'net_days'; days: number };
+
+export interface MonetaryAmount {
+  amount: number;
+  currency: string; // ISO 4217 code
+}
+
+/**
+ * Day and week durations are held in days, month and year durations in months
+ */
+export interface Duration {
+  days?: number;
+  months?: number;
+}
+
+/**
+ * Key commercial terms derived from normalized entities
+ */
+export interface KeyTerms {
+  effectiveDate?: string;
+  endDate?: string;
+  term?: Duration;
+  totalContractValue?: MonetaryAmount;
+  paymentNetDays?: number;
+}
+
+/**
+ * Where a finding appears in the source document
+ */
+export interface TextLocation {
+  page?: number;
+  position?: string;
+  start?: number; // Character offset into ParsedDocument.text
+  end?: number;
+  bbox?: BoundingBox; // Only for OCR'd text
 }
 
 export type EntityType =
@@ -40,6 +85,31 @@ export interface DocumentRisk {
   description: string;
   recommendation: string;
   relatedClauses?: string[];
+  evidence?: string; // Verbatim quote from the document that creates the risk
+  location?: TextLocation;
+  clauseId?: string;
+  verified?: boolean; // Unset for risks with nothing to quote, such as missing clauses
+  dismissed?: FindingDecision; // Dismissed risks no longer count toward the score
+}
+
+/**
+ * Who set a finding aside from the CRM card, when and why
+ */
+export interface FindingDecision {
+  by: string; // HubSpot user email or ID
+  at: string;
+  reason?: string;
+}
+
+/**
+ * What a signed dismiss link from the CRM card vouches for
+ */
+export interface DismissalGrant {
+  portalId: string;
+  documentId: string;
+  riskId: string;
+  user: string; // HubSpot user the card was fetched for
+  expiresAt: number; // Epoch milliseconds
 }
 
 export type RiskCategory =
@@ -61,6 +131,7 @@ export interface MissingTerm {
   importance: 'required' | 'recommended' | 'optional';
   description: string;
   impact: string;
+  clauseId?: string; // Set when the section exists but has no substantive content
 }
 
 /**
@@ -74,6 +145,7 @@ export interface DealBlocker {
   requiredAction: string;
   assignedTo?: string;
   dueDate?: string;
+  resolved?: FindingDecision; // Resolved blockers no longer count toward the score
 }
 
 export type BlockerType =
@@ -89,7 +161,12 @@ export type BlockerType =
  */
 export interface DocumentAnalysis {
   documentId: string;
+  portalId?: string; // Owning HubSpot portal, set when stored
   filename: string;
+  mimeType?: string;
+  blobHash?: string; // SHA-256 of the original file in the blob store
+  version?: number; // Starts at 1 and increases with each re-analysis
+  jobId?: string; // Analysis job that stored this version
   documentType: DocumentType;
   uploadedAt: string;
   analyzedAt: string;
@@ -100,6 +177,26 @@ export interface DocumentAnalysis {
   riskScore: RiskScore;
   summary: string;
   rawText?: string;
+  clauses?: DocumentClause[];
+  keyTerms?: KeyTerms;
+  requiredActions?: RequiredAction[];
+  llmUsage?: LlmUsageSummary;
+  rejectedItems?: RejectedLlmItem[];
+}
+
+/**
+ * Numbered section or clause segmented from the document text
+ */
+export interface DocumentClause {
+  id: string;
+  number?: string; // e.g. "7.2", "IV" or "(a)"
+  heading?: string;
+  text: string;
+  start: number; // Character offsets into ParsedDocument.text
+  end: number;
+  level: number; // 0 for the preamble, 1 for top-level sections
+  page?: number;
+  parentId?: string;
 }
 
 export type DocumentType =
@@ -124,11 +221,168 @@ export interface RiskScore {
     liabilityExposure: number;
   };
   grade: RiskGrade;
-  trend?: 'improving' | 'stable' | 'worsening';
+  trend?: RiskTrend; // Set from the score history once a document has prior versions
+  policyVersion?: number; // Scoring policy the score was computed with; absent on scores from before policies
+  contributions?: ScoreContribution[]; // Absent on scores from before contributions were itemized
+}
+
+/**
+ * What one risk, missing term or blocker adds to a risk score
+ */
+export interface ScoreContribution {
+  kind: 'risk' | 'missing_term' | 'blocker';
+  id?: string; // Risk or blocker ID; missing terms have none
+  label: string; // Risk or blocker title, or the missing term
+  category: string; // Risk category, missing term importance or blocker type
+  severity?: RiskSeverity; // Risks only
+  weight: number; // Category weight, missing term penalty or blocker penalty under the scoring policy
+  multiplier: number; // Severity multiplier for risks, 1 otherwise; 0 once set aside
+  points: number; // weight x multiplier, before the overall score is rounded and capped at 100
+  unverified?: boolean; // Risk evidence was not found in the document, which halves the multiplier
+  setAside?: 'dismissed' | 'resolved';
+}
+
+/**
+ * Plain-language account of why a document got its grade
+ */
+export interface ScoreExplanation {
+  summary: string; // e.g. "Grade D: risk score 65 of 100, in the D range of 61-80"
+  reasons: Array<{ points: number; text: string }>; // One per finding, largest contribution first
 }
 
 export type RiskGrade = 'A' | 'B' | 'C' | 'D' | 'F';
 
+/**
+ * How findings are weighed into a risk score and graded
+ */
+export interface ScoringPolicy {
+  version: number; // 0 for the built-in default, then 1, 2, ... for each policy a portal saves
+  riskWeights: Record<RiskCategory, number>; // Points for a critical risk of the category
+  severityMultipliers: Record<RiskSeverity, number>;
+  missingTermPenalties: Record<MissingTerm['importance'], number>;
+  blockerPenalty: number; // Points per open blocker
+  gradeCutoffs: Record<Exclude<RiskGrade, 'F'>, number>; // Highest score that still earns the grade
+  createdAt?: string;
+}
+
+export type RiskTrend = 'improving' | 'stable' | 'worsening';
+
+/**
+ * A document type a deal is expected to have by a given stage
+ */
+export interface ExpectedDocument {
+  label: string;
+  types: DocumentType[]; // Any of these satisfies the expectation
+  signed: boolean; // Whether the document must have no open signature blocker
+}
+
+/**
+ * How one document counts toward its deal's risk score
+ */
+export interface DealDocumentScore {
+  documentId: string;
+  filename: string;
+  documentType: DocumentType;
+  score: number;
+  grade: RiskGrade;
+  weight: number; // 0 when superseded
+  supersededBy?: string; // Document ID of the newer revision that replaces it
+}
+
+/**
+ * Risk score of a deal across its documents
+ */
+export interface DealRiskScore {
+  overall: number | null; // Weighted 0-100 score, null when the deal has no documents
+  grade: RiskGrade | null;
+  documents: DealDocumentScore[];
+  missingDocuments: ExpectedDocument[]; // Expected for the deal stage but not on the deal
+}
+
+/**
+ * A risk as compared across versions
+ */
+export interface RiskChange {
+  category: RiskCategory;
+  severity: RiskSeverity;
+  title: string;
+}
+
+/**
+ * Run of words in a redline: unchanged, inserted in the revision or deleted from the base
+ */
+export interface TextDiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Clause as shown in a comparison
+ */
+export interface ClauseReference {
+  id: string;
+  number?: string;
+  heading?: string;
+  text: string;
+}
+
+export interface ModifiedClause {
+  base: ClauseReference;
+  revised: ClauseReference;
+  diff: TextDiffSegment[];
+}
+
+/**
+ * Version of a document being compared
+ */
+export interface ComparedVersion {
+  documentId: string;
+  version: number;
+  filename: string;
+  analyzedAt: string;
+}
+
+/**
+ * Clause-level redline between two analyses, with the resulting change in risk
+ */
+export interface DocumentComparison {
+  base: ComparedVersion;
+  revised: ComparedVersion;
+  clauses: {
+    added: ClauseReference[];
+    removed: ClauseReference[];
+    modified: ModifiedClause[];
+    unchangedCount: number;
+  };
+  risks: {
+    introduced: RiskChange[];
+    resolved: RiskChange[];
+  };
+  score: {
+    base: number;
+    revised: number;
+    delta: number;
+    breakdownDelta: RiskScore['breakdown'];
+    gradeChange?: { from: RiskGrade; to: RiskGrade };
+  };
+}
+
+/**
+ * One version of a document and how it changed from the version before
+ */
+export interface DocumentVersionSummary {
+  version: number;
+  filename: string;
+  analyzedAt: string;
+  grade: RiskGrade;
+  overall: number;
+  riskCount: number;
+  scoreDelta?: number; // Change in overall score from the previous version
+  gradeChange?: { from: RiskGrade; to: RiskGrade };
+  risksIntroduced: RiskChange[];
+  risksResolved: RiskChange[];
+}
+
 /**
  * Required action for deal progress
  */
@@ -138,7 +392,11 @@ export interface RequiredAction {
   action: string;
   reason: string;
   deadline?: string;
+  assignedTo?: string; // HubSpot owner ID
   status: 'pending' | 'in_progress' | 'completed';
+  hubspotTaskId?: string;
+  riskId?: string; // Risk or blocker the action was generated for, if any
+  blockerId?: string;
 }
 
 /**
@@ -180,6 +438,10 @@ export interface CrmCardAction {
   uri: string;
   label: string;
   associatedObjectProperties?: string[];
+  httpMethod?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  confirmationMessage?: string; // CONFIRMATION_ACTION_HOOK only
+  confirmButtonText?: string;
+  cancelButtonText?: string;
 }
 
 /**
@@ -192,6 +454,137 @@ export interface OAuthTokens {
   portalId?: string;
 }
 
+/**
+ * Storage for document analyses, scoped by HubSpot portal
+ */
+export interface AnalysisRepository {
+  get(portalId: string, documentId: string): Promise<DocumentAnalysis | undefined>;
+  save(portalId: string, analysis: DocumentAnalysis): Promise<void>;
+  delete(portalId: string, documentId: string): Promise<boolean>; // Also removes prior versions
+  archive(portalId: string, analysis: DocumentAnalysis): Promise<void>;
+  listVersions(portalId: string, documentId: string): Promise<DocumentAnalysis[]>; // Prior versions, oldest first
+  isBlobReferenced(blobHash: string): Promise<boolean>; // By any analysis or prior version, in any portal
+}
+
+/**
+ * Storage for deal to document associations, scoped by HubSpot portal
+ */
+export interface DealAssociationRepository {
+  listDocumentIds(portalId: string, dealId: string): Promise<string[]>;
+  listDealIds(portalId: string, documentId: string): Promise<string[]>;
+  add(portalId: string, dealId: string, documentId: string): Promise<void>;
+  removeDocument(portalId: string, documentId: string): Promise<void>;
+}
+
+/**
+ * Storage for portal OAuth tokens
+ */
+export interface TokenRepository {
+  get(portalId: string): Promise<OAuthTokens | undefined>;
+  save(portalId: string, tokens: OAuthTokens): Promise<void>;
+  delete(portalId: string): Promise<boolean>;
+}
+
+/**
+ * Storage for background analysis jobs
+ */
+export interface JobRepository {
+  get(portalId: string, jobId: string): Promise<AnalysisJob | undefined>;
+  save(job: AnalysisJob): Promise<void>;
+  listUnfinished(): Promise<AnalysisJob[]>;
+}
+
+/**
+ * The required action a HubSpot task was created for
+ */
+export interface ActionTaskLink {
+  taskId: string;
+  documentId: string;
+  actionId: string;
+}
+
+/**
+ * Storage for HubSpot tasks created from required actions, by task ID
+ */
+export interface TaskLinkRepository {
+  get(portalId: string, taskId: string): Promise<ActionTaskLink | undefined>;
+  save(portalId: string, link: ActionTaskLink): Promise<void>;
+}
+
+/**
+ * Storage for portal LLM settings
+ */
+export interface LlmSettingsRepository {
+  get(portalId: string): Promise<LlmSettings | undefined>;
+  save(portalId: string, settings: LlmSettings): Promise<void>;
+  delete(portalId: string): Promise<boolean>;
+}
+
+/**
+ * Storage for settings that apply to the whole app rather than one portal
+ */
+export interface AppSettingsRepository {
+  get(): Promise<AppSettings>;
+  save(settings: AppSettings): Promise<void>;
+}
+
+/**
+ * Storage for portal scoring policies. Every saved policy is kept as a version,
+ * so scores computed with an earlier one can still be explained.
+ */
+export interface ScoringPolicyRepository {
+  getActive(portalId: string): Promise<ScoringPolicy | undefined>;
+  getVersion(portalId: string, version: number): Promise<ScoringPolicy | undefined>;
+  listVersions(portalId: string): Promise<ScoringPolicy[]>; // Oldest first
+  save(portalId: string, policy: ScoringPolicy): Promise<void>; // Also makes it the active policy
+  deactivate(portalId: string): Promise<boolean>; // Reverts the portal to the default policy
+}
+
+/**
+ * Content-addressed storage for original document files
+ */
+export interface BlobStore {
+  put(filePath: string): Promise<string>; // Returns the SHA-256 hash of the content
+  getPath(hash: string): Promise<string | undefined>;
+  delete(hash: string): Promise<boolean>;
+}
+
+export interface Repository {
+  analyses: AnalysisRepository;
+  deals: DealAssociationRepository;
+  tokens: TokenRepository;
+  jobs: JobRepository;
+  tasks: TaskLinkRepository;
+  policies: ScoringPolicyRepository;
+  llmSettings: LlmSettingsRepository;
+  appSettings: AppSettingsRepository;
+}
+
+/**
+ * Background analysis jobs
+ */
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type AnalysisStage = 'ingesting' | 'extracting' | 'scoring';
+
+export interface AnalysisJob {
+  id: string;
+  portalId: string;
+  dealId?: string; // Unset when re-analyzing a stored document
+  documentId: string;
+  filename: string;
+  mimeType: string;
+  filePath?: string; // Uploaded file, removed once the job settles
+  blobHash?: string; // Stored original, used when re-analyzing
+  status: AnalysisJobStatus;
+  stage?: AnalysisStage;
+  attempts: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
 /**
  * API Response types
  */
@@ -222,4 +615,120 @@ export interface ParsedDocument {
   pages: number;
   metadata: Record<string, string>;
   confidence: number;
+  paragraphs?: DocumentParagraph[];
+  pageConfidences?: number[]; // OCR confidence (0-1) per page, in page order
+  pageLayout?: DocumentPage[];
+}
+
+/**
+ * Character range of a page within ParsedDocument.text
+ */
+export interface DocumentPage {
+  page: number;
+  start: number;
+  end: number;
+  blocks?: TextBlock[];
+}
+
+/**
+ * Block of text recognized by OCR, positioned in both text and image space
+ */
+export interface TextBlock {
+  text: string;
+  start: number;
+  end: number;
+  bbox: BoundingBox;
+  confidence: number;
+}
+
+/**
+ * Pixel rectangle on the rendered page image
+ */
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/**
+ * Structured paragraph from word-processing formats (DOCX, DOC)
+ */
+export interface DocumentParagraph {
+  kind: 'heading' | 'list_item' | 'paragraph';
+  text: string;
+  page: number;
+  level?: number; // Heading level (1-based) or list nesting level (0-based)
+  number?: string; // Rendered list number, e.g. "2.1" or "(a)"
+}
+
+/**
+ * LLM provider abstraction
+ */
+export type LlmProviderName = 'openai' | 'openai-compatible' | 'fixture';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Request a single JSON object as the response
+}
+
+export interface LlmTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletionResult {
+  content: string | null;
+  model: string;
+  usage: LlmTokenUsage;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletionResult>;
+}
+
+/**
+ * Per-portal LLM provider selection
+ */
+export interface LlmSettings {
+  provider: Exclude<LlmProviderName, 'fixture'>;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+/**
+ * App-wide settings set up through the admin routes
+ */
+export interface AppSettings {
+  timelineEventTemplateId?: string; // Registered with POST /api/admin/timeline-template
+}
+
+/**
+ * Model output dropped because it failed schema validation
+ */
+export interface RejectedLlmItem {
+  kind: 'entity' | 'risk';
+  item: unknown; // The item as the model returned it (null when the whole response was unusable)
+  errors: string[];
+  chunk?: number; // Index of the text chunk the response was for
+}
+
+/**
+ * Token usage accumulated over one analysis
+ */
+export interface LlmUsageSummary extends LlmTokenUsage {
+  provider: LlmProviderName;
+  model: string;
+  requests: number;
 }
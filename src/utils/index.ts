@@ -45,6 +45,18 @@ export function truncateText(text: string, maxLength: number): string {
   return text.substring(0, maxLength - 3) + '...';
 }
 
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 /**
  * Sleep for a specified number of milliseconds
  */
@@ -52,6 +64,47 @@ export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * Run an async function, retrying with exponential backoff while `shouldRetry` allows
+ */
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  options: { attempts: number; baseDelayMs: number; shouldRetry?: (error: unknown) => boolean }
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.attempts || (options.shouldRetry && !options.shouldRetry(error))) {
+        throw error;
+      }
+      await sleep(options.baseDelayMs * 2 ** (attempt - 1));
+    }
+  }
+}
+
+/**
+ * Map over items with at most `limit` promises pending at once, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 /**
  * Parse a boolean from environment variable
  */
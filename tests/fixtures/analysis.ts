@@ -0,0 +1,38 @@
+/**
+ * Document analysis fixture shared by the unit tests
+ */
+
+import { DocumentAnalysis, RiskScore } from '../../src/types';
+
+export type AnalysisOverrides = Partial<Omit<DocumentAnalysis, 'riskScore'>> & {
+  riskScore?: Partial<RiskScore>;
+};
+
+/**
+ * A stored analysis of a contract with no findings, graded A with a score of 10.
+ * Overrides replace fields; riskScore overrides are merged into the default score.
+ */
+export function buildAnalysis(overrides: AnalysisOverrides = {}): DocumentAnalysis {
+  const { riskScore, ...fields } = overrides;
+  const documentId = fields.documentId ?? 'doc-1';
+
+  return {
+    documentId,
+    filename: `${documentId}.pdf`,
+    documentType: 'contract',
+    uploadedAt: '2024-01-01T00:00:00.000Z',
+    analyzedAt: '2024-01-01T00:00:00.000Z',
+    entities: [],
+    risks: [],
+    missingTerms: [],
+    blockers: [],
+    summary: 'Summary',
+    ...fields,
+    riskScore: {
+      overall: 10,
+      breakdown: { missingClauses: 0, unfavorableTerms: 0, complianceIssues: 0, liabilityExposure: 0 },
+      grade: 'A',
+      ...riskScore
+    }
+  };
+}
@@ -2,18 +2,30 @@
  * Integration tests for API routes
  */
 
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import JSZip from 'jszip';
 import request from 'supertest';
 import { createApp } from '../../src/app';
 import { Express } from 'express';
+import { config } from '../../src/config';
 import { storeTokens } from '../../src/services/oauth.service';
+import { getRepository } from '../../src/services/repository.service';
+import { getJobQueue, setJobQueue, JobQueue } from '../../src/services/job-queue.service';
+import { cleanupFile } from '../../src/services/document-ingestion.service';
+import * as dealProperties from '../../src/services/deal-properties.service';
+import { signDismissalGrant } from '../../src/services/finding-decisions.service';
+import { AnalysisJob, DocumentAnalysis } from '../../src/types';
+import { buildAnalysis } from '../fixtures/analysis';
 
 describe('API Routes', () => {
   let app: Express;
 
-  beforeAll(() => {
+  beforeAll(async () => {
     app = createApp();
     // Set up test authentication
-    storeTokens('test-portal', {
+    await storeTokens('test-portal', {
       accessToken: 'test-token',
       refreshToken: 'test-refresh',
       expiresAt: Date.now() + 3600000,
@@ -75,7 +87,7 @@ describe('API Routes', () => {
 
     it('POST /oauth/logout should log out portal', async () => {
       // Create a temporary portal to logout
-      storeTokens('logout-test', {
+      await storeTokens('logout-test', {
         accessToken: 'test',
         refreshToken: 'test',
         expiresAt: Date.now() + 3600000,
@@ -118,6 +130,169 @@ describe('API Routes', () => {
       expect(response.body.error.code).toBe('MISSING_DEAL_ID');
     });
 
+    it('POST /api/documents/upload should queue the document and return a job', async () => {
+      const enqueue = jest.fn<ReturnType<JobQueue['enqueue']>, Parameters<JobQueue['enqueue']>>(async input => ({
+        ...input,
+        id: 'job-1',
+        documentId: 'doc-1',
+        status: 'queued',
+        attempts: 0,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+      }));
+      setJobQueue({ enqueue, resume: async () => 0, onIdle: async () => undefined });
+
+      try {
+        const response = await request(app)
+          .post('/api/documents/upload')
+          .set('x-hubspot-portal-id', 'test-portal')
+          .field('dealId', 'deal-upload')
+          .attach('document', Buffer.from('%PDF-1.4'), { filename: 'scan.pdf', contentType: 'application/pdf' });
+
+        expect(response.status).toBe(202);
+        expect(response.body.data).toEqual({
+          jobId: 'job-1',
+          documentId: 'doc-1',
+          status: 'queued',
+          statusUrl: '/api/jobs/job-1'
+        });
+        expect(enqueue).toHaveBeenCalledWith(expect.objectContaining({
+          portalId: 'test-portal',
+          dealId: 'deal-upload',
+          filename: 'scan.pdf'
+        }));
+      } finally {
+        enqueue.mock.calls.forEach(([input]) => cleanupFile(input.filePath!));
+        setJobQueue(null);
+      }
+    });
+
+    it('POST /api/documents/:id/reanalyze should queue a job from the stored original', async () => {
+      const enqueue = jest.fn<ReturnType<JobQueue['enqueue']>, Parameters<JobQueue['enqueue']>>(async input => ({
+        ...input,
+        id: 'job-reanalyze',
+        documentId: input.documentId!,
+        status: 'queued',
+        attempts: 0,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+      }));
+      setJobQueue({ enqueue, resume: async () => 0, onIdle: async () => undefined });
+      await getRepository().analyses.save('test-portal', buildAnalysis({
+        documentId: 'retained-doc',
+        mimeType: 'application/pdf',
+        blobHash: 'c'.repeat(64)
+      }));
+
+      try {
+        const response = await request(app)
+          .post('/api/documents/retained-doc/reanalyze')
+          .set('x-hubspot-portal-id', 'test-portal');
+
+        expect(response.status).toBe(202);
+        expect(response.body.data).toMatchObject({ jobId: 'job-reanalyze', documentId: 'retained-doc' });
+        expect(enqueue).toHaveBeenCalledWith({
+          portalId: 'test-portal',
+          documentId: 'retained-doc',
+          filename: 'retained-doc.pdf',
+          mimeType: 'application/pdf',
+          blobHash: 'c'.repeat(64)
+        });
+      } finally {
+        setJobQueue(null);
+      }
+    });
+
+    it('POST /api/documents/:id/reanalyze should reject documents without a retained original', async () => {
+      await getRepository().analyses.save('test-portal', buildAnalysis({ documentId: 'legacy-doc' }));
+
+      const response = await request(app)
+        .post('/api/documents/legacy-doc/reanalyze')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('ORIGINAL_NOT_AVAILABLE');
+    });
+
+    it('GET /api/documents/:id/versions should list grade and risk changes', async () => {
+      const risk = {
+        id: 'risk-1',
+        category: 'liability_exposure' as const,
+        severity: 'critical' as const,
+        title: 'Unlimited liability',
+        description: 'Liability is not capped.',
+        recommendation: 'Add a cap.'
+      };
+      const first = buildAnalysis({ documentId: 'versioned-doc' });
+      await getRepository().analyses.archive('test-portal', {
+        ...first,
+        version: 1,
+        risks: [risk],
+        riskScore: { ...first.riskScore, overall: 70, grade: 'D' }
+      });
+      await getRepository().analyses.save('test-portal', {
+        ...first,
+        version: 2,
+        riskScore: { ...first.riskScore, overall: 20, grade: 'A', trend: 'improving' }
+      });
+
+      const response = await request(app)
+        .get('/api/documents/versioned-doc/versions')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ currentVersion: 2, trend: 'improving' });
+      expect(response.body.data.versions).toHaveLength(2);
+      expect(response.body.data.versions[1]).toMatchObject({
+        scoreDelta: -50,
+        gradeChange: { from: 'D', to: 'A' },
+        risksResolved: [{ title: 'Unlimited liability' }]
+      });
+    });
+
+    it('GET /api/documents/:id/compare should redline the previous version against the current one', async () => {
+      const clause = (text: string) => ({ id: 'clause-2', number: '2', heading: 'Payment', text, start: 0, end: text.length, level: 1 });
+      const base = buildAnalysis({ documentId: 'redlined-doc', riskScore: { overall: 0 } });
+      await getRepository().analyses.archive('test-portal', {
+        ...base,
+        version: 1,
+        clauses: [clause('2. Payment\nInvoices are due within 30 days.')]
+      });
+      await getRepository().analyses.save('test-portal', {
+        ...base,
+        version: 2,
+        clauses: [clause('2. Payment\nInvoices are due within 60 days.')],
+        riskScore: { ...base.riskScore, overall: 15 }
+      });
+
+      const response = await request(app)
+        .get('/api/documents/redlined-doc/compare')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.base.version).toBe(1);
+      expect(response.body.data.revised.version).toBe(2);
+      expect(response.body.data.clauses.modified[0].diff).toContainEqual({ type: 'insert', text: '60' });
+      expect(response.body.data.score.delta).toBe(15);
+    });
+
+    it('GET /api/documents/:id/compare should reject unknown versions', async () => {
+      await getRepository().analyses.save('test-portal', buildAnalysis({ documentId: 'single-version-doc' }));
+
+      const missing = await request(app)
+        .get('/api/documents/single-version-doc/compare')
+        .set('x-hubspot-portal-id', 'test-portal');
+      const invalid = await request(app)
+        .get('/api/documents/single-version-doc/compare')
+        .query({ from: 'latest' })
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(missing.status).toBe(404);
+      expect(missing.body.error.code).toBe('VERSION_NOT_FOUND');
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error.code).toBe('INVALID_VERSION');
+    });
+
     it('GET /api/documents/:id should return 404 for non-existent document', async () => {
       const response = await request(app)
         .get('/api/documents/non-existent-id')
@@ -127,6 +302,206 @@ describe('API Routes', () => {
     });
   });
 
+  describe('Score Explanation', () => {
+    it('GET /api/documents/:documentId/score should itemize and explain the score', async () => {
+      await getRepository().analyses.save('test-portal', buildAnalysis({
+        documentId: 'explained-doc',
+        missingTerms: [{ term: 'Governing Law', importance: 'required', description: 'Jurisdiction', impact: 'No forum' }],
+        riskScore: {
+          overall: 10,
+          breakdown: { missingClauses: 10, unfavorableTerms: 0, complianceIssues: 0, liabilityExposure: 0 },
+          grade: 'A'
+        }
+      }));
+
+      const response = await request(app)
+        .get('/api/documents/explained-doc/score')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        documentId: 'explained-doc',
+        policyVersion: 0,
+        gradeRange: { min: 0, max: 20 },
+        contributions: [{ kind: 'missing_term', label: 'Governing Law', weight: 10, multiplier: 1, points: 10 }],
+        explanation: {
+          summary: 'Grade A: risk score 10 of 100, in the A range of 0-20.',
+          reasons: [{ points: 10, text: 'Missing required term "Governing Law": 10 points' }]
+        }
+      });
+    });
+
+    it('GET /api/documents/:documentId/score should return 404 for unknown documents', async () => {
+      const response = await request(app)
+        .get('/api/documents/missing-doc/score')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('Job Routes', () => {
+    const job: AnalysisJob = {
+      id: 'job-status',
+      portalId: 'test-portal',
+      dealId: 'deal-jobs',
+      documentId: 'job-doc',
+      filename: 'scan.pdf',
+      mimeType: 'application/pdf',
+      filePath: '/srv/uploads/scan.pdf',
+      status: 'running',
+      stage: 'extracting',
+      attempts: 1,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    };
+
+    beforeAll(async () => {
+      await getRepository().jobs.save(job);
+    });
+
+    it('GET /api/jobs/:id should report the stage without the file path', async () => {
+      const response = await request(app)
+        .get('/api/jobs/job-status')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ id: 'job-status', status: 'running', stage: 'extracting' });
+      expect(response.body.data.filePath).toBeUndefined();
+      expect(response.body.data.result).toBeUndefined();
+    });
+
+    it('GET /api/jobs/:id should include the analysis once completed', async () => {
+      await getRepository().jobs.save({ ...job, id: 'job-done', status: 'completed', stage: 'scoring' });
+      await getRepository().analyses.save('test-portal', buildAnalysis({ documentId: 'job-doc', summary: 'Scanned contract' }));
+
+      const response = await request(app)
+        .get('/api/jobs/job-done')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(response.body.data.status).toBe('completed');
+      expect(response.body.data.result.summary).toBe('Scanned contract');
+    });
+
+    it('GET /api/jobs/:id should return 404 for unknown jobs', async () => {
+      const response = await request(app)
+        .get('/api/jobs/missing-job')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('Settings Routes', () => {
+    it('PUT /api/settings/llm should store portal settings without echoing the key', async () => {
+      const response = await request(app)
+        .put('/api/settings/llm')
+        .set('x-hubspot-portal-id', 'test-portal')
+        .send({ provider: 'openai-compatible', model: 'llama3.1', baseUrl: 'https://llm.example.com/v1', apiKey: 'secret' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({
+        provider: 'openai-compatible',
+        model: 'llama3.1',
+        baseUrl: 'https://llm.example.com/v1',
+        hasApiKey: true,
+        source: 'portal'
+      });
+
+      const current = await request(app)
+        .get('/api/settings/llm')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(current.body.data.model).toBe('llama3.1');
+    });
+
+    it('PUT /api/settings/llm should reject invalid settings', async () => {
+      const response = await request(app)
+        .put('/api/settings/llm')
+        .set('x-hubspot-portal-id', 'test-portal')
+        .send({ provider: 'unknown', model: 'x' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_SETTINGS');
+    });
+
+    it('PUT /api/settings/llm should reject endpoints on private hosts', async () => {
+      const response = await request(app)
+        .put('/api/settings/llm')
+        .set('x-hubspot-portal-id', 'test-portal')
+        .send({ provider: 'openai-compatible', model: 'x', baseUrl: 'https://169.254.169.254/v1' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain('LLM_ALLOWED_HOSTS');
+    });
+
+    it('DELETE /api/settings/llm should revert to the default', async () => {
+      const response = await request(app)
+        .delete('/api/settings/llm')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.source).toBe('default');
+    });
+
+    it('should save, version and revert the portal scoring policy', async () => {
+      const initial = await request(app)
+        .get('/api/settings/scoring-policy')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(initial.body.data).toMatchObject({ version: 0, source: 'default', blockerPenalty: 5 });
+
+      const saved = await request(app)
+        .put('/api/settings/scoring-policy')
+        .set('x-hubspot-portal-id', 'test-portal')
+        .send({ riskWeights: { liability_exposure: 80 }, blockerPenalty: 10 });
+
+      expect(saved.status).toBe(200);
+      expect(saved.body.data).toMatchObject({ version: 1, source: 'portal', blockerPenalty: 10 });
+      expect(saved.body.data.riskWeights.liability_exposure).toBe(80);
+
+      const reverted = await request(app)
+        .delete('/api/settings/scoring-policy')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(reverted.body.data).toMatchObject({ version: 0, source: 'default' });
+
+      const versions = await request(app)
+        .get('/api/settings/scoring-policy/versions')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(versions.body.data.activeVersion).toBe(0);
+      expect(versions.body.data.versions.map((v: { version: number }) => v.version)).toEqual([1]);
+
+      const first = await request(app)
+        .get('/api/settings/scoring-policy/versions/1')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(first.body.data).toMatchObject({ version: 1, blockerPenalty: 10 });
+    });
+
+    it('PUT /api/settings/scoring-policy should reject invalid policies', async () => {
+      const response = await request(app)
+        .put('/api/settings/scoring-policy')
+        .set('x-hubspot-portal-id', 'test-portal')
+        .send({ gradeCutoffs: { A: 50, B: 40 } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toEqual({ code: 'INVALID_POLICY', message: 'gradeCutoffs must increase from A to D' });
+    });
+
+    it('GET /api/settings/scoring-policy/versions/:version should return 404 for unknown versions', async () => {
+      const response = await request(app)
+        .get('/api/settings/scoring-policy/versions/99')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('NOT_FOUND');
+    });
+  });
+
   describe('CRM Card Routes', () => {
     it('GET /api/crm-card should require object ID', async () => {
       const response = await request(app).get('/api/crm-card');
@@ -138,7 +513,7 @@ describe('API Routes', () => {
     it('GET /api/crm-card should return card data', async () => {
       const response = await request(app)
         .get('/api/crm-card')
-        .query({ hs_object_id: '123' });
+        .query({ hs_object_id: '123', portalId: 'test-portal' });
 
       expect(response.status).toBe(200);
       expect(response.body.results).toBeDefined();
@@ -147,10 +522,730 @@ describe('API Routes', () => {
     it('GET /api/crm-card/summary should return summary data', async () => {
       const response = await request(app)
         .get('/api/crm-card/summary')
-        .query({ hs_object_id: '123' });
+        .query({ hs_object_id: '123', portalId: 'test-portal' });
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
+      expect(response.body.data.averageRiskScore).toBeNull();
+    });
+
+    it('GET /api/crm-card/summary should score the deal by document role and flag missing documents', async () => {
+      await getRepository().analyses.save('test-portal', buildAnalysis({
+        documentId: 'summary-msa',
+        documentType: 'msa',
+        riskScore: { overall: 80, grade: 'D' }
+      }));
+      await getRepository().analyses.save('test-portal', buildAnalysis({ documentId: 'summary-nda', documentType: 'nda', riskScore: { overall: 0 } }));
+      await getRepository().deals.add('test-portal', 'deal-summary', 'summary-msa');
+      await getRepository().deals.add('test-portal', 'deal-summary', 'summary-nda');
+
+      const response = await request(app)
+        .get('/api/crm-card/summary')
+        .query({ hs_object_id: 'deal-summary', portalId: 'test-portal', dealstage: 'closedwon' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        dealStage: 'closedwon',
+        documentsCount: 2,
+        overallRiskGrade: 'D',
+        riskScore: 62,
+        averageRiskScore: 40
+      });
+      expect(response.body.data.missingDocuments.map((d: { label: string }) => d.label))
+        .toEqual(['Signed SOW']);
+    });
+  });
+
+  describe('Page Routes', () => {
+    beforeEach(async () => {
+      await getRepository().analyses.save('test-portal', buildAnalysis({
+        documentId: 'page-doc',
+        risks: [{
+          id: 'r1',
+          category: 'liability_exposure',
+          severity: 'high',
+          title: '<script>alert(1)</script>',
+          description: 'Uncapped liability',
+          recommendation: 'Add a cap',
+          evidence: 'liability shall be unlimited',
+          location: { page: 3 }
+        }]
+      }));
+    });
+
+    it('GET /documents/:documentId/details should render the analysis for HubSpot iframes', async () => {
+      const response = await request(app)
+        .get('/documents/page-doc/details')
+        .query({ portalId: 'test-portal' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/html');
+      expect(response.headers['content-security-policy']).toContain('frame-ancestors \'self\' https://*.hubspot.com');
+      expect(response.headers['x-frame-options']).toBeUndefined();
+      expect(response.text).toContain('page-doc.pdf');
+      expect(response.text).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+      expect(response.text).toContain('(page 3)');
+    });
+
+    it('GET /documents/:documentId/details should not show another portal\'s document', async () => {
+      await storeTokens('other-portal', {
+        accessToken: 'other-access-token',
+        refreshToken: 'other-refresh-token',
+        expiresAt: Date.now() + 3600000,
+        portalId: 'other-portal'
+      });
+
+      const response = await request(app)
+        .get('/documents/page-doc/details')
+        .query({ portalId: 'other-portal' });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toContain('Document Not Found');
+    });
+
+    it('GET /documents/:documentId/details should require a connected portal', async () => {
+      const response = await request(app).get('/documents/page-doc/details');
+
+      expect(response.status).toBe(401);
+      expect(response.headers['content-type']).toContain('text/html');
+    });
+
+    it('GET /documents/:documentId/dismiss should ask why the risk does not apply', async () => {
+      const grant = signDismissalGrant({ portalId: 'test-portal', documentId: 'page-doc', riskId: 'r1', user: 'rep@example.com' });
+
+      const response = await request(app)
+        .get('/documents/page-doc/dismiss')
+        .query({ riskId: 'r1', portalId: 'test-portal', grant });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-security-policy']).toContain('frame-ancestors');
+      expect(response.text).toContain('id="dismiss-form"');
+      expect(response.text).toContain('Dismissing as rep@example.com.');
+      expect(response.text).toContain(`var grant = "${grant}";`);
+    });
+
+    it('GET /documents/:documentId/dismiss should require a grant for the risk', async () => {
+      const otherRisk = signDismissalGrant({ portalId: 'test-portal', documentId: 'page-doc', riskId: 'r2', user: 'rep@example.com' });
+
+      const missing = await request(app)
+        .get('/documents/page-doc/dismiss')
+        .query({ riskId: 'r1', portalId: 'test-portal', userEmail: 'ceo@example.com' });
+      const mismatched = await request(app)
+        .get('/documents/page-doc/dismiss')
+        .query({ riskId: 'r1', portalId: 'test-portal', grant: otherRisk });
+
+      expect(missing.status).toBe(403);
+      expect(missing.text).toContain('Link Expired');
+      expect(mismatched.status).toBe(403);
+    });
+
+    it('GET /documents/:documentId/dismiss should return 404 for unknown risks', async () => {
+      const response = await request(app)
+        .get('/documents/page-doc/dismiss')
+        .query({ riskId: 'missing', portalId: 'test-portal' });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toContain('Risk Not Found');
+    });
+
+    it('GET /upload should render the upload form for the deal', async () => {
+      const response = await request(app)
+        .get('/upload')
+        .query({ dealId: '123', portalId: 'test-portal' });
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('id="upload-form"');
+      expect(response.text).toContain('var dealId = "123";');
+    });
+
+    it('GET /upload should require a deal', async () => {
+      const response = await request(app)
+        .get('/upload')
+        .query({ portalId: 'test-portal' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toContain('Deal Required');
+    });
+  });
+
+  describe('Tenant Isolation', () => {
+    const analysis = buildAnalysis({
+      documentId: 'isolated-doc',
+      filename: 'msa.pdf',
+      entities: [{ type: 'party_name', value: 'Acme Corp', confidence: 0.9 }],
+      summary: 'Master services agreement'
+    });
+
+    beforeAll(async () => {
+      await storeTokens('other-portal', {
+        accessToken: 'other-token',
+        refreshToken: 'other-refresh',
+        expiresAt: Date.now() + 3600000,
+        portalId: 'other-portal'
+      });
+    });
+
+    beforeEach(async () => {
+      await getRepository().analyses.save('test-portal', analysis);
+      await getRepository().deals.add('test-portal', 'deal-isolated', 'isolated-doc');
+      await getRepository().jobs.save({
+        id: 'job-isolated',
+        portalId: 'test-portal',
+        dealId: 'deal-isolated',
+        documentId: 'isolated-doc',
+        filename: 'msa.pdf',
+        mimeType: 'application/pdf',
+        filePath: '/srv/uploads/msa.pdf',
+        status: 'completed',
+        attempts: 1,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+      });
+    });
+
+    it.each([
+      ['GET', '/api/documents/isolated-doc'],
+      ['GET', '/api/documents/isolated-doc/risks'],
+      ['GET', '/api/documents/isolated-doc/score'],
+      ['GET', '/api/documents/isolated-doc/entities'],
+      ['GET', '/api/documents/isolated-doc/blockers'],
+      ['GET', '/api/documents/isolated-doc/versions'],
+      ['GET', '/api/documents/isolated-doc/compare'],
+      ['POST', '/api/documents/isolated-doc/reanalyze'],
+      ['POST', '/api/documents/isolated-doc/tasks?dealId=deal-isolated'],
+      ['DELETE', '/api/documents/isolated-doc'],
+      ['GET', '/api/jobs/job-isolated']
+    ])('%s %s should return 404 to another portal', async (method, url) => {
+      const agent = request(app);
+      const call = method === 'GET' ? agent.get(url) : method === 'POST' ? agent.post(url) : agent.delete(url);
+
+      const response = await call.set('x-hubspot-portal-id', 'other-portal');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('NOT_FOUND');
+
+      const owner = await request(app)
+        .get('/api/documents/isolated-doc')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(owner.status).toBe(200);
+      expect(owner.body.data.analyzedAt).toBe(analysis.analyzedAt);
+    });
+
+    it('GET /api/documents/deal/:dealId should only list the portal\'s documents', async () => {
+      const own = await request(app)
+        .get('/api/documents/deal/deal-isolated')
+        .set('x-hubspot-portal-id', 'test-portal');
+      const other = await request(app)
+        .get('/api/documents/deal/deal-isolated')
+        .set('x-hubspot-portal-id', 'other-portal');
+
+      expect(own.body.data.count).toBe(1);
+      expect(other.body.data.count).toBe(0);
+    });
+
+    it('DELETE /api/documents/:id should work for the owning portal and re-sync its deals', async () => {
+      const syncDeals = jest.spyOn(dealProperties, 'syncDeals').mockResolvedValue({ synced: ['deal-isolated'], failed: [] });
+
+      try {
+        const response = await request(app)
+          .delete('/api/documents/isolated-doc')
+          .set('x-hubspot-portal-id', 'test-portal');
+
+        expect(response.status).toBe(200);
+        expect(await getRepository().deals.listDocumentIds('test-portal', 'deal-isolated')).toEqual([]);
+        expect(syncDeals).toHaveBeenCalledWith('test-portal', ['deal-isolated']);
+      } finally {
+        syncDeals.mockRestore();
+      }
+    });
+
+    it('GET /api/crm-card should require portal ID', async () => {
+      const response = await request(app)
+        .get('/api/crm-card')
+        .query({ hs_object_id: 'deal-isolated' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('MISSING_PORTAL_ID');
+    });
+
+    it('GET /api/crm-card should only show the portal\'s documents', async () => {
+      const own = await request(app)
+        .get('/api/crm-card')
+        .query({ hs_object_id: 'deal-isolated', portalId: 'test-portal' });
+      const other = await request(app)
+        .get('/api/crm-card')
+        .query({ hs_object_id: 'deal-isolated', portalId: 'other-portal' });
+
+      expect(JSON.stringify(own.body)).toContain('isolated-doc');
+      expect(JSON.stringify(other.body)).not.toContain('isolated-doc');
+    });
+
+    it('GET /api/crm-card/summary should only count the portal\'s documents', async () => {
+      const own = await request(app)
+        .get('/api/crm-card/summary')
+        .query({ hs_object_id: 'deal-isolated', portalId: 'test-portal' });
+      const other = await request(app)
+        .get('/api/crm-card/summary')
+        .query({ hs_object_id: 'deal-isolated', portalId: 'other-portal' });
+
+      expect(own.body.data.documentsCount).toBe(1);
+      expect(other.body.data.documentsCount).toBe(0);
+    });
+  });
+
+  describe('HubSpot Webhooks', () => {
+    let hubspot: http.Server;
+    let hubspotUrl: string;
+    let originalApiBaseUrl: string;
+    let docx: Buffer;
+    const downloads: string[] = [];
+    const timelineEvents: Array<{ eventTemplateId: string; objectId: string }> = [];
+    const dealUpdates: Array<{ dealId: string; properties: Record<string, string> }> = [];
+    const createdTasks: Array<{ properties: Record<string, string> }> = [];
+
+    beforeAll(async () => {
+      const zip = new JSZip();
+      zip.file('word/document.xml', '<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>' +
+        '<w:p><w:r><w:t>MUTUAL NON-DISCLOSURE AGREEMENT between Acme Corp and Globex Inc, effective January 1, 2024.</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:t>1. Confidentiality. Each party shall keep confidential information secret for 2 years.</w:t></w:r></w:p>' +
+        '</w:body></w:document>');
+      docx = await zip.generateAsync({ type: 'nodebuffer' });
+
+      // Fake HubSpot: the Files API signed-URL endpoint, the signed download itself, timeline events and deal updates
+      hubspot = http.createServer((req, res) => {
+        if (req.url === '/crm/v3/objects/tasks' && req.method === 'POST') {
+          let body = '';
+          req.on('data', chunk => { body += chunk; });
+          req.on('end', () => {
+            createdTasks.push(JSON.parse(body));
+            res.writeHead(201, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ id: `task-${createdTasks.length}`, properties: {}, createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z', archived: false }));
+          });
+          return;
+        }
+
+        const deal = req.url?.match(/^\/crm\/v3\/objects\/deals\/([^/?]+)/);
+        if (deal && req.method === 'PATCH') {
+          let body = '';
+          req.on('data', chunk => { body += chunk; });
+          req.on('end', () => {
+            dealUpdates.push({ dealId: deal[1], properties: JSON.parse(body).properties });
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ id: deal[1], properties: {}, createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z', archived: false }));
+          });
+          return;
+        }
+
+        if (req.url === '/integrators/timeline/v3/events' && req.method === 'POST') {
+          let body = '';
+          req.on('data', chunk => { body += chunk; });
+          req.on('end', () => {
+            timelineEvents.push(JSON.parse(body));
+            res.writeHead(201, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ id: 'event-1', eventTemplateId: '1001', objectId: 'deal-files', tokens: {} }));
+          });
+          return;
+        }
+
+        if (req.url?.startsWith('/download/')) {
+          downloads.push(req.url);
+          res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+          res.end(docx);
+          return;
+        }
+
+        const match = req.url?.match(/^\/files\/v3\/files\/([^/]+)\/signed-url/);
+        if (!match || req.headers.authorization !== 'Bearer test-token') {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ status: 'error', message: 'Not found' }));
+          return;
+        }
+
+        const unsupported = match[1] === 'file-exe';
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          url: `${hubspotUrl}/download/${match[1]}`,
+          name: unsupported ? 'installer' : 'Acme NDA',
+          extension: unsupported ? 'exe' : 'docx',
+          type: 'DOCUMENT',
+          size: docx.length,
+          expiresAt: '2030-01-01T00:00:00.000Z'
+        }));
+      });
+      await new Promise<void>(resolve => hubspot.listen(0, '127.0.0.1', resolve));
+      hubspotUrl = `http://127.0.0.1:${(hubspot.address() as AddressInfo).port}`;
+
+      originalApiBaseUrl = config.hubspot.apiBaseUrl;
+      config.hubspot.apiBaseUrl = hubspotUrl;
+      config.hubspot.timelineEventTemplateId = '1001';
+    });
+
+    afterAll(async () => {
+      config.hubspot.apiBaseUrl = originalApiBaseUrl;
+      config.hubspot.timelineEventTemplateId = '';
+      await new Promise(resolve => hubspot.close(resolve));
+    });
+
+    it('POST /api/webhooks/file-upload should require the file, deal and portal', async () => {
+      const response = await request(app)
+        .post('/api/webhooks/file-upload')
+        .send({ objectId: 'deal-files' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_PAYLOAD');
+    });
+
+    it('POST /api/webhooks/file-upload should download, analyze and attach the file to the deal', async () => {
+      const response = await request(app)
+        .post('/api/webhooks/file-upload')
+        .send({ objectId: 'deal-files', fileId: 'file-123', portalId: 'test-portal' });
+
+      expect(response.status).toBe(202);
+      expect(downloads).toContain('/download/file-123');
+
+      await getJobQueue().onIdle();
+
+      const job = await request(app)
+        .get(`/api/jobs/${response.body.data.jobId}`)
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(job.body.data.status).toBe('completed');
+      expect(job.body.data.result).toMatchObject({ filename: 'Acme NDA.docx', documentType: 'nda', version: 1 });
+
+      const deal = await request(app)
+        .get('/api/documents/deal/deal-files')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(deal.body.data.documents.map((d: DocumentAnalysis) => d.documentId)).toEqual([response.body.data.documentId]);
+      expect(timelineEvents).toEqual([
+        expect.objectContaining({ eventTemplateId: '1001', objectId: 'deal-files' })
+      ]);
+      expect(dealUpdates).toEqual([{
+        dealId: 'deal-files',
+        properties: expect.objectContaining({ di_documents_analyzed: '1', di_risk_grade: expect.any(String) })
+      }]);
+    });
+
+    it('POST /api/webhooks/file-upload should reject unsupported file types', async () => {
+      const response = await request(app)
+        .post('/api/webhooks/file-upload')
+        .send({ objectId: 'deal-files', fileId: 'file-exe', portalId: 'test-portal' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_FILE');
+    });
+
+    it('POST /api/documents/:documentId/tasks should create tasks that HubSpot task updates complete', async () => {
+      await getRepository().analyses.save('test-portal', buildAnalysis({
+        documentId: 'tasks-doc',
+        requiredActions: [
+          { id: 'a1', priority: 'urgent', action: 'Obtain signatures', reason: 'Unsigned', status: 'pending' },
+          { id: 'a2', priority: 'medium', action: 'Add Governing Law', reason: 'Missing', status: 'pending' }
+        ]
+      }));
+      await getRepository().deals.add('test-portal', 'deal-tasks', 'tasks-doc');
+
+      const response = await request(app)
+        .post('/api/documents/tasks-doc/tasks')
+        .set('x-hubspot-portal-id', 'test-portal')
+        .send({ dealId: 'deal-tasks' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.tasksCreated).toBe(2);
+      expect(createdTasks.map(task => task.properties.hs_task_priority)).toEqual(['HIGH', 'MEDIUM']);
+
+      const taskId = response.body.data.requiredActions[0].hubspotTaskId;
+      const update = await request(app)
+        .post('/api/webhooks/task-update')
+        .send([{ objectId: taskId, propertyName: 'hs_task_status', propertyValue: 'COMPLETED', portalId: 'test-portal' }]);
+
+      expect(update.body.data.updated).toBe(1);
+
+      const card = await request(app)
+        .get('/api/crm-card')
+        .query({ hs_object_id: 'deal-tasks', portalId: 'test-portal' });
+
+      expect(card.body.results.find((s: { title: string }) => s.title.startsWith('Required Actions')).title)
+        .toBe('Required Actions (1/2 done)');
+    });
+
+    it('POST /api/documents/:documentId/tasks should require the deal', async () => {
+      const response = await request(app)
+        .post('/api/documents/tasks-doc/tasks')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('MISSING_DEAL_ID');
+    });
+
+    it('POST /api/webhooks/task-update should ignore tasks it did not create', async () => {
+      const response = await request(app)
+        .post('/api/webhooks/task-update')
+        .send([{ objectId: 'someone-elses-task', propertyName: 'hs_task_status', propertyValue: 'COMPLETED', portalId: 'test-portal' }]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.updated).toBe(0);
+    });
+
+    it('POST /api/webhooks/file-upload should fail for portals that are not connected', async () => {
+      const response = await request(app)
+        .post('/api/webhooks/file-upload')
+        .send({ objectId: 'deal-files', fileId: 'file-123', portalId: 'unknown-portal' });
+
+      expect(response.status).toBe(500);
+      expect(response.body.error.code).toBe('PROCESSING_ERROR');
+    });
+  });
+
+  describe('CRM Card Actions', () => {
+    beforeEach(async () => {
+      await getRepository().analyses.save('test-portal', buildAnalysis({
+        documentId: 'decisions-doc',
+        risks: [{
+          id: 'risk-1',
+          category: 'liability_exposure',
+          severity: 'critical',
+          title: 'Unlimited liability',
+          description: 'Liability is not capped',
+          recommendation: 'Add a cap'
+        }],
+        blockers: [{
+          id: 'blocker-1',
+          type: 'missing_signature',
+          title: 'Signatures Required',
+          description: 'Unsigned',
+          requiredAction: 'Obtain signatures'
+        }],
+        riskScore: {
+          overall: 35,
+          breakdown: { missingClauses: 0, unfavorableTerms: 0, complianceIssues: 0, liabilityExposure: 25 },
+          grade: 'B'
+        }
+      }));
+    });
+
+    it('POST /api/webhooks/action should dismiss a risk with who dismissed it and why', async () => {
+      const response = await request(app)
+        .post('/api/webhooks/action?action=dismiss_risk&documentId=decisions-doc&riskId=risk-1')
+        .send({ portalId: 'test-portal', userEmail: 'counsel@example.com', reason: 'Cap agreed in side letter' });
+
+      expect(response.status).toBe(200);
+
+      const document = await request(app)
+        .get('/api/documents/decisions-doc')
+        .set('x-hubspot-portal-id', 'test-portal');
+
+      expect(document.body.data.risks[0].dismissed).toMatchObject({
+        by: 'counsel@example.com',
+        reason: 'Cap agreed in side letter'
+      });
+      expect(document.body.data.riskScore).toMatchObject({ overall: 5, grade: 'A' });
+    });
+
+    it('POST /api/webhooks/action should resolve a blocker', async () => {
+      const response = await request(app)
+        .post('/api/webhooks/action?action=mark_resolved&documentId=decisions-doc&blockerId=blocker-1')
+        .send({ portalId: 'test-portal', userId: 42 });
+
+      expect(response.status).toBe(200);
+
+      const stored = await getRepository().analyses.get('test-portal', 'decisions-doc');
+      expect(stored?.blockers[0].resolved?.by).toBe('42');
+      expect(stored?.riskScore.overall).toBe(30);
+    });
+
+    it('POST /api/webhooks/action should return 404 for unknown findings and other portals', async () => {
+      const unknown = await request(app)
+        .post('/api/webhooks/action?action=dismiss_risk&documentId=decisions-doc&riskId=missing')
+        .send({ portalId: 'test-portal' });
+      const otherPortal = await request(app)
+        .post('/api/webhooks/action?action=mark_resolved&documentId=decisions-doc&blockerId=blocker-1')
+        .send({ portalId: 'other-portal' });
+
+      expect(unknown.status).toBe(404);
+      expect(otherPortal.status).toBe(404);
+      expect(otherPortal.body.error.message).toBe('Blocker not found');
+    });
+
+    it('POST /api/webhooks/action should only accept signatures that cover the query string', async () => {
+      const url = '/api/webhooks/action?action=mark_resolved&documentId=decisions-doc&blockerId=blocker-1';
+      const body = JSON.stringify({ portalId: 'test-portal', userId: 42 });
+      const sign = (source: string) => crypto.createHash('sha256').update(config.hubspot.clientSecret + source).digest('hex');
+      const originalBaseUrl = process.env.APP_BASE_URL;
+      process.env.APP_BASE_URL = 'https://app.example.com';
+
+      try {
+        const v1 = await request(app)
+          .post(url)
+          .set('Content-Type', 'application/json')
+          .set('x-hubspot-signature', sign(body))
+          .send(body);
+        const v2 = await request(app)
+          .post(url)
+          .set('Content-Type', 'application/json')
+          .set('x-hubspot-signature', sign(`POST${process.env.APP_BASE_URL}${url}${body}`))
+          .set('x-hubspot-signature-version', 'v2')
+          .send(body);
+
+        expect(v1.status).toBe(401);
+        expect(v1.body.error.message).toBe('A v2 HubSpot signature is required');
+        expect(v2.status).toBe(200);
+      } finally {
+        if (originalBaseUrl === undefined) {
+          delete process.env.APP_BASE_URL;
+        } else {
+          process.env.APP_BASE_URL = originalBaseUrl;
+        }
+      }
+    });
+
+    it('POST /api/documents/:id/risks/:riskId/dismiss should record the reason as the granted user', async () => {
+      const grant = signDismissalGrant({ portalId: 'test-portal', documentId: 'decisions-doc', riskId: 'risk-1', user: 'counsel@example.com' });
+
+      const response = await request(app)
+        .post('/api/documents/decisions-doc/risks/risk-1/dismiss')
+        .set('x-hubspot-portal-id', 'test-portal')
+        .send({ reason: ' Cap agreed in side letter ', grant, by: 'ceo@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.risk.dismissed).toMatchObject({ by: 'counsel@example.com', reason: 'Cap agreed in side letter' });
+      expect(response.body.data.riskScore).toMatchObject({ overall: 5, grade: 'A' });
+    });
+
+    it('POST /api/documents/:id/risks/:riskId/dismiss should reject missing or mismatched grants', async () => {
+      const otherPortal = signDismissalGrant({ portalId: 'other-portal', documentId: 'decisions-doc', riskId: 'risk-1', user: 'counsel@example.com' });
+
+      const missing = await request(app)
+        .post('/api/documents/decisions-doc/risks/risk-1/dismiss')
+        .set('x-hubspot-portal-id', 'test-portal')
+        .send({ reason: 'Not relevant', by: 'counsel@example.com' });
+      const mismatched = await request(app)
+        .post('/api/documents/decisions-doc/risks/risk-1/dismiss')
+        .set('x-hubspot-portal-id', 'test-portal')
+        .send({ reason: 'Not relevant', grant: otherPortal });
+
+      expect(missing.status).toBe(403);
+      expect(missing.body.error.code).toBe('INVALID_GRANT');
+      expect(mismatched.status).toBe(403);
+      expect((await getRepository().analyses.get('test-portal', 'decisions-doc'))!.risks[0].dismissed).toBeUndefined();
+    });
+
+    it('POST /api/documents/:id/risks/:riskId/dismiss should require a reason', async () => {
+      const grant = (riskId: string) =>
+        signDismissalGrant({ portalId: 'test-portal', documentId: 'decisions-doc', riskId, user: 'counsel@example.com' });
+
+      const missingReason = await request(app)
+        .post('/api/documents/decisions-doc/risks/risk-1/dismiss')
+        .set('x-hubspot-portal-id', 'test-portal')
+        .send({ grant: grant('risk-1') });
+      const unknownRisk = await request(app)
+        .post('/api/documents/decisions-doc/risks/missing/dismiss')
+        .set('x-hubspot-portal-id', 'test-portal')
+        .send({ reason: 'Not relevant', grant: grant('missing') });
+
+      expect(missingReason.status).toBe(400);
+      expect(missingReason.body.error.code).toBe('MISSING_REASON');
+      expect(unknownRisk.status).toBe(404);
+    });
+  });
+
+  describe('Admin Routes', () => {
+    let hubspot: http.Server;
+    let originalApiBaseUrl: string;
+    const templateRequests: string[] = [];
+
+    beforeAll(async () => {
+      // Fake HubSpot: the timeline event template endpoint, authenticated with the developer key
+      hubspot = http.createServer((req, res) => {
+        templateRequests.push(req.url || '');
+        if (req.method !== 'POST' || req.url !== '/integrators/timeline/v3/12345/event-templates?hapikey=dev-key') {
+          res.writeHead(401, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ status: 'error', message: 'Unauthorized' }));
+          return;
+        }
+        req.resume();
+        req.on('end', () => {
+          res.writeHead(201, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ id: '2002', name: 'Document Analysis', objectType: 'deals', tokens: [] }));
+        });
+      });
+      await new Promise<void>(resolve => hubspot.listen(0, '127.0.0.1', resolve));
+
+      originalApiBaseUrl = config.hubspot.apiBaseUrl;
+      config.hubspot.apiBaseUrl = `http://127.0.0.1:${(hubspot.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      config.admin.apiKey = '';
+      config.hubspot.appId = '';
+      config.hubspot.developerApiKey = '';
+      await getRepository().appSettings.save({});
+    });
+
+    afterAll(async () => {
+      config.hubspot.apiBaseUrl = originalApiBaseUrl;
+      await new Promise(resolve => hubspot.close(resolve));
+    });
+
+    it('POST /api/admin/timeline-template should be disabled without an admin key', async () => {
+      const response = await request(app)
+        .post('/api/admin/timeline-template')
+        .set('x-admin-api-key', '');
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('ADMIN_DISABLED');
+    });
+
+    it('POST /api/admin/timeline-template should reject the wrong admin key', async () => {
+      config.admin.apiKey = 'admin-secret';
+
+      const response = await request(app)
+        .post('/api/admin/timeline-template')
+        .set('x-admin-api-key', 'wrong');
+
+      expect(response.status).toBe(401);
+      expect(response.body.error.code).toBe('INVALID_ADMIN_KEY');
+    });
+
+    it('POST /api/admin/timeline-template should require the app credentials', async () => {
+      config.admin.apiKey = 'admin-secret';
+
+      const response = await request(app)
+        .post('/api/admin/timeline-template')
+        .set('x-admin-api-key', 'admin-secret');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('MISSING_CONFIGURATION');
+      expect(templateRequests).toEqual([]);
+    });
+
+    it('POST /api/admin/timeline-template should register the template and use it', async () => {
+      config.admin.apiKey = 'admin-secret';
+      config.hubspot.appId = '12345';
+      config.hubspot.developerApiKey = 'dev-key';
+
+      const response = await request(app)
+        .post('/api/admin/timeline-template')
+        .set('x-admin-api-key', 'admin-secret');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ templateId: '2002' });
+      expect(await getRepository().appSettings.get()).toEqual({ timelineEventTemplateId: '2002' });
+    });
+
+    it('POST /api/admin/timeline-template should report HubSpot failures', async () => {
+      config.admin.apiKey = 'admin-secret';
+      config.hubspot.appId = '12345';
+      config.hubspot.developerApiKey = 'revoked-key';
+
+      const response = await request(app)
+        .post('/api/admin/timeline-template')
+        .set('x-admin-api-key', 'admin-secret');
+
+      expect(response.status).toBe(502);
+      expect(response.body.error.code).toBe('TEMPLATE_REGISTRATION_FAILED');
+      expect(await getRepository().appSettings.get()).toEqual({});
     });
   });
 
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for the action tasks service
+ */
+
+import {
+  carryOverActions,
+  createActionTasks,
+  syncTaskStatus,
+  toActionStatus
+} from '../../src/services/action-tasks.service';
+import { getHubSpotClient } from '../../src/services/oauth.service';
+import { createInMemoryRepository, setRepository } from '../../src/services/repository.service';
+import { Repository, RequiredAction } from '../../src/types';
+import { buildAnalysis } from '../fixtures/analysis';
+
+jest.mock('../../src/services/oauth.service', () => ({
+  getHubSpotClient: jest.fn()
+}));
+
+const mockGetHubSpotClient = getHubSpotClient as jest.MockedFunction<typeof getHubSpotClient>;
+
+const actions: RequiredAction[] = [
+  {
+    id: 'action-1',
+    priority: 'urgent',
+    action: 'Obtain signatures from both parties',
+    reason: 'The agreement is unsigned.',
+    deadline: '2024-03-01',
+    assignedTo: '12345',
+    status: 'pending'
+  },
+  {
+    id: 'action-2',
+    priority: 'medium',
+    action: 'Add Governing Law to the document',
+    reason: 'Disputes have no agreed jurisdiction.',
+    status: 'pending'
+  },
+  {
+    id: 'action-3',
+    priority: 'low',
+    action: 'Review the renewal notice period',
+    reason: 'Notice period is short.',
+    status: 'completed'
+  }
+];
+
+describe('Action Tasks Service', () => {
+  let repository: Repository;
+  let create: jest.Mock;
+
+  beforeEach(async () => {
+    repository = createInMemoryRepository();
+    setRepository(repository);
+    await repository.analyses.save('portal-1', buildAnalysis({ filename: 'msa.pdf', requiredActions: structuredClone(actions) }));
+
+    let nextTaskId = 900;
+    create = jest.fn().mockImplementation(async () => ({ id: String(nextTaskId++) }));
+    mockGetHubSpotClient.mockResolvedValue({ crm: { objects: { tasks: { basicApi: { create } } } } } as never);
+  });
+
+  afterEach(() => {
+    setRepository(null);
+  });
+
+  describe('createActionTasks', () => {
+    it('should create a task on the deal for each open action', async () => {
+      const created = await createActionTasks('portal-1', 'doc-1', 'deal-1');
+
+      expect(created.map(action => action.id)).toEqual(['action-1', 'action-2']);
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(create).toHaveBeenCalledWith({
+        properties: expect.objectContaining({
+          hs_task_subject: 'Obtain signatures from both parties',
+          hs_task_priority: 'HIGH',
+          hs_task_status: 'NOT_STARTED',
+          hs_timestamp: '2024-03-01T00:00:00.000Z',
+          hubspot_owner_id: '12345'
+        }),
+        associations: [{
+          to: { id: 'deal-1' },
+          types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 216 }]
+        }]
+      });
+      expect(create.mock.calls[1][0].properties).toMatchObject({ hs_task_priority: 'MEDIUM' });
+      expect(create.mock.calls[1][0].properties.hubspot_owner_id).toBeUndefined();
+
+      const stored = await repository.analyses.get('portal-1', 'doc-1');
+      expect(stored?.requiredActions?.map(action => action.hubspotTaskId)).toEqual(['900', '901', undefined]);
+      expect(await repository.tasks.get('portal-1', '901')).toEqual({ taskId: '901', documentId: 'doc-1', actionId: 'action-2' });
+    });
+
+    it('should not create a second task for an action', async () => {
+      await createActionTasks('portal-1', 'doc-1', 'deal-1');
+      create.mockClear();
+
+      expect(await createActionTasks('portal-1', 'doc-1', 'deal-1')).toEqual([]);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should keep the tasks created before a failure', async () => {
+      create
+        .mockResolvedValueOnce({ id: '900' })
+        .mockRejectedValueOnce(new Error('Service Unavailable'));
+
+      await expect(createActionTasks('portal-1', 'doc-1', 'deal-1')).rejects.toThrow('Service Unavailable');
+
+      const stored = await repository.analyses.get('portal-1', 'doc-1');
+      expect(stored?.requiredActions?.map(action => action.hubspotTaskId)).toEqual(['900', undefined, undefined]);
+    });
+  });
+
+  describe('syncTaskStatus', () => {
+    it('should update the action a task was created for', async () => {
+      await createActionTasks('portal-1', 'doc-1', 'deal-1');
+
+      expect(await syncTaskStatus('portal-1', '900', 'COMPLETED')).toBe(true);
+      expect(await syncTaskStatus('portal-1', '901', 'IN_PROGRESS')).toBe(true);
+
+      const stored = await repository.analyses.get('portal-1', 'doc-1');
+      expect(stored?.requiredActions?.map(action => action.status)).toEqual(['completed', 'in_progress', 'completed']);
+    });
+
+    it('should ignore tasks it did not create, including other portals\' tasks', async () => {
+      await createActionTasks('portal-1', 'doc-1', 'deal-1');
+
+      expect(await syncTaskStatus('portal-1', 'unknown', 'COMPLETED')).toBe(false);
+      expect(await syncTaskStatus('portal-2', '900', 'COMPLETED')).toBe(false);
+    });
+  });
+
+  describe('carryOverActions', () => {
+    it('should keep progress and tasks of actions the new version still requires', () => {
+      const previous: RequiredAction[] = [
+        { ...actions[0], status: 'in_progress', hubspotTaskId: '900' },
+        { ...actions[1], hubspotTaskId: '901' }
+      ];
+      const next: RequiredAction[] = [
+        { ...actions[0], id: 'new-1' },
+        { ...actions[2], id: 'new-2', status: 'pending' }
+      ];
+
+      expect(carryOverActions(previous, next)).toEqual([
+        { ...actions[0], status: 'in_progress', hubspotTaskId: '900' },
+        { ...actions[2], id: 'new-2', status: 'pending' }
+      ]);
+    });
+
+    it('should keep actions completed for dismissed or resolved findings completed', () => {
+      const previous: RequiredAction[] = [{ ...actions[0], hubspotTaskId: '900' }];
+      const next: RequiredAction[] = [{ ...actions[0], id: 'new-1', status: 'completed' }];
+
+      expect(carryOverActions(previous, next)).toEqual([{ ...actions[0], status: 'completed', hubspotTaskId: '900' }]);
+    });
+  });
+
+  describe('toActionStatus', () => {
+    it('should map HubSpot task statuses', () => {
+      expect(toActionStatus('COMPLETED')).toBe('completed');
+      expect(toActionStatus('NOT_STARTED')).toBe('pending');
+      expect(toActionStatus('WAITING')).toBe('in_progress');
+    });
+  });
+});
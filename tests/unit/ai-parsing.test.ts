@@ -7,14 +7,22 @@ import {
   identifyRisks,
   identifyMissingTerms,
   identifyBlockers,
-  generateSummary
+  generateSummary,
+  chunkText,
+  mergeEntities,
+  mergeRisks
 } from '../../src/services/ai-parsing.service';
-import { DocumentRisk, MissingTerm } from '../../src/types';
+import { config } from '../../src/config';
+import { buildPageLayout } from '../../src/services/page-layout.service';
+import { segmentClauses } from '../../src/services/clause-segmentation.service';
+import { createFixtureProvider } from '../../src/services/llm-provider.service';
+import { DocumentRisk, MissingTerm, RejectedLlmItem } from '../../src/types';
 
 // Mock OpenAI - tests will use pattern-based fallbacks
 jest.mock('../../src/config', () => ({
   config: {
     openai: { apiKey: '' }, // Empty to use fallback methods
+    llm: { provider: 'openai', model: 'gpt-4o-mini', baseUrl: '', apiKey: '' },
     hubspot: {
       clientId: 'test',
       clientSecret: 'test',
@@ -28,6 +36,15 @@ jest.mock('../../src/config', () => ({
   }
 }));
 
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: mockCreate } }
+  }))
+}));
+
 describe('AI Parsing Service', () => {
   describe('extractEntities (pattern-based fallback)', () => {
     it('should extract dates from text', async () => {
@@ -59,6 +76,17 @@ describe('AI Parsing Service', () => {
       expect(entities).toBeDefined();
     });
 
+    it('should locate extracted entities by page and offset', async () => {
+      const text = 'Cover page\n-- 1 of 2 --\n\nThe fee is $25,000.00 per year.\n-- 2 of 2 --';
+      const layout = buildPageLayout(text);
+
+      const entities = await extractEntities(text, layout);
+
+      const amount = entities.find(e => e.type === 'amount')!;
+      expect(amount.location?.page).toBe(2);
+      expect(text.slice(amount.location!.start, amount.location!.end)).toBe('$25,000.00');
+    });
+
     it('should return empty array for empty text', async () => {
       const entities = await extractEntities('');
 
@@ -90,6 +118,7 @@ describe('AI Parsing Service', () => {
       );
       expect(liabilityRisk).toBeDefined();
       expect(liabilityRisk?.severity).toBe('high');
+      expect(liabilityRisk?.location?.start).toBe(text.indexOf('unlimited liability'));
     });
 
     it('should not flag present clauses as missing', async () => {
@@ -131,6 +160,55 @@ describe('AI Parsing Service', () => {
       expect(missingScope).toBeDefined();
     });
 
+    it('should flag sections whose body is only a placeholder', async () => {
+      const text = [
+        'This agreement has an effective date of January 1, 2024 and a term of one year.',
+        '1. Payment Terms',
+        'TBD',
+        '2. Termination',
+        'Either party may terminate on notice. Signed by both parties.'
+      ].join('\n');
+      const clauses = segmentClauses({ text, pages: 1, metadata: {}, confidence: 1 });
+
+      const missingTerms = await identifyMissingTerms(text, 'contract', clauses);
+
+      const payment = missingTerms.find(t => t.term === 'Payment Terms');
+      expect(payment?.clauseId).toBe('clause-1');
+      expect(payment?.description).toContain('no substantive content');
+      expect(missingTerms.find(t => t.term === 'Termination Clause')).toBeUndefined();
+    });
+
+    it('should not flag headings whose content sits in their subclauses', async () => {
+      const text = [
+        'This agreement has an effective date of January 1, 2024 and a term of one year.',
+        '1. Payment Terms',
+        '1.1 Fees are due within 30 days of invoice.',
+        '2. Termination',
+        '2.1 Either party may terminate this agreement on 30 days notice.',
+        '2.2 Signed by both parties.'
+      ].join('\n');
+      const clauses = segmentClauses({ text, pages: 1, metadata: {}, confidence: 1 });
+
+      const missingTerms = await identifyMissingTerms(text, 'contract', clauses);
+
+      expect(missingTerms).toEqual([]);
+    });
+
+    it('should only flag the term a placeholder heading names', async () => {
+      const text = [
+        'This agreement has an effective date of January 1, 2024 and a term of one year.',
+        '1. Payment Terms',
+        '[to be agreed]',
+        '2. Termination',
+        '2.1 Either party may terminate on notice. Signed by both parties.'
+      ].join('\n');
+      const clauses = segmentClauses({ text, pages: 1, metadata: {}, confidence: 1 });
+
+      const missingTerms = await identifyMissingTerms(text, 'contract', clauses);
+
+      expect(missingTerms.map(t => t.term)).toEqual(['Payment Terms']);
+    });
+
     it('should identify missing confidential info definition in NDA', async () => {
       const text = 'The parties agree to keep information secret.';
 
@@ -219,4 +297,201 @@ describe('AI Parsing Service', () => {
       expect(summary).toContain('words');
     });
   });
+
+  describe('chunkText', () => {
+    it('should return a single chunk for short text', () => {
+      expect(chunkText('Short document.')).toEqual([{ text: 'Short document.', start: 0 }]);
+    });
+
+    it('should cover long text with overlapping chunks at paragraph boundaries', () => {
+      const paragraph = 'The parties agree to the following terms and conditions. '.repeat(10);
+      const text = Array.from({ length: 40 }, () => paragraph).join('\n\n');
+
+      const chunks = chunkText(text, 8000, 500);
+
+      expect(chunks.length).toBeGreaterThan(2);
+      chunks.forEach(chunk => {
+        expect(chunk.text.length).toBeLessThanOrEqual(8000);
+        expect(text.slice(chunk.start, chunk.start + chunk.text.length)).toBe(chunk.text);
+      });
+      expect(chunks[0].text.endsWith('\n\n')).toBe(true);
+      expect(chunks[1].start).toBeLessThan(chunks[0].text.length);
+      const last = chunks[chunks.length - 1];
+      expect(last.start + last.text.length).toBe(text.length);
+    });
+  });
+
+  describe('mergeEntities / mergeRisks', () => {
+    it('should dedupe entities keeping the highest confidence', () => {
+      const merged = mergeEntities([
+        { type: 'amount', value: '$10,000', confidence: 0.6, location: { start: 5, end: 12 } },
+        { type: 'amount', value: ' $10,000 ', confidence: 0.9 },
+        { type: 'date', value: '$10,000', confidence: 0.5 }
+      ]);
+
+      expect(merged).toHaveLength(2);
+      expect(merged[0]).toMatchObject({ confidence: 0.9, location: { start: 5, end: 12 } });
+    });
+
+    it('should dedupe risks keeping the highest severity', () => {
+      const base = {
+        category: 'liability_exposure' as const,
+        title: 'Uncapped Liability',
+        description: 'd',
+        recommendation: 'r'
+      };
+
+      const merged = mergeRisks([
+        { ...base, id: 'a', severity: 'medium', relatedClauses: ['Section 9'] },
+        { ...base, id: 'b', severity: 'critical', title: 'uncapped liability', relatedClauses: ['Section 9.2'] }
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0]).toMatchObject({
+        id: 'a',
+        severity: 'critical',
+        relatedClauses: ['Section 9', 'Section 9.2']
+      });
+    });
+  });
+
+  describe('long documents (AI enabled)', () => {
+    const filler = 'The supplier shall provide the services described in the order form. '.repeat(8);
+    const text = Array.from({ length: 30 }, (_, i) => `${i + 1}. Clause\n${filler}`).join('\n\n')
+      + '\n\n31. Liability\nThe supplier accepts unlimited liability for all claims.';
+
+    beforeAll(() => {
+      config.openai.apiKey = 'test-key';
+    });
+
+    afterAll(() => {
+      config.openai.apiKey = '';
+    });
+
+    beforeEach(() => {
+      mockCreate.mockReset();
+    });
+
+    it('should analyze every chunk and merge the risks', async () => {
+      mockCreate.mockImplementation(async ({ messages }) => {
+        const chunk: string = messages[1].content;
+        const risks = [{ category: 'legal_ambiguity', severity: 'low', title: 'Vague services', description: 'd', recommendation: 'r' }];
+        if (chunk.includes('unlimited liability')) {
+          risks.push({ category: 'liability_exposure', severity: 'critical', title: 'Unlimited liability', description: 'd', recommendation: 'r', relatedClauses: ['unlimited liability'] } as typeof risks[0]);
+        }
+        return { choices: [{ message: { content: JSON.stringify({ risks }) } }] };
+      });
+
+      const risks = await identifyRisks(text, 'msa');
+
+      expect(mockCreate.mock.calls.length).toBe(chunkText(text).length);
+      expect(risks.filter(r => r.title === 'Vague services')).toHaveLength(1);
+      const liability = risks.find(r => r.category === 'liability_exposure');
+      expect(liability).toBeDefined();
+      expect(liability!.location!.start).toBe(text.indexOf('unlimited liability'));
+    });
+
+    it('should dedupe entities seen in overlapping chunks', async () => {
+      mockCreate.mockResolvedValue({
+        choices: [{ message: { content: JSON.stringify({ entities: [{ type: 'party_name', value: 'supplier', confidence: 0.8 }] }) } }]
+      });
+
+      const entities = await extractEntities(text);
+
+      expect(entities).toHaveLength(1);
+    });
+
+    it('should summarize parts and combine them', async () => {
+      mockCreate.mockImplementation(async ({ messages }) => ({
+        choices: [{ message: { content: messages[1].content.startsWith('Combine') ? 'Final summary.' : 'Part summary.' } }]
+      }));
+
+      const summary = await generateSummary(text, 'msa');
+
+      expect(summary).toBe('Final summary.');
+      const lastCall = mockCreate.mock.calls[mockCreate.mock.calls.length - 1][0];
+      expect(lastCall.messages[1].content).toContain(`Part ${chunkText(text).length}: Part summary.`);
+    });
+  });
+
+  describe('with an explicit provider', () => {
+    const provider = createFixtureProvider([
+      { match: 'Extract entities', response: { entities: [{ type: 'party_name', value: 'Acme Corp', confidence: 0.95 }] } },
+      { match: 'for risks', response: { risks: [{ category: 'payment_risk', severity: 'medium', title: 'Late fees', description: 'd', recommendation: 'r' }] } },
+      { match: 'Summarize', response: 'Acme Corp supplies services.' }
+    ]);
+    const text = 'This Agreement is between Acme Corp and Globex Inc.';
+
+    it('should use the provider even without an OpenAI key', async () => {
+      const entities = await extractEntities(text, undefined, provider);
+      const risks = await identifyRisks(text, 'contract', undefined, provider);
+      const summary = await generateSummary(text, 'contract', provider);
+
+      expect(entities).toEqual([
+        expect.objectContaining({ type: 'party_name', value: 'Acme Corp', location: { start: 26, end: 35 } })
+      ]);
+      expect(risks[0]).toMatchObject({ category: 'payment_risk', title: 'Late fees' });
+      expect(summary).toBe('Acme Corp supplies services.');
+    });
+
+    it('should ask the model to repair invalid items and record what stays invalid', async () => {
+      const risk = { category: 'payment_risk', severity: 'high', title: 'Late fees', description: 'd', recommendation: 'r' };
+      const repairing = createFixtureProvider([
+        { match: 'did not match the required schema', response: { risks: [risk, { ...risk, title: 'Still bad', severity: 'urgent' }] } },
+        { match: 'for risks', response: { risks: [{ ...risk, category: 'financial' }, { ...risk, title: 'Still bad', severity: 'urgent' }] } }
+      ]);
+      const rejected: RejectedLlmItem[] = [];
+
+      const risks = await identifyRisks(text, 'contract', undefined, repairing, rejected);
+
+      expect(risks.map(r => r.title)).toEqual(['Late fees']);
+      expect(rejected).toEqual([{
+        kind: 'risk',
+        item: expect.objectContaining({ severity: 'urgent' }),
+        errors: [expect.stringContaining('severity must be one of')],
+        chunk: 0
+      }]);
+    });
+
+    it('should drop risks whose evidence is not in the document', async () => {
+      const risk = { category: 'liability_exposure', severity: 'critical', description: 'd', recommendation: 'r' };
+      const inventing = createFixtureProvider([{
+        match: 'for risks',
+        response: { risks: [
+          { ...risk, title: 'Unlimited liability', evidence: 'Supplier accepts unlimited liability' },
+          { ...risk, title: 'Parties', severity: 'low', evidence: 'between Acme Corp and Globex' }
+        ] }
+      }]);
+      const rejected: RejectedLlmItem[] = [];
+
+      const risks = await identifyRisks(text, 'contract', undefined, inventing, rejected);
+
+      expect(risks).toEqual([expect.objectContaining({
+        title: 'Parties',
+        evidence: 'between Acme Corp and Globex',
+        verified: true,
+        location: { start: 18, end: 46 }
+      })]);
+      expect(rejected).toEqual([expect.objectContaining({
+        kind: 'risk',
+        errors: ['evidence quote not found in document']
+      })]);
+    });
+
+    it('should record unusable responses without throwing', async () => {
+      const broken = createFixtureProvider([{ match: 'Extract entities', response: 'not json' }]);
+      const rejected: RejectedLlmItem[] = [];
+
+      const entities = await extractEntities(text, undefined, broken, rejected);
+
+      expect(entities).toEqual([]);
+      expect(rejected).toEqual([{ kind: 'entity', item: null, errors: ['Response is not valid JSON'], chunk: 0 }]);
+    });
+
+    it('should fall back to rules when passed no provider', async () => {
+      const entities = await extractEntities('Total fee: $5,000', undefined, null);
+
+      expect(entities[0]).toMatchObject({ type: 'amount', value: '$5,000' });
+    });
+  });
 });
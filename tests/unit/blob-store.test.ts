@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the blob store service
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createFileBlobStore, deleteUnreferencedBlob, setBlobStore } from '../../src/services/blob-store.service';
+import { createInMemoryRepository, setRepository } from '../../src/services/repository.service';
+import { AnalysisJob, DocumentAnalysis } from '../../src/types';
+
+describe('Blob Store Service', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'blob-store-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  function writeUpload(name: string, content: string): string {
+    const filePath = path.join(directory, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  it('should store files under the SHA-256 of their content', async () => {
+    const store = createFileBlobStore(path.join(directory, 'blobs'));
+
+    const hash = await store.put(writeUpload('a.pdf', 'contract body'));
+
+    expect(hash).toBe(createHash('sha256').update('contract body').digest('hex'));
+    const stored = await store.getPath(hash);
+    expect(stored).toBe(path.join(directory, 'blobs', hash.slice(0, 2), hash));
+    expect(fs.readFileSync(stored!, 'utf-8')).toBe('contract body');
+  });
+
+  it('should store identical content once', async () => {
+    const store = createFileBlobStore(path.join(directory, 'blobs'));
+
+    const first = await store.put(writeUpload('a.pdf', 'same'));
+    const second = await store.put(writeUpload('b.pdf', 'same'));
+
+    expect(second).toBe(first);
+    expect(fs.readdirSync(path.join(directory, 'blobs', first.slice(0, 2)))).toEqual([first]);
+  });
+
+  it('should keep the blob after the upload is removed', async () => {
+    const store = createFileBlobStore(path.join(directory, 'blobs'));
+    const upload = writeUpload('a.pdf', 'original');
+
+    const hash = await store.put(upload);
+    fs.unlinkSync(upload);
+
+    expect(await store.getPath(hash)).toBeDefined();
+  });
+
+  it('should not resolve unknown or malformed hashes', async () => {
+    const store = createFileBlobStore(path.join(directory, 'blobs'));
+
+    expect(await store.getPath('a'.repeat(64))).toBeUndefined();
+    expect(await store.getPath('../../etc/passwd')).toBeUndefined();
+  });
+
+  it('should delete stored files', async () => {
+    const store = createFileBlobStore(path.join(directory, 'blobs'));
+    const hash = await store.put(writeUpload('a.pdf', 'original'));
+
+    expect(await store.delete(hash)).toBe(true);
+    expect(await store.getPath(hash)).toBeUndefined();
+    expect(await store.delete(hash)).toBe(false);
+    expect(await store.delete('../../etc/passwd')).toBe(false);
+  });
+
+  describe('deleteUnreferencedBlob', () => {
+    afterEach(() => {
+      setBlobStore(null);
+      setRepository(null);
+    });
+
+    it('should keep a file that another document still refers to', async () => {
+      const store = createFileBlobStore(path.join(directory, 'blobs'));
+      const repository = createInMemoryRepository();
+      setBlobStore(store);
+      setRepository(repository);
+      const hash = await store.put(writeUpload('a.pdf', 'shared'));
+      // Only a prior version of the other document still has the file
+      await repository.analyses.save('portal-2', { documentId: 'doc-2' } as DocumentAnalysis);
+      await repository.analyses.archive('portal-2', { documentId: 'doc-2', blobHash: hash } as DocumentAnalysis);
+
+      expect(await deleteUnreferencedBlob(hash)).toBe(false);
+      expect(await store.getPath(hash)).toBeDefined();
+
+      await repository.analyses.delete('portal-2', 'doc-2');
+
+      expect(await deleteUnreferencedBlob(hash)).toBe(true);
+      expect(await store.getPath(hash)).toBeUndefined();
+    });
+
+    it('should keep a file an unfinished job still needs', async () => {
+      const store = createFileBlobStore(path.join(directory, 'blobs'));
+      const repository = createInMemoryRepository();
+      setBlobStore(store);
+      setRepository(repository);
+      const hash = await store.put(writeUpload('a.pdf', 'queued'));
+      const job: AnalysisJob = {
+        id: 'job-1',
+        portalId: 'portal-1',
+        documentId: 'doc-1',
+        filename: 'a.pdf',
+        mimeType: 'application/pdf',
+        blobHash: hash,
+        status: 'queued',
+        attempts: 0,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+      };
+      await repository.jobs.save(job);
+
+      expect(await deleteUnreferencedBlob(hash)).toBe(false);
+      expect(await store.getPath(hash)).toBeDefined();
+
+      await repository.jobs.save({ ...job, status: 'failed' });
+
+      expect(await deleteUnreferencedBlob(hash)).toBe(true);
+    });
+  });
+});
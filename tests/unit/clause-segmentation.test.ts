@@ -0,0 +1,162 @@
+/**
+ * Unit tests for the clause segmentation service
+ */
+
+import {
+  segmentClauses,
+  findClauseAt,
+  findClauseByReference,
+  assignClauseIds,
+  getClauseBody
+} from '../../src/services/clause-segmentation.service';
+import { buildPageLayout } from '../../src/services/page-layout.service';
+import { ParsedDocument, DocumentRisk, ExtractedEntity } from '../../src/types';
+
+function parse(text: string): ParsedDocument {
+  return {
+    text,
+    pages: 1,
+    metadata: {},
+    confidence: 1,
+    pageLayout: buildPageLayout(text)
+  };
+}
+
+const MSA_TEXT = [
+  'MASTER SERVICES AGREEMENT',
+  'This Agreement is made between Acme Corp and Globex Inc.',
+  '1. Definitions',
+  '"Services" means the hosted platform.',
+  '2. Fees and Payment',
+  '2.1 Invoices. Customer shall pay invoices within 30 days.',
+  '2.2 Late Payment. Overdue amounts accrue interest.',
+  '(a) Interest accrues at 1.5% per month.',
+  '(b) Supplier may suspend the Services.',
+  'Section 3 - Limitation of Liability',
+  'Neither party shall be liable for indirect damages.',
+  'Section 3 of this Agreement survives termination.'
+].join('\n');
+
+describe('Clause Segmentation Service', () => {
+  describe('segmentClauses', () => {
+    const clauses = segmentClauses(parse(MSA_TEXT));
+
+    it('should split numbered sections and clauses', () => {
+      expect(clauses.map(c => c.id)).toEqual([
+        'clause-master-services-agreement',
+        'clause-1',
+        'clause-2',
+        'clause-2.1',
+        'clause-2.2',
+        'clause-2.2(a)',
+        'clause-2.2(b)',
+        'clause-3'
+      ]);
+    });
+
+    it('should extract headings and numbers', () => {
+      const invoices = clauses.find(c => c.id === 'clause-2.1')!;
+
+      expect(invoices.number).toBe('2.1');
+      expect(invoices.heading).toBe('Invoices');
+      expect(invoices.level).toBe(2);
+      expect(clauses.find(c => c.id === 'clause-3')!.heading).toBe('Limitation of Liability');
+    });
+
+    it('should record offsets into the document text', () => {
+      const liability = clauses.find(c => c.id === 'clause-3')!;
+
+      expect(MSA_TEXT.slice(liability.start, liability.end)).toBe(liability.text);
+      expect(liability.text).toContain('Neither party shall be liable');
+      expect(liability.page).toBe(1);
+    });
+
+    it('should link clauses to their parents', () => {
+      expect(clauses.find(c => c.id === 'clause-2.1')!.parentId).toBe('clause-2');
+      expect(clauses.find(c => c.id === 'clause-2.2(a)')!.parentId).toBe('clause-2.2');
+    });
+
+    it('should not treat cross-references as section starts', () => {
+      const liability = clauses.find(c => c.id === 'clause-3')!;
+
+      expect(liability.text).toContain('Section 3 of this Agreement survives termination.');
+    });
+
+    it('should keep text before the first section as a preamble', () => {
+      const preamble = segmentClauses(parse('Recitals go here.\n1. Scope\nThe scope.'))[0];
+
+      expect(preamble).toMatchObject({ id: 'preamble', level: 0, text: 'Recitals go here.' });
+    });
+
+    it('should use DOCX heading paragraphs as section starts', () => {
+      const parsed = parse('Intro text.\nPayment Terms\nPay within 30 days.');
+      parsed.paragraphs = [
+        { kind: 'paragraph', text: 'Intro text.', page: 1 },
+        { kind: 'heading', text: 'Payment Terms', page: 1, level: 1 },
+        { kind: 'paragraph', text: 'Pay within 30 days.', page: 1 }
+      ];
+
+      const result = segmentClauses(parsed);
+
+      expect(result.map(c => c.id)).toEqual(['preamble', 'clause-payment-terms']);
+    });
+
+    it('should strip page markers from clause text', () => {
+      const text = '1. Term\nThe term is one year\n-- 1 of 2 --\n\nand renews annually.\n-- 2 of 2 --';
+
+      const [term] = segmentClauses(parse(text));
+
+      expect(term.text).not.toContain('-- 1 of 2 --');
+      expect(term.text).toContain('renews annually');
+    });
+  });
+
+  describe('findClauseAt / findClauseByReference', () => {
+    const clauses = segmentClauses(parse(MSA_TEXT));
+
+    it('should find the clause containing an offset', () => {
+      const offset = MSA_TEXT.indexOf('indirect damages');
+
+      expect(findClauseAt(clauses, offset)?.id).toBe('clause-3');
+    });
+
+    it('should resolve references by number or heading', () => {
+      expect(findClauseByReference(clauses, 'Section 2.2')?.id).toBe('clause-2.2');
+      expect(findClauseByReference(clauses, 'limitation of liability')?.id).toBe('clause-3');
+      expect(findClauseByReference(clauses, 'Force Majeure')).toBeUndefined();
+    });
+  });
+
+  describe('assignClauseIds', () => {
+    const clauses = segmentClauses(parse(MSA_TEXT));
+
+    it('should assign clause IDs by location and related clause references', () => {
+      const start = MSA_TEXT.indexOf('30 days');
+      const entities: ExtractedEntity[] = [
+        { type: 'term_duration', value: '30 days', confidence: 0.7, location: { start, end: start + 7 } }
+      ];
+      const risks: DocumentRisk[] = [{
+        id: 'r1',
+        category: 'liability_exposure',
+        severity: 'high',
+        title: 'Broad exclusion',
+        description: 'Exclusion is broad',
+        recommendation: 'Narrow it',
+        relatedClauses: ['Section 3']
+      }];
+
+      const result = assignClauseIds(clauses, entities, risks);
+
+      expect(result.entities[0].clauseId).toBe('clause-2.1');
+      expect(result.risks[0].clauseId).toBe('clause-3');
+    });
+  });
+
+  describe('getClauseBody', () => {
+    it('should drop the number and heading', () => {
+      const [, invoices] = segmentClauses(parse('1. Fees\n1.1 Invoices. Pay within 30 days.'));
+
+      expect(getClauseBody(invoices)).toBe('Pay within 30 days.');
+    });
+  });
+});
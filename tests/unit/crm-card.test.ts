@@ -3,6 +3,7 @@
  */
 
 import { generateCrmCardData } from '../../src/services/crm-card.service';
+import { verifyDismissalGrant } from '../../src/services/finding-decisions.service';
 import { DocumentAnalysis } from '../../src/types';
 
 describe('CRM Card Service', () => {
@@ -215,5 +216,169 @@ describe('CRM Card Service', () => {
       const insightsSection = cardData.results.find(s => s.title === 'Key Insights');
       expect(insightsSection!.properties.length).toBeLessThanOrEqual(5);
     });
+
+    it('should offer to dismiss open risks and resolve open blockers', () => {
+      const decision = { by: 'counsel@example.com', at: '2024-02-01T00:00:00.000Z' };
+      const analysis: DocumentAnalysis = {
+        documentId: 'doc-123',
+        filename: 'contract.pdf',
+        documentType: 'contract',
+        uploadedAt: '2024-01-15T10:00:00Z',
+        analyzedAt: '2024-01-15T10:01:00Z',
+        entities: [],
+        risks: [
+          { id: 'r1', category: 'liability_exposure', severity: 'high', title: 'High Liability', description: 'Uncapped', recommendation: 'Cap it' },
+          { id: 'r2', category: 'payment_risk', severity: 'low', title: 'Late Fees', description: 'None', recommendation: 'Add', dismissed: decision }
+        ],
+        missingTerms: [],
+        blockers: [
+          { id: 'b1', type: 'missing_signature', title: 'Signatures Required', description: 'Unsigned', requiredAction: 'Sign', resolved: decision },
+          { id: 'b2', type: 'legal_review', title: 'Legal Review', description: 'Pending', requiredAction: 'Review' }
+        ],
+        riskScore: {
+          overall: 30,
+          grade: 'B',
+          breakdown: {
+            missingClauses: 0,
+            unfavorableTerms: 0,
+            complianceIssues: 0,
+            liabilityExposure: 25
+          }
+        },
+        summary: 'Test'
+      };
+
+      const cardData = generateCrmCardData(analysis, '123', 'http://localhost:3000', 'portal-1', undefined, 'rep@example.com');
+
+      const insights = cardData.results.find(s => s.title === 'Key Insights')!;
+      expect(insights.properties.map(p => p.label)).toEqual(['HIGH: High Liability']);
+      expect(insights.actions).toEqual([expect.objectContaining({
+        type: 'IFRAME',
+        uri: expect.stringMatching(/^http:\/\/localhost:3000\/documents\/doc-123\/dismiss\?riskId=r1&portalId=portal-1&grant=/),
+        label: 'Dismiss: High Liability'
+      })]);
+      const grant = new URL(insights.actions![0].uri).searchParams.get('grant');
+      expect(verifyDismissalGrant(grant)).toMatchObject({
+        portalId: 'portal-1', documentId: 'doc-123', riskId: 'r1', user: 'rep@example.com'
+      });
+
+      const blockers = cardData.results.find(s => s.title === 'Deal Blockers')!;
+      expect(blockers.properties.map(p => p.label)).toEqual(['Legal Review']);
+      expect(blockers.actions!.map(a => a.uri)).toEqual([
+        'http://localhost:3000/api/webhooks/action?action=mark_resolved&blockerId=b2&documentId=doc-123'
+      ]);
+    });
+
+    it('should show the progress of stored required actions', () => {
+      const analysis: DocumentAnalysis = {
+        documentId: 'doc-123',
+        filename: 'contract.pdf',
+        documentType: 'contract',
+        uploadedAt: '2024-01-15T10:00:00Z',
+        analyzedAt: '2024-01-15T10:01:00Z',
+        entities: [],
+        risks: [],
+        missingTerms: [],
+        blockers: [],
+        riskScore: {
+          overall: 20,
+          grade: 'A',
+          breakdown: {
+            missingClauses: 0,
+            unfavorableTerms: 0,
+            complianceIssues: 0,
+            liabilityExposure: 0
+          }
+        },
+        summary: 'Test',
+        requiredActions: [
+          { id: 'a1', priority: 'urgent', action: 'Obtain signatures', reason: 'Unsigned', status: 'completed', hubspotTaskId: '900' },
+          { id: 'a2', priority: 'medium', action: 'Add Governing Law', reason: 'Missing', status: 'in_progress', hubspotTaskId: '901' },
+          { id: 'a3', priority: 'low', action: 'Review notice period', reason: 'Short', status: 'pending' }
+        ]
+      };
+
+      const cardData = generateCrmCardData(analysis, '123', 'http://localhost:3000');
+
+      const actionsSection = cardData.results.find(s => s.title.startsWith('Required Actions'));
+      expect(actionsSection!.title).toBe('Required Actions (1/3 done)');
+      expect(actionsSection!.properties.map(p => p.label)).toEqual(['[MEDIUM] In progress', '[LOW]', '[URGENT] Done']);
+      expect(cardData.secondaryActions!.map(a => a.uri)).toContain('http://localhost:3000/api/documents/doc-123/tasks?dealId=123');
+
+      analysis.requiredActions![2].hubspotTaskId = '902';
+      const withTasks = generateCrmCardData(analysis, '123', 'http://localhost:3000');
+
+      expect(withTasks.secondaryActions!.map(a => a.label)).not.toContain('Create HubSpot Tasks');
+
+      analysis.documentId = 'doc/1?x';
+      analysis.requiredActions![2].hubspotTaskId = undefined;
+      const encoded = generateCrmCardData(analysis, 'deal&1', 'http://localhost:3000');
+      expect(encoded.secondaryActions!.map(a => a.uri))
+        .toContain('http://localhost:3000/api/documents/doc%2F1%3Fx/tasks?dealId=deal%261');
+    });
+
+    it('should explain the grade with the largest contributions', () => {
+      const analysis: DocumentAnalysis = {
+        documentId: 'doc-123',
+        filename: 'contract.pdf',
+        documentType: 'contract',
+        uploadedAt: '2024-01-15T10:00:00Z',
+        analyzedAt: '2024-01-15T10:01:00Z',
+        entities: [],
+        risks: [{
+          id: 'r1',
+          category: 'liability_exposure',
+          severity: 'critical',
+          title: 'Unlimited liability',
+          description: 'Liability is not capped',
+          recommendation: 'Add a cap'
+        }],
+        missingTerms: [],
+        blockers: [{ id: 'b1', type: 'missing_signature', title: 'Signatures Required', description: 'Unsigned', requiredAction: 'Sign' }],
+        riskScore: {
+          overall: 35,
+          breakdown: { missingClauses: 0, unfavorableTerms: 0, complianceIssues: 0, liabilityExposure: 25 },
+          grade: 'B'
+        },
+        summary: 'Test'
+      };
+
+      const cardData = generateCrmCardData(analysis, '123', 'http://localhost:3000');
+
+      const why = cardData.results.find(s => s.title === 'Why is this a B?');
+      expect(why!.properties).toEqual([
+        { label: 'Score', dataType: 'STRING', value: 'Grade B: risk score 35 of 100, in the B range of 21-40.' },
+        { label: '+30 points', dataType: 'STRING', value: 'Critical Risk "Unlimited liability" (liability exposure): 30 x 1 = 30 points' },
+        { label: '+5 points', dataType: 'STRING', value: 'Blocker "Signatures Required" (missing signature): 5 points' }
+      ]);
+    });
+
+    it('should pass the portal to the iframe pages', () => {
+      const empty = generateCrmCardData(null, '123', 'http://localhost:3000', 'portal 1');
+      expect(empty.results[0].actions![0].uri).toBe('http://localhost:3000/upload?dealId=123&portalId=portal%201');
+
+      const analysis: DocumentAnalysis = {
+        documentId: 'doc-123',
+        filename: 'contract.pdf',
+        documentType: 'contract',
+        uploadedAt: '2024-01-15T10:00:00Z',
+        analyzedAt: '2024-01-15T10:01:00Z',
+        entities: [],
+        risks: [],
+        missingTerms: [],
+        blockers: [],
+        riskScore: {
+          overall: 0,
+          breakdown: { missingClauses: 0, unfavorableTerms: 0, complianceIssues: 0, liabilityExposure: 0 },
+          grade: 'A'
+        },
+        summary: 'Test'
+      };
+
+      const cardData = generateCrmCardData(analysis, '123', 'http://localhost:3000', 'portal-1');
+
+      expect(cardData.primaryAction!.uri).toBe('http://localhost:3000/documents/doc-123/details?portalId=portal-1');
+      expect(cardData.secondaryActions!.map(a => a.uri)).toContain('http://localhost:3000/upload?dealId=123&portalId=portal-1');
+    });
   });
 });
@@ -0,0 +1,219 @@
+/**
+ * Unit tests for the deal properties service
+ */
+
+import {
+  buildDealProperties,
+  ensureDealProperties,
+  syncDocumentDeals,
+  syncDeals,
+  DEAL_PROPERTIES
+} from '../../src/services/deal-properties.service';
+import { getHubSpotClient, isAuthenticated } from '../../src/services/oauth.service';
+import { createInMemoryRepository, setRepository } from '../../src/services/repository.service';
+import { DealBlocker, DocumentRisk, Repository } from '../../src/types';
+import { buildAnalysis } from '../fixtures/analysis';
+
+jest.mock('../../src/services/oauth.service', () => ({
+  getHubSpotClient: jest.fn(),
+  isAuthenticated: jest.fn()
+}));
+
+const mockGetHubSpotClient = getHubSpotClient as jest.MockedFunction<typeof getHubSpotClient>;
+const mockIsAuthenticated = isAuthenticated as jest.MockedFunction<typeof isAuthenticated>;
+
+const risk: DocumentRisk = {
+  id: 'r1',
+  category: 'liability_exposure',
+  severity: 'high',
+  title: 'Uncapped liability',
+  description: 'Liability is not capped.',
+  recommendation: 'Add a cap.'
+};
+
+const blocker: DealBlocker = {
+  id: 'b1',
+  type: 'missing_signature',
+  title: 'Missing signature block',
+  description: 'The agreement cannot be executed.',
+  requiredAction: 'Add a signature block.'
+};
+
+function fakeClient() {
+  return {
+    crm: {
+      properties: {
+        groupsApi: { create: jest.fn().mockResolvedValue({}) },
+        coreApi: { create: jest.fn().mockResolvedValue({}) }
+      },
+      deals: {
+        basicApi: { update: jest.fn().mockResolvedValue({}) }
+      }
+    }
+  };
+}
+
+describe('Deal Properties Service', () => {
+  let repository: Repository;
+  let client: ReturnType<typeof fakeClient>;
+
+  beforeEach(() => {
+    repository = createInMemoryRepository();
+    setRepository(repository);
+    client = fakeClient();
+    mockGetHubSpotClient.mockReset();
+    mockGetHubSpotClient.mockResolvedValue(client as never);
+    mockIsAuthenticated.mockResolvedValue(true);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  describe('buildDealProperties', () => {
+    it('should aggregate scores and counts and take key terms from the newest document', () => {
+      const msa = buildAnalysis({
+        documentId: 'msa',
+        riskScore: { overall: 30 },
+        risks: [risk],
+        keyTerms: {
+          endDate: '2026-12-31',
+          totalContractValue: { amount: 120000, currency: 'USD' }
+        }
+      });
+      const sow = buildAnalysis({
+        documentId: 'sow',
+        uploadedAt: '2024-02-01T00:00:00.000Z',
+        analyzedAt: '2024-02-01T00:00:00.000Z',
+        riskScore: { overall: 60 },
+        risks: [risk, { ...risk, id: 'r2' }],
+        blockers: [blocker],
+        keyTerms: { totalContractValue: { amount: 25000, currency: 'EUR' } }
+      });
+
+      expect(buildDealProperties([msa, sow])).toEqual({
+        di_risk_grade: 'C',
+        di_risk_score: '46',
+        di_risk_count: '3',
+        di_blocker_count: '1',
+        di_contract_end_date: '2026-12-31',
+        di_total_contract_value: '25000',
+        di_contract_currency: 'EUR',
+        di_documents_analyzed: '2',
+        di_last_analyzed_at: '2024-02-01T00:00:00.000Z'
+      });
+    });
+
+    it('should count only open findings in the newest revision of each document', () => {
+      const decision = { by: 'rep@example.com', at: '2024-02-02T00:00:00.000Z' };
+      const v1 = buildAnalysis({
+        documentId: 'v1',
+        riskScore: { overall: 70 },
+        filename: 'Acme MSA v1.pdf',
+        risks: [risk, { ...risk, id: 'r2' }],
+        blockers: [blocker]
+      });
+      const v2 = buildAnalysis({
+        documentId: 'v2',
+        uploadedAt: '2024-02-01T00:00:00.000Z',
+        analyzedAt: '2024-02-01T00:00:00.000Z',
+        riskScore: { overall: 20 },
+        filename: 'Acme MSA v2.pdf',
+        risks: [risk, { ...risk, id: 'r2', dismissed: decision }],
+        blockers: [{ ...blocker, resolved: decision }]
+      });
+
+      expect(buildDealProperties([v1, v2])).toMatchObject({
+        di_risk_count: '1',
+        di_blocker_count: '0',
+        di_documents_analyzed: '2'
+      });
+    });
+
+    it('should clear every property for a deal without analyses', () => {
+      const properties = buildDealProperties([]);
+
+      expect(Object.keys(properties)).toEqual(DEAL_PROPERTIES.map(property => property.name));
+      expect(Object.values(properties).every(value => value === '')).toBe(true);
+    });
+  });
+
+  describe('ensureDealProperties', () => {
+    it('should create the group and properties, keeping ones that already exist', async () => {
+      client.crm.properties.groupsApi.create.mockRejectedValue(Object.assign(new Error('Conflict'), { code: 409 }));
+
+      await ensureDealProperties('portal-1');
+
+      expect(client.crm.properties.groupsApi.create).toHaveBeenCalledWith('deals', {
+        name: 'document_intelligence',
+        label: 'Document Intelligence'
+      });
+      expect(client.crm.properties.coreApi.create).toHaveBeenCalledTimes(DEAL_PROPERTIES.length);
+      expect(client.crm.properties.coreApi.create).toHaveBeenCalledWith('deals', expect.objectContaining({
+        name: 'di_risk_grade',
+        groupName: 'document_intelligence'
+      }));
+    });
+
+    it('should fail on other errors', async () => {
+      client.crm.properties.coreApi.create.mockRejectedValue(Object.assign(new Error('Forbidden'), { code: 403 }));
+
+      await expect(ensureDealProperties('portal-1')).rejects.toThrow('Forbidden');
+    });
+  });
+
+  describe('syncDocumentDeals', () => {
+    it('should write the properties of every deal the document is attached to', async () => {
+      await repository.analyses.save('portal-1', buildAnalysis({ riskScore: { overall: 90 } }));
+      await repository.deals.add('portal-1', 'deal-1', 'doc-1');
+      await repository.deals.add('portal-1', 'deal-2', 'doc-1');
+
+      const result = await syncDocumentDeals('portal-1', 'doc-1', { attempts: 2, baseDelayMs: 0 });
+
+      expect(result).toEqual({ synced: ['deal-1', 'deal-2'], failed: [] });
+      expect(client.crm.deals.basicApi.update).toHaveBeenCalledWith('deal-1', {
+        properties: expect.objectContaining({ di_risk_grade: 'F', di_risk_score: '90' })
+      });
+    });
+
+    it('should retry while HubSpot is unavailable and report deals that could not be synced', async () => {
+      await repository.analyses.save('portal-1', buildAnalysis({ riskScore: { overall: 10 } }));
+      await repository.deals.add('portal-1', 'deal-1', 'doc-1');
+      client.crm.deals.basicApi.update.mockRejectedValue(Object.assign(new Error('Bad Gateway'), { code: 502 }));
+
+      const result = await syncDocumentDeals('portal-1', 'doc-1', { attempts: 2, baseDelayMs: 0 });
+
+      expect(result).toEqual({ synced: [], failed: ['deal-1'] });
+      expect(client.crm.deals.basicApi.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip portals that are not connected', async () => {
+      await repository.deals.add('portal-1', 'deal-1', 'doc-1');
+      mockIsAuthenticated.mockResolvedValue(false);
+
+      const result = await syncDocumentDeals('portal-1', 'doc-1');
+
+      expect(result).toEqual({ synced: [], failed: [] });
+      expect(client.crm.deals.basicApi.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncDeals', () => {
+    it('should clear the properties of a deal whose last document was deleted', async () => {
+      await repository.analyses.save('portal-1', buildAnalysis({ riskScore: { overall: 90 } }));
+      await repository.deals.add('portal-1', 'deal-1', 'doc-1');
+      const dealIds = await repository.deals.listDealIds('portal-1', 'doc-1');
+      await repository.analyses.delete('portal-1', 'doc-1');
+      await repository.deals.removeDocument('portal-1', 'doc-1');
+
+      const result = await syncDeals('portal-1', dealIds, { attempts: 1, baseDelayMs: 0 });
+
+      expect(result).toEqual({ synced: ['deal-1'], failed: [] });
+      expect(client.crm.deals.basicApi.update).toHaveBeenCalledWith('deal-1', {
+        properties: expect.objectContaining({ di_risk_grade: '', di_risk_score: '', di_documents_analyzed: '' })
+      });
+    });
+  });
+});
@@ -2,11 +2,42 @@
  * Unit tests for the document ingestion service
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {
   detectDocumentType,
-  validateUpload
+  validateUpload,
+  ingestDocument
 } from '../../src/services/document-ingestion.service';
 
+const mockGetText = jest.fn();
+const mockGetInfo = jest.fn();
+const mockGetScreenshot = jest.fn();
+const mockRecognize = jest.fn();
+const mockTerminate = jest.fn();
+const mockDestroy = jest.fn();
+
+jest.mock('pdf-parse', () => ({
+  PDFParse: jest.fn().mockImplementation(() => ({
+    getText: mockGetText,
+    getInfo: mockGetInfo,
+    getScreenshot: mockGetScreenshot,
+    destroy: mockDestroy
+  }))
+}));
+
+jest.mock('tesseract.js', () => ({
+  __esModule: true,
+  default: {
+    recognize: jest.fn(),
+    createWorker: jest.fn().mockImplementation(async () => ({
+      recognize: mockRecognize,
+      terminate: mockTerminate
+    }))
+  }
+}));
+
 // Mock config
 jest.mock('../../src/config', () => ({
   config: {
@@ -135,4 +166,111 @@ describe('Document Ingestion Service', () => {
       expect(result.error).toContain('type');
     });
   });
+
+  describe('ingestDocument (scanned PDF)', () => {
+    const filePath = path.join(os.tmpdir(), 'scanned-contract.pdf');
+
+    beforeAll(() => {
+      fs.writeFileSync(filePath, '%PDF-1.4 scanned');
+    });
+
+    afterAll(() => {
+      fs.unlinkSync(filePath);
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockGetText.mockResolvedValue({
+        text: '\n-- 1 of 3 --\n\n\n-- 2 of 3 --\n\n\n-- 3 of 3 --',
+        total: 3
+      });
+      mockGetInfo.mockResolvedValue({ total: 3, info: { title: 'Signed MSA' } });
+      mockGetScreenshot.mockImplementation(async ({ partial }: { partial: number[] }) => ({
+        total: 3,
+        pages: [{ data: new Uint8Array([partial[0]]), pageNumber: partial[0] }]
+      }));
+      mockRecognize.mockImplementation(async (image: Buffer) => ({
+        data: {
+          text: `Page ${image[0]} of the signed master services agreement between Acme and Globex.`,
+          confidence: 80 + image[0] * 5,
+          blocks: [{
+            text: 'signed master services agreement',
+            confidence: 90,
+            bbox: { x0: 10, y0: 20 * image[0], x1: 300, y1: 20 * image[0] + 15 }
+          }]
+        }
+      }));
+    });
+
+    it('should OCR every page when the PDF has no text layer', async () => {
+      const parsed = await ingestDocument(filePath, 'application/pdf');
+
+      expect(mockGetScreenshot).toHaveBeenCalledTimes(3);
+      expect(mockRecognize).toHaveBeenCalledTimes(3);
+      expect(parsed.pages).toBe(3);
+      expect(parsed.text).toContain('Page 1 of the signed');
+      expect(parsed.text).toContain('Page 3 of the signed');
+      expect(parsed.text).toContain('-- 2 of 3 --');
+      expect(parsed.metadata.title).toBe('Signed MSA');
+    });
+
+    it('should report per-page and overall confidence', async () => {
+      const parsed = await ingestDocument(filePath, 'application/pdf');
+
+      expect(parsed.pageConfidences).toEqual([0.85, 0.9, 0.95]);
+      expect(parsed.confidence).toBeCloseTo(0.9);
+    });
+
+    it('should position OCR blocks in the merged text', async () => {
+      const parsed = await ingestDocument(filePath, 'application/pdf');
+
+      expect(parsed.pageLayout).toHaveLength(3);
+      const page2 = parsed.pageLayout![1];
+      expect(parsed.text.slice(page2.start, page2.end)).toContain('Page 2 of the signed');
+
+      const block = page2.blocks![0];
+      expect(parsed.text.slice(block.start, block.end)).toBe('signed master services agreement');
+      expect(block.bbox).toEqual({ x0: 10, y0: 40, x1: 300, y1: 55 });
+      expect(block.confidence).toBe(0.9);
+    });
+
+    it('should release the OCR worker', async () => {
+      await ingestDocument(filePath, 'application/pdf');
+
+      expect(mockTerminate).toHaveBeenCalled();
+    });
+
+    it('should fall back to PDF text when OCR fails', async () => {
+      mockRecognize.mockRejectedValue(new Error('OCR engine unavailable'));
+
+      const parsed = await ingestDocument(filePath, 'application/pdf');
+
+      expect(parsed.confidence).toBe(1.0);
+      expect(parsed.pageConfidences).toBeUndefined();
+      expect(mockTerminate).toHaveBeenCalled();
+    });
+
+    it('should release the PDF parser when the OCR worker cannot start', async () => {
+      const tesseract = jest.requireMock('tesseract.js').default;
+      tesseract.createWorker.mockRejectedValueOnce(new Error('Language data unavailable'));
+
+      const parsed = await ingestDocument(filePath, 'application/pdf');
+
+      expect(parsed.confidence).toBe(1.0);
+      expect(mockTerminate).not.toHaveBeenCalled();
+      // Once for the text layer, once for OCR
+      expect(mockDestroy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip OCR when the PDF has a text layer', async () => {
+      mockGetText.mockResolvedValue({
+        text: 'This Master Services Agreement is entered into by Acme Corp and Globex Inc. '.repeat(3),
+        total: 1
+      });
+
+      await ingestDocument(filePath, 'application/pdf');
+
+      expect(mockGetScreenshot).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the document versioning service
+ */
+
+import {
+  filenameLineage,
+  textSimilarity,
+  findPriorVersion,
+  computeTrend,
+  summarizeVersions
+} from '../../src/services/document-versioning.service';
+import { DocumentRisk } from '../../src/types';
+import { buildAnalysis } from '../fixtures/analysis';
+
+const contractText = Array.from({ length: 40 }, (_, i) =>
+  `Clause ${i + 1}. The Supplier shall deliver the services described in schedule ${i + 1} within thirty days.`
+).join(' ');
+
+function buildRisk(title: string, overrides: Partial<DocumentRisk> = {}): DocumentRisk {
+  return {
+    id: title,
+    category: 'unfavorable_terms',
+    severity: 'medium',
+    title,
+    description: title,
+    recommendation: 'Negotiate.',
+    ...overrides
+  };
+}
+
+describe('Document Versioning Service', () => {
+  describe('filenameLineage', () => {
+    it('should ignore version, revision and date markers', () => {
+      const lineage = filenameLineage('Acme MSA.docx');
+
+      expect(filenameLineage('Acme_MSA_v2.docx')).toBe(lineage);
+      expect(filenameLineage('acme-msa (redline) rev3.pdf')).toBe(lineage);
+      expect(filenameLineage('Acme MSA 2024-03-01 FINAL.pdf')).toBe(lineage);
+      expect(filenameLineage('Acme MSA (1).pdf')).toBe(lineage);
+    });
+
+    it('should keep numbers that distinguish documents', () => {
+      expect(filenameLineage('SOW 1.pdf')).not.toBe(filenameLineage('SOW 2.pdf'));
+    });
+  });
+
+  describe('textSimilarity', () => {
+    it('should score lightly edited text as similar', () => {
+      const edited = contractText.replace('thirty days', 'sixty days');
+
+      expect(textSimilarity(contractText, edited)).toBeGreaterThan(0.9);
+    });
+
+    it('should score unrelated or very short text as dissimilar', () => {
+      const other = Array.from({ length: 40 }, (_, i) => `Invoice line ${i} for consulting hours billed monthly.`).join(' ');
+
+      expect(textSimilarity(contractText, other)).toBeLessThan(0.1);
+      expect(textSimilarity('short text', 'short text')).toBe(0);
+    });
+  });
+
+  describe('findPriorVersion', () => {
+    it('should link by filename lineage first', () => {
+      const existing = [
+        buildAnalysis({ documentId: 'doc-1', filename: 'Acme MSA.pdf' }),
+        buildAnalysis({ documentId: 'doc-2', filename: 'Acme NDA.pdf' })
+      ];
+
+      const match = findPriorVersion(buildAnalysis({ documentId: 'doc-3', filename: 'Acme MSA v2.pdf' }), existing);
+
+      expect(match).toMatchObject({ matchedBy: 'filename', analysis: { documentId: 'doc-1' } });
+    });
+
+    it('should fall back to text similarity', () => {
+      const existing = [buildAnalysis({ documentId: 'doc-1', filename: 'contract.pdf', rawText: contractText })];
+      const candidate = buildAnalysis({ documentId: 'doc-2', filename: 'Counterparty comments.pdf', rawText: `${contractText} Signed.` });
+
+      expect(findPriorVersion(candidate, existing)).toMatchObject({ matchedBy: 'similarity', analysis: { documentId: 'doc-1' } });
+    });
+
+    it('should not link unrelated documents', () => {
+      const existing = [buildAnalysis({ documentId: 'doc-1', filename: 'Acme MSA.pdf', rawText: contractText })];
+      const candidate = buildAnalysis({ documentId: 'doc-2', filename: 'Quote.pdf', rawText: 'Quote for services' });
+
+      expect(findPriorVersion(candidate, existing)).toBeUndefined();
+    });
+  });
+
+  describe('computeTrend', () => {
+    it('should compare the latest score with the ones before it', () => {
+      expect(computeTrend([60])).toBeUndefined();
+      expect(computeTrend([60, 40])).toBe('improving');
+      expect(computeTrend([40, 60])).toBe('worsening');
+      expect(computeTrend([40, 42])).toBe('stable');
+      expect(computeTrend([90, 40, 50, 60, 52])).toBe('stable');
+    });
+  });
+
+  describe('summarizeVersions', () => {
+    it('should describe grade and risk changes between versions', () => {
+      const versions = summarizeVersions([
+        buildAnalysis({
+          filename: 'MSA.pdf',
+          risks: [buildRisk('Unlimited liability'), buildRisk('Auto-renewal')],
+          riskScore: { overall: 70, grade: 'D' }
+        }),
+        buildAnalysis({
+          filename: 'MSA v2.pdf',
+          version: 2,
+          risks: [buildRisk('Auto-renewal'), buildRisk('Late fees')],
+          riskScore: { overall: 35, grade: 'B' }
+        })
+      ]);
+
+      expect(versions[0]).toMatchObject({ version: 1, grade: 'D', riskCount: 2, risksResolved: [] });
+      expect(versions[0].scoreDelta).toBeUndefined();
+      expect(versions[1]).toMatchObject({
+        version: 2,
+        scoreDelta: -35,
+        gradeChange: { from: 'D', to: 'B' },
+        risksIntroduced: [{ title: 'Late fees', category: 'unfavorable_terms', severity: 'medium' }],
+        risksResolved: [{ title: 'Unlimited liability', category: 'unfavorable_terms', severity: 'medium' }]
+      });
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for the entity normalization service
+ */
+
+import {
+  normalizeDate,
+  normalizeAmount,
+  normalizeDuration,
+  normalizePaymentTerms,
+  normalizeEntity,
+  extractKeyTerms,
+  addDuration
+} from '../../src/services/entity-normalization.service';
+import { ExtractedEntity } from '../../src/types';
+
+describe('Entity Normalization Service', () => {
+  describe('normalizeDate', () => {
+    it.each([
+      ['March 3, 2025', '2025-03-03'],
+      ['Sept. 30 2024', '2024-09-30'],
+      ['the 1st day of July, 2024', '2024-07-01'],
+      ['15 January 2024', '2024-01-15'],
+      ['2025-03-03', '2025-03-03'],
+      ['01/15/2024', '2024-01-15'],
+      ['31/12/2024', '2024-12-31'],
+      ['3-3-25', '2025-03-03']
+    ])('should parse %s', (raw, expected) => {
+      expect(normalizeDate(raw)).toBe(expected);
+    });
+
+    it('should reject impossible dates', () => {
+      expect(normalizeDate('February 30, 2024')).toBeUndefined();
+      expect(normalizeDate('upon signature')).toBeUndefined();
+    });
+  });
+
+  describe('normalizeAmount', () => {
+    it.each([
+      ['$1,250,000.00', 1250000, 'USD'],
+      ['€10.000,50', 10000.5, 'EUR'],
+      ['£5k', 5000, 'GBP'],
+      ['USD 10k', 10000, 'USD'],
+      ['2.5 million EUR', 2500000, 'EUR'],
+      ['US$ 4,166.67', 4166.67, 'USD']
+    ])('should parse %s', (raw, amount, currency) => {
+      expect(normalizeAmount(raw)).toEqual({ amount, currency });
+    });
+
+    it('should require a currency', () => {
+      expect(normalizeAmount('10,000 units')).toBeUndefined();
+      expect(normalizeAmount('ABC 500')).toBeUndefined();
+    });
+  });
+
+  describe('normalizeDuration', () => {
+    it.each([
+      ['36 months', { months: 36 }],
+      ['thirty (30) days', { days: 30 }],
+      ['two years', { months: 24 }],
+      ['a 12-month term', { months: 12 }],
+      ['six weeks', { days: 42 }],
+      ['twenty-four months', { months: 24 }]
+    ])('should parse %s', (raw, expected) => {
+      expect(normalizeDuration(raw)).toEqual(expected);
+    });
+
+    it('should return undefined without a unit', () => {
+      expect(normalizeDuration('perpetual')).toBeUndefined();
+    });
+  });
+
+  describe('normalizePaymentTerms', () => {
+    it.each([
+      ['Net 30', 30],
+      ['net forty-five', 45],
+      ['Payment is due upon receipt', 0],
+      ['within sixty (60) days of invoice', 60]
+    ])('should parse %s', (raw, expected) => {
+      expect(normalizePaymentTerms(raw)).toBe(expected);
+    });
+  });
+
+  describe('normalizeEntity', () => {
+    it('should attach a typed value', () => {
+      const entity = normalizeEntity({ type: 'amount', value: '$50,000', confidence: 0.9 });
+
+      expect(entity.normalized).toEqual({ kind: 'amount', amount: 50000, currency: 'USD' });
+    });
+
+    it('should fall back to the evidence quote', () => {
+      const entity = normalizeEntity({ type: 'date', value: 'Effective Date', confidence: 0.9, evidence: 'effective as of June 1, 2024' });
+
+      expect(entity.normalized).toEqual({ kind: 'date', date: '2024-06-01' });
+    });
+
+    it('should leave entity types without a typed form unchanged', () => {
+      const entity: ExtractedEntity = { type: 'party_name', value: 'Acme Corp', confidence: 0.9 };
+
+      expect(normalizeEntity(entity)).toBe(entity);
+    });
+  });
+
+  describe('extractKeyTerms', () => {
+    function locatedEntity(text: string, type: ExtractedEntity['type'], value: string): ExtractedEntity {
+      const start = text.indexOf(value);
+      return normalizeEntity({ type, value, confidence: 0.9, location: { start, end: start + value.length } });
+    }
+
+    it('should assign dates and amounts by nearby keywords', () => {
+      const text = 'This Agreement is effective as of 01/15/2024 and expires on December 31, 2025. '
+        + 'Liability is capped at $5,000,000. The total contract value is $240,000, payable Net 45.';
+      const entities = [
+        locatedEntity(text, 'date', '01/15/2024'),
+        locatedEntity(text, 'date', 'December 31, 2025'),
+        locatedEntity(text, 'amount', '$5,000,000'),
+        locatedEntity(text, 'amount', '$240,000'),
+        locatedEntity(text, 'payment_terms', 'Net 45')
+      ];
+
+      expect(extractKeyTerms(text, entities)).toEqual({
+        effectiveDate: '2024-01-15',
+        endDate: '2025-12-31',
+        totalContractValue: { amount: 240000, currency: 'USD' },
+        paymentNetDays: 45
+      });
+    });
+
+    it('should compute the end date from the term and skip liability caps', () => {
+      const text = 'Dated March 1, 2024. The initial term is 36 months. Fees: $90,000. Liability cap: $1,000,000.';
+      const entities = [
+        locatedEntity(text, 'date', 'March 1, 2024'),
+        locatedEntity(text, 'term_duration', '36 months'),
+        locatedEntity(text, 'amount', '$90,000'),
+        locatedEntity(text, 'amount', '$1,000,000')
+      ];
+
+      expect(extractKeyTerms(text, entities)).toEqual({
+        effectiveDate: '2024-03-01',
+        endDate: '2027-03-01',
+        term: { months: 36 },
+        totalContractValue: { amount: 90000, currency: 'USD' }
+      });
+    });
+
+    it('should return no terms without entities', () => {
+      expect(extractKeyTerms('No terms here.', [])).toEqual({});
+    });
+  });
+
+  describe('addDuration', () => {
+    it('should clamp to the end of shorter months', () => {
+      expect(addDuration('2024-01-31', { months: 1 })).toBe('2024-02-29');
+      expect(addDuration('2024-12-20', { days: 15 })).toBe('2025-01-04');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for the evidence verification service
+ */
+
+import {
+  verifyEntity,
+  verifyRisk,
+  UNVERIFIED_CONFIDENCE_FACTOR
+} from '../../src/services/evidence-verification.service';
+import { findTextLocation } from '../../src/services/page-layout.service';
+import { DocumentRisk } from '../../src/types';
+
+const text = 'Each party\'s liability is capped at   the fees paid in the prior 12 months.';
+const locate = (snippet: string) => findTextLocation(text, undefined, snippet);
+
+const risk: DocumentRisk = {
+  id: 'r1',
+  category: 'liability_exposure',
+  severity: 'critical',
+  title: 'Unlimited liability',
+  description: 'Liability is unlimited.',
+  recommendation: 'Add a cap.'
+};
+
+describe('Evidence Verification Service', () => {
+  describe('verifyEntity', () => {
+    it('should replace the quote with the verbatim document text', () => {
+      const entity = verifyEntity(
+        { type: 'liability_clause', value: 'capped at fees paid', confidence: 0.9, evidence: 'capped at the fees paid' },
+        text,
+        locate
+      );
+
+      expect(entity.verified).toBe(true);
+      expect(entity.evidence).toBe('capped at   the fees paid');
+      expect(entity.location).toEqual({ start: 26, end: 51 });
+    });
+
+    it('should fall back to the value as evidence', () => {
+      const entity = verifyEntity(
+        { type: 'term_duration', value: '12 months', confidence: 0.8, evidence: 'twelve months' },
+        text,
+        locate
+      );
+
+      expect(entity).toMatchObject({ evidence: '12 months', verified: true, confidence: 0.8 });
+    });
+
+    it('should down-weight entities that cannot be located', () => {
+      const entity = verifyEntity(
+        { type: 'party_name', value: 'Initech', confidence: 0.9, evidence: 'Initech LLC' },
+        text,
+        locate
+      );
+
+      expect(entity.verified).toBe(false);
+      expect(entity.evidence).toBeUndefined();
+      expect(entity.confidence).toBeCloseTo(0.9 * UNVERIFIED_CONFIDENCE_FACTOR);
+    });
+  });
+
+  describe('verifyRisk', () => {
+    it('should verify risks whose quote is in the document', () => {
+      const result = verifyRisk({ ...risk, evidence: 'liability is capped' }, text, locate);
+
+      expect(result.risk).toMatchObject({ verified: true, evidence: 'liability is capped', location: { start: 13, end: 32 } });
+    });
+
+    it('should drop risks quoting text that is not in the document', () => {
+      const result = verifyRisk({ ...risk, evidence: 'Supplier accepts unlimited liability' }, text, locate);
+
+      expect(result.risk).toBeUndefined();
+      expect(result.error).toBe('evidence quote not found in document');
+    });
+
+    it('should mark risks without a quote as unverified', () => {
+      expect(verifyRisk(risk, text, locate).risk!.verified).toBe(false);
+    });
+
+    it('should not require quotes for missing clauses', () => {
+      const missing = { ...risk, category: 'missing_clause' as const, title: 'No termination clause' };
+
+      expect(verifyRisk(missing, text, locate).risk!.verified).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for the finding decisions service
+ */
+
+import {
+  carryOverDecisions,
+  dismissRisk,
+  resolveBlocker,
+  signDismissalGrant,
+  verifyDismissalGrant
+} from '../../src/services/finding-decisions.service';
+import { createInMemoryRepository, setRepository } from '../../src/services/repository.service';
+import { generateRequiredActions } from '../../src/services/scoring-engine.service';
+import { syncDocumentDeals } from '../../src/services/deal-properties.service';
+import { DocumentAnalysis, FindingDecision, Repository } from '../../src/types';
+import { buildAnalysis } from '../fixtures/analysis';
+
+jest.mock('../../src/services/deal-properties.service', () => ({
+  syncDocumentDeals: jest.fn().mockResolvedValue({ synced: [], failed: [] })
+}));
+
+const mockSyncDocumentDeals = syncDocumentDeals as jest.MockedFunction<typeof syncDocumentDeals>;
+
+function buildMsa(): DocumentAnalysis {
+  return buildAnalysis({
+    filename: 'msa.pdf',
+    documentType: 'msa',
+    risks: [
+      {
+        id: 'risk-1',
+        category: 'liability_exposure',
+        severity: 'critical',
+        title: 'Unlimited liability',
+        description: 'Liability is not capped',
+        recommendation: 'Add a cap'
+      },
+      {
+        id: 'risk-2',
+        category: 'payment_risk',
+        severity: 'medium',
+        title: 'Long payment terms',
+        description: 'Net 90',
+        recommendation: 'Negotiate Net 30'
+      }
+    ],
+    blockers: [
+      {
+        id: 'blocker-1',
+        type: 'missing_signature',
+        title: 'Signatures Required',
+        description: 'Unsigned',
+        requiredAction: 'Obtain signatures'
+      }
+    ],
+    riskScore: {
+      overall: 45,
+      breakdown: { missingClauses: 0, unfavorableTerms: 10, complianceIssues: 0, liabilityExposure: 25 },
+      grade: 'C',
+      trend: 'worsening'
+    }
+  });
+}
+
+const decision: FindingDecision = {
+  by: 'counsel@example.com',
+  at: '2024-02-01T00:00:00.000Z',
+  reason: 'Cap agreed in side letter'
+};
+
+describe('Finding Decisions Service', () => {
+  let repository: Repository;
+
+  beforeEach(async () => {
+    repository = createInMemoryRepository();
+    setRepository(repository);
+    await repository.analyses.save('portal-1', buildMsa());
+    mockSyncDocumentDeals.mockClear();
+  });
+
+  afterEach(() => {
+    setRepository(null);
+  });
+
+  describe('dismissRisk', () => {
+    it('should store the dismissal and rescore without the risk', async () => {
+      const updated = await dismissRisk('portal-1', 'doc-1', 'risk-1', decision);
+
+      expect(updated?.risks[0].dismissed).toEqual(decision);
+      expect(updated?.riskScore).toMatchObject({ overall: 15, grade: 'A', trend: 'worsening' });
+      expect((await repository.analyses.get('portal-1', 'doc-1'))?.riskScore.overall).toBe(15);
+    });
+
+    it('should complete the actions the risk required and re-sync the deals', async () => {
+      const analysis = buildMsa();
+      await repository.analyses.save('portal-1', {
+        ...analysis,
+        requiredActions: generateRequiredActions(analysis.risks, analysis.missingTerms, analysis.blockers)
+      });
+
+      const updated = await dismissRisk('portal-1', 'doc-1', 'risk-1', decision);
+
+      expect(updated?.requiredActions?.map(action => [action.action, action.status])).toEqual([
+        ['Add a cap', 'completed'],
+        ['Obtain signatures', 'pending']
+      ]);
+      expect(mockSyncDocumentDeals).toHaveBeenCalledWith('portal-1', 'doc-1');
+    });
+
+    it('should return undefined for an unknown risk or another portal\'s document', async () => {
+      expect(await dismissRisk('portal-1', 'doc-1', 'missing', decision)).toBeUndefined();
+      expect(await dismissRisk('portal-2', 'doc-1', 'risk-1', decision)).toBeUndefined();
+      expect(mockSyncDocumentDeals).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveBlocker', () => {
+    it('should store the resolution and rescore without the blocker', async () => {
+      const updated = await resolveBlocker('portal-1', 'doc-1', 'blocker-1', decision);
+
+      expect(updated?.blockers[0].resolved).toEqual(decision);
+      expect(updated?.riskScore.overall).toBe(40);
+      expect(mockSyncDocumentDeals).toHaveBeenCalledWith('portal-1', 'doc-1');
+    });
+
+    it('should complete actions stored before they recorded their blocker', async () => {
+      await repository.analyses.save('portal-1', {
+        ...buildMsa(),
+        requiredActions: [
+          { id: 'a1', priority: 'urgent', action: 'Obtain signatures', reason: 'Unsigned', status: 'pending', hubspotTaskId: '900' },
+          { id: 'a2', priority: 'urgent', action: 'Add a cap', reason: 'Liability is not capped', status: 'pending' }
+        ]
+      });
+
+      const updated = await resolveBlocker('portal-1', 'doc-1', 'blocker-1', decision);
+
+      expect(updated?.requiredActions?.map(action => action.status)).toEqual(['completed', 'pending']);
+      expect(updated?.requiredActions?.[0].hubspotTaskId).toBe('900');
+    });
+  });
+
+  describe('dismissal grants', () => {
+    const grant = { portalId: 'portal-1', documentId: 'doc-1', riskId: 'risk-1', user: 'counsel@example.com' };
+
+    it('should verify a grant it signed', () => {
+      const token = signDismissalGrant(grant, 1000);
+
+      expect(verifyDismissalGrant(token, 2000)).toEqual({ ...grant, expiresAt: 1000 + 8 * 60 * 60 * 1000 });
+    });
+
+    it('should reject tampered, expired and malformed grants', () => {
+      const token = signDismissalGrant(grant, 1000);
+      const [, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ ...grant, user: 'ceo@example.com', expiresAt: Date.now() + 1000 })).toString('base64url');
+
+      expect(verifyDismissalGrant(`${forged}.${signature}`, 2000)).toBeUndefined();
+      expect(verifyDismissalGrant(token, 1000 + 8 * 60 * 60 * 1000 + 1)).toBeUndefined();
+      expect(verifyDismissalGrant('not-a-grant')).toBeUndefined();
+      expect(verifyDismissalGrant(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('carryOverDecisions', () => {
+    it('should keep decisions on findings a new analysis reports again', () => {
+      const previous = buildMsa();
+      previous.risks[0].dismissed = decision;
+      previous.blockers[0].resolved = decision;
+
+      const next = buildMsa();
+      next.risks = next.risks.map(risk => ({ ...risk, id: `new-${risk.id}`, title: risk.title.toUpperCase() }));
+
+      const carried = carryOverDecisions(previous, next);
+
+      expect(carried.risks.map(risk => risk.dismissed)).toEqual([decision, undefined]);
+      expect(carried.blockers[0].resolved).toEqual(decision);
+      expect(carried.riskScore.overall).toBe(10);
+    });
+
+    it('should complete the actions of findings that stay dismissed or resolved', () => {
+      const previous = buildMsa();
+      previous.risks[0].dismissed = decision;
+      previous.blockers[0].resolved = decision;
+
+      const next = buildMsa();
+      next.risks.push({ ...next.risks[0], id: 'risk-3', title: 'Uncapped indemnity', recommendation: 'Cap the indemnity' });
+      next.requiredActions = generateRequiredActions(next.risks, next.missingTerms, next.blockers);
+
+      const carried = carryOverDecisions(previous, next);
+
+      expect(carried.requiredActions?.map(action => [action.action, action.status])).toEqual([
+        ['Add a cap', 'completed'],
+        ['Cap the indemnity', 'pending'],
+        ['Obtain signatures', 'completed']
+      ]);
+    });
+
+    it('should leave an analysis without earlier decisions unchanged', () => {
+      const next = buildMsa();
+
+      expect(carryOverDecisions(buildMsa(), next)).toBe(next);
+    });
+  });
+});
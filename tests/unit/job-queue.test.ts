@@ -0,0 +1,383 @@
+/**
+ * Unit tests for the job queue service
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createJobQueue,
+  getJobQueue,
+  processAnalysisJob,
+  setJobQueue,
+  toReanalysisJob,
+  JobProcessor,
+  NewAnalysisJob
+} from '../../src/services/job-queue.service';
+import {
+  createInMemoryRepository,
+  createFileRepository,
+  setRepository
+} from '../../src/services/repository.service';
+import { createFileBlobStore, getBlobStore, setBlobStore } from '../../src/services/blob-store.service';
+import { analyzeDocument } from '../../src/services/scoring-engine.service';
+import * as dealProperties from '../../src/services/deal-properties.service';
+import { config } from '../../src/config';
+import { AnalysisJob, Repository } from '../../src/types';
+import { buildAnalysis } from '../fixtures/analysis';
+
+jest.mock('../../src/services/scoring-engine.service', () => ({
+  ...jest.requireActual('../../src/services/scoring-engine.service'),
+  analyzeDocument: jest.fn()
+}));
+
+const mockAnalyzeDocument = analyzeDocument as jest.MockedFunction<typeof analyzeDocument>;
+
+const input: NewAnalysisJob = {
+  portalId: 'portal-1',
+  dealId: 'deal-1',
+  filename: 'contract.pdf',
+  mimeType: 'application/pdf',
+  filePath: '/tmp/contract.pdf'
+};
+
+describe('Job Queue Service', () => {
+  let repository: Repository;
+
+  beforeEach(() => {
+    repository = createInMemoryRepository();
+    setRepository(repository);
+  });
+
+  afterEach(() => {
+    setRepository(null);
+  });
+
+  it('should run a job through its stages to completion', async () => {
+    const seenStages: string[] = [];
+    const process: JobProcessor = async (job, reportStage) => {
+      await reportStage('ingesting');
+      seenStages.push((await repository.jobs.get(job.portalId, job.id))!.stage!);
+      await reportStage('scoring');
+    };
+    const settled: AnalysisJob[] = [];
+    const queue = createJobQueue({ concurrency: 1, maxAttempts: 1, retryDelayMs: 0, process, onSettled: job => { settled.push(job); } });
+
+    const queued = await queue.enqueue(input);
+    expect(queued.status).toBe('queued');
+
+    await queue.onIdle();
+
+    const job = await repository.jobs.get('portal-1', queued.id);
+    expect(seenStages).toEqual(['ingesting']);
+    expect(job).toMatchObject({ status: 'completed', stage: 'scoring', attempts: 1 });
+    expect(job!.completedAt).toBeDefined();
+    expect(settled.map(j => j.id)).toEqual([queued.id]);
+  });
+
+  it('should not run more jobs at once than the concurrency limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const process: JobProcessor = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    };
+    const queue = createJobQueue({ concurrency: 2, maxAttempts: 1, retryDelayMs: 0, process });
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => queue.enqueue(input)));
+    await queue.onIdle();
+
+    expect(peak).toBe(2);
+    expect(await repository.jobs.listUnfinished()).toEqual([]);
+  });
+
+  it('should run jobs for the same document one at a time', async () => {
+    const runningDocuments: string[] = [];
+    const overlaps: string[] = [];
+    const process: JobProcessor = async job => {
+      if (runningDocuments.includes(job.documentId)) {
+        overlaps.push(job.documentId);
+      }
+      runningDocuments.push(job.documentId);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      runningDocuments.splice(runningDocuments.indexOf(job.documentId), 1);
+    };
+    const queue = createJobQueue({ concurrency: 2, maxAttempts: 1, retryDelayMs: 0, process });
+
+    const jobs = await Promise.all(['doc-1', 'doc-1', 'doc-1', 'doc-2'].map(documentId => queue.enqueue({ ...input, documentId })));
+    await queue.onIdle();
+
+    expect(overlaps).toEqual([]);
+    for (const job of jobs) {
+      expect((await repository.jobs.get('portal-1', job.id))!.status).toBe('completed');
+    }
+  });
+
+  it('should retry failed jobs until one attempt succeeds', async () => {
+    const process = jest.fn<ReturnType<JobProcessor>, Parameters<JobProcessor>>()
+      .mockRejectedValueOnce(new Error('OCR timed out'))
+      .mockResolvedValueOnce(undefined);
+    const queue = createJobQueue({ concurrency: 1, maxAttempts: 3, retryDelayMs: 0, process });
+
+    const queued = await queue.enqueue(input);
+    await queue.onIdle();
+
+    const job = await repository.jobs.get('portal-1', queued.id);
+    expect(process).toHaveBeenCalledTimes(2);
+    expect(job).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(job!.error).toBeUndefined();
+  });
+
+  it('should fail a job once its attempts are used up', async () => {
+    const process: JobProcessor = async () => {
+      throw new Error('Unsupported scan');
+    };
+    const settled: AnalysisJob[] = [];
+    const queue = createJobQueue({ concurrency: 1, maxAttempts: 2, retryDelayMs: 0, process, onSettled: job => { settled.push(job); } });
+
+    const queued = await queue.enqueue(input);
+    await queue.onIdle();
+
+    expect(await repository.jobs.get('portal-1', queued.id)).toMatchObject({
+      status: 'failed',
+      attempts: 2,
+      error: 'Unsupported scan'
+    });
+    expect(settled).toHaveLength(1);
+  });
+
+  it('should record the document a processor stored the result under', async () => {
+    const queue = createJobQueue({
+      concurrency: 1,
+      maxAttempts: 1,
+      retryDelayMs: 0,
+      process: async () => ({ documentId: 'existing-doc' })
+    });
+
+    const queued = await queue.enqueue(input);
+    await queue.onIdle();
+
+    expect((await repository.jobs.get('portal-1', queued.id))!.documentId).toBe('existing-doc');
+  });
+
+  it('should hide jobs from other portals', async () => {
+    const queue = createJobQueue({ concurrency: 1, maxAttempts: 1, retryDelayMs: 0, process: async () => undefined });
+
+    const queued = await queue.enqueue(input);
+    await queue.onIdle();
+
+    expect(await repository.jobs.get('portal-2', queued.id)).toBeUndefined();
+  });
+
+  it('should resume unfinished jobs after a restart', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'job-queue-test-'));
+    const filePath = path.join(directory, 'store.json');
+
+    try {
+      // First process: the job starts but the process stops mid-analysis
+      setRepository(createFileRepository(filePath));
+      let markStarted: () => void = () => undefined;
+      const started = new Promise<void>(resolve => { markStarted = resolve; });
+      const stopped = createJobQueue({
+        concurrency: 1,
+        maxAttempts: 3,
+        retryDelayMs: 0,
+        process: () => {
+          markStarted();
+          return new Promise(() => undefined);
+        }
+      });
+      const queued = await stopped.enqueue(input);
+      await started;
+
+      // Second process
+      const restarted = createFileRepository(filePath);
+      setRepository(restarted);
+      expect((await restarted.jobs.get('portal-1', queued.id))!.status).toBe('running');
+
+      const process = jest.fn<ReturnType<JobProcessor>, Parameters<JobProcessor>>().mockResolvedValue(undefined);
+      const queue = createJobQueue({ concurrency: 1, maxAttempts: 3, retryDelayMs: 0, process });
+
+      expect(await queue.resume()).toBe(1);
+      await queue.onIdle();
+
+      expect(process).toHaveBeenCalledTimes(1);
+      expect(await restarted.jobs.get('portal-1', queued.id)).toMatchObject({ status: 'completed', attempts: 2 });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  describe('processAnalysisJob', () => {
+    let directory: string;
+    const reportStage = async () => undefined;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-job-test-'));
+      setBlobStore(createFileBlobStore(path.join(directory, 'blobs')));
+      mockAnalyzeDocument.mockReset();
+    });
+
+    afterEach(() => {
+      setBlobStore(null);
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    function uploadJob(): AnalysisJob {
+      const filePath = path.join(directory, 'upload.pdf');
+      fs.writeFileSync(filePath, '%PDF-1.4 contract');
+      return {
+        ...input,
+        filePath,
+        id: 'job-1',
+        documentId: 'doc-1',
+        status: 'running',
+        attempts: 1,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+      };
+    }
+
+    it('should keep the original and store the first version', async () => {
+      mockAnalyzeDocument.mockResolvedValue(buildAnalysis({ summary: 'First pass' }));
+      const job = uploadJob();
+
+      await processAnalysisJob(job, reportStage);
+      fs.unlinkSync(job.filePath!);
+
+      const stored = (await repository.analyses.get('portal-1', 'doc-1'))!;
+      expect(stored).toMatchObject({ version: 1, mimeType: 'application/pdf', summary: 'First pass' });
+      expect(stored.blobHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(mockAnalyzeDocument.mock.calls[0][0]).toContain(stored.blobHash!);
+      expect(await repository.deals.listDocumentIds('portal-1', 'deal-1')).toEqual(['doc-1']);
+    });
+
+    it('should re-analyze from the stored original and keep the prior version', async () => {
+      mockAnalyzeDocument.mockResolvedValueOnce(buildAnalysis({ summary: 'First pass' }));
+      const upload = uploadJob();
+      await processAnalysisJob(upload, reportStage);
+      fs.unlinkSync(upload.filePath!);
+      const first = (await repository.analyses.get('portal-1', 'doc-1'))!;
+
+      mockAnalyzeDocument.mockResolvedValueOnce(buildAnalysis({ summary: 'Second pass' }));
+      const reanalysis = toReanalysisJob('portal-1', first)!;
+      await processAnalysisJob({ ...upload, ...reanalysis, filePath: undefined, dealId: undefined, id: 'job-2' }, reportStage);
+
+      const current = (await repository.analyses.get('portal-1', 'doc-1'))!;
+      expect(current).toMatchObject({ version: 2, summary: 'Second pass', uploadedAt: first.uploadedAt, blobHash: first.blobHash });
+      expect((await repository.analyses.listVersions('portal-1', 'doc-1')).map(v => v.summary)).toEqual(['First pass']);
+    });
+
+    it('should delete the original of an upload that fails for good', async () => {
+      mockAnalyzeDocument.mockRejectedValue(new Error('Unreadable scan'));
+      const jobSettings = { ...config.jobs };
+      Object.assign(config.jobs, { maxAttempts: 2, retryDelayMs: 0 });
+      setJobQueue(null);
+
+      try {
+        const queued = await getJobQueue().enqueue({ ...input, filePath: uploadJob().filePath });
+        await getJobQueue().onIdle();
+
+        const job = (await repository.jobs.get('portal-1', queued.id))!;
+        expect(job).toMatchObject({ status: 'failed', attempts: 2, error: 'Unreadable scan' });
+        expect(job.blobHash).toMatch(/^[a-f0-9]{64}$/);
+        expect(await getBlobStore().getPath(job.blobHash!)).toBeUndefined();
+      } finally {
+        Object.assign(config.jobs, jobSettings);
+        setJobQueue(null);
+      }
+    });
+
+    it('should only repeat the HubSpot updates when retried after storing its result', async () => {
+      mockAnalyzeDocument.mockResolvedValueOnce(buildAnalysis({ summary: 'First pass' }));
+      const upload = uploadJob();
+      await processAnalysisJob(upload, reportStage);
+      const first = (await repository.analyses.get('portal-1', 'doc-1'))!;
+
+      mockAnalyzeDocument.mockResolvedValueOnce(buildAnalysis({ summary: 'Second pass' }));
+      const sync = jest.spyOn(dealProperties, 'syncDocumentDeals').mockRejectedValueOnce(new Error('Repository unavailable'));
+      const reanalysis = { ...upload, ...toReanalysisJob('portal-1', first)!, filePath: undefined, id: 'job-2' };
+      try {
+        await expect(processAnalysisJob(reanalysis, reportStage)).rejects.toThrow('Repository unavailable');
+        await expect(processAnalysisJob(reanalysis, reportStage)).resolves.toEqual({ documentId: 'doc-1' });
+
+        expect(mockAnalyzeDocument).toHaveBeenCalledTimes(2);
+        expect(sync).toHaveBeenCalledTimes(2);
+        expect(await repository.analyses.get('portal-1', 'doc-1')).toMatchObject({ version: 2, jobId: 'job-2' });
+        expect((await repository.analyses.listVersions('portal-1', 'doc-1')).map(v => v.summary)).toEqual(['First pass']);
+      } finally {
+        sync.mockRestore();
+      }
+    });
+
+    it('should keep dismissed risks and action progress through re-analysis', async () => {
+      const risk = {
+        id: 'risk-1',
+        category: 'liability_exposure' as const,
+        severity: 'critical' as const,
+        title: 'Unlimited liability',
+        description: 'Liability is not capped',
+        recommendation: 'Add a cap'
+      };
+      const action = { id: 'action-1', priority: 'urgent' as const, action: 'Add a cap', reason: 'Liability is not capped', status: 'pending' as const };
+      mockAnalyzeDocument.mockResolvedValueOnce(buildAnalysis({ summary: 'First pass', risks: [risk], requiredActions: [action] }));
+      const upload = uploadJob();
+      await processAnalysisJob(upload, reportStage);
+      fs.unlinkSync(upload.filePath!);
+
+      const first = (await repository.analyses.get('portal-1', 'doc-1'))!;
+      first.risks[0].dismissed = { by: 'counsel@example.com', at: '2024-02-01T00:00:00.000Z' };
+      first.requiredActions![0] = { ...action, status: 'completed', hubspotTaskId: '900' };
+      await repository.analyses.save('portal-1', first);
+
+      mockAnalyzeDocument.mockResolvedValueOnce(buildAnalysis({
+        summary: 'Second pass',
+        risks: [{ ...risk, id: 'risk-9' }],
+        requiredActions: [{ ...action, id: 'action-9' }],
+        riskScore: { overall: 30 }
+      }));
+      await processAnalysisJob({ ...upload, ...toReanalysisJob('portal-1', first)!, filePath: undefined, id: 'job-2' }, reportStage);
+
+      const current = (await repository.analyses.get('portal-1', 'doc-1'))!;
+      expect(current.risks[0]).toMatchObject({ id: 'risk-9', dismissed: { by: 'counsel@example.com' } });
+      expect(current.riskScore.overall).toBe(0);
+      expect(current.requiredActions).toEqual([{ ...action, status: 'completed', hubspotTaskId: '900' }]);
+    });
+
+    it('should store a revision uploaded to the deal as the next version', async () => {
+      await repository.analyses.save('portal-1', buildAnalysis({ documentId: 'doc-0', filename: 'Acme MSA.pdf', version: 1, summary: 'Previous round' }));
+      await repository.deals.add('portal-1', 'deal-1', 'doc-0');
+      mockAnalyzeDocument.mockResolvedValue(buildAnalysis({
+        summary: 'Redline',
+        filename: 'Acme MSA v2 (redline).pdf',
+        riskScore: { overall: 40 }
+      }));
+
+      const outcome = await processAnalysisJob({ ...uploadJob(), filename: 'Acme MSA v2 (redline).pdf' }, reportStage);
+
+      expect(outcome).toEqual({ documentId: 'doc-0' });
+      expect(await repository.analyses.get('portal-1', 'doc-1')).toBeUndefined();
+      expect(await repository.analyses.get('portal-1', 'doc-0')).toMatchObject({
+        version: 2,
+        summary: 'Redline',
+        riskScore: { overall: 40, trend: 'worsening' }
+      });
+      expect(await repository.deals.listDocumentIds('portal-1', 'deal-1')).toEqual(['doc-0']);
+    });
+
+    it('should fail when the original is missing from the blob store', async () => {
+      const job = { ...uploadJob(), filePath: undefined, blobHash: 'b'.repeat(64) };
+
+      await expect(processAnalysisJob(job, reportStage)).rejects.toThrow('missing from the blob store');
+      expect(mockAnalyzeDocument).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toReanalysisJob', () => {
+    it('should not re-analyze documents whose original was not retained', () => {
+      expect(toReanalysisJob('portal-1', buildAnalysis({ summary: 'Legacy' }))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Unit tests for the LLM provider service
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createOpenAIProvider,
+  createOpenAICompatibleProvider,
+  createFixtureProvider,
+  loadFixtureProvider,
+  getLlmProvider,
+  getPortalLlmProvider,
+  setDefaultLlmProvider,
+  getPortalLlmSettings,
+  setPortalLlmSettings,
+  removePortalLlmSettings,
+  validateLlmSettings,
+  trackUsage,
+  extractJson
+} from '../../src/services/llm-provider.service';
+import { config } from '../../src/config';
+import { createInMemoryRepository, setRepository } from '../../src/services/repository.service';
+
+jest.mock('../../src/config', () => ({
+  config: {
+    openai: { apiKey: '' },
+    llm: { provider: 'openai', model: 'gpt-4o-mini', baseUrl: '', apiKey: '', allowedHosts: ['localhost'] }
+  }
+}));
+
+const mockCreate = jest.fn();
+const mockConstructor = jest.fn();
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation((options) => {
+    mockConstructor(options);
+    return { chat: { completions: { create: mockCreate } } };
+  })
+}));
+
+const messages = [
+  { role: 'system' as const, content: 'You are a legal document analyzer.' },
+  { role: 'user' as const, content: 'Extract entities from the document' }
+];
+
+describe('LLM Provider Service', () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockConstructor.mockReset();
+  });
+
+  describe('createOpenAIProvider', () => {
+    it('should send the model and JSON mode and report token usage', async () => {
+      mockCreate.mockResolvedValue({
+        model: 'gpt-4o-mini-2024-07-18',
+        choices: [{ message: { content: '{"entities": []}' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 8, total_tokens: 128 }
+      });
+      const provider = createOpenAIProvider({ apiKey: 'key', model: 'gpt-4o-mini' });
+
+      const result = await provider.complete({ messages, temperature: 0.1, json: true });
+
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'gpt-4o-mini',
+        temperature: 0.1,
+        response_format: { type: 'json_object' }
+      }));
+      expect(result).toEqual({
+        content: '{"entities": []}',
+        model: 'gpt-4o-mini-2024-07-18',
+        usage: { promptTokens: 120, completionTokens: 8, totalTokens: 128 }
+      });
+    });
+
+    it('should omit JSON mode for plain completions', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: 'Summary.' } }] });
+      const provider = createOpenAIProvider({ apiKey: 'key', model: 'gpt-4o' });
+
+      await provider.complete({ messages, maxTokens: 200 });
+
+      expect(mockCreate.mock.calls[0][0]).not.toHaveProperty('response_format');
+      expect(mockCreate.mock.calls[0][0].max_tokens).toBe(200);
+    });
+  });
+
+  describe('createOpenAICompatibleProvider', () => {
+    it('should point the client at the local endpoint', () => {
+      createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' });
+
+      expect(mockConstructor).toHaveBeenCalledWith(expect.objectContaining({
+        baseURL: 'http://localhost:11434/v1'
+      }));
+    });
+
+    it('should retry without JSON mode when the server rejects it', async () => {
+      mockCreate
+        .mockRejectedValueOnce(Object.assign(new Error('response_format not supported'), { status: 400 }))
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Here you go:\n```json\n{"risks": []}\n```' } }] });
+      const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:8000/v1', model: 'qwen' });
+
+      const result = await provider.complete({ messages, json: true });
+
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      expect(mockCreate.mock.calls[1][0]).not.toHaveProperty('response_format');
+      expect(result.content).toBe('{"risks": []}');
+    });
+  });
+
+  describe('createFixtureProvider', () => {
+    it('should replay the first matching fixture', async () => {
+      const provider = createFixtureProvider([
+        { match: /summar/i, response: 'A summary.' },
+        { match: 'Extract entities', response: { entities: [] } }
+      ]);
+
+      const result = await provider.complete({ messages });
+
+      expect(result.content).toBe('{"entities":[]}');
+      expect(result.usage.totalTokens).toBeGreaterThan(0);
+    });
+
+    it('should fail on requests without a fixture', async () => {
+      const provider = createFixtureProvider([{ match: 'Combine', response: 'x' }]);
+
+      await expect(provider.complete({ messages })).rejects.toThrow('No LLM fixture matches');
+    });
+
+    it('should load fixtures from a JSON file', async () => {
+      const filePath = path.join(os.tmpdir(), `llm-fixtures-${process.pid}.json`);
+      fs.writeFileSync(filePath, JSON.stringify([{ match: 'Extract', response: 'ok' }]));
+
+      try {
+        const result = await loadFixtureProvider(filePath).complete({ messages });
+        expect(result.content).toBe('ok');
+      } finally {
+        fs.unlinkSync(filePath);
+      }
+    });
+  });
+
+  describe('getLlmProvider', () => {
+    beforeEach(() => {
+      setRepository(createInMemoryRepository());
+    });
+
+    afterEach(() => {
+      config.openai.apiKey = '';
+      setDefaultLlmProvider(undefined);
+      setRepository(null);
+    });
+
+    it('should return null when no provider is configured', () => {
+      expect(getLlmProvider()).toBeNull();
+    });
+
+    it('should use the configured OpenAI key and model', () => {
+      config.openai.apiKey = 'key';
+
+      expect(getLlmProvider()).toMatchObject({ name: 'openai', model: 'gpt-4o-mini' });
+    });
+
+    it('should prefer portal settings over the default', async () => {
+      setDefaultLlmProvider(createFixtureProvider([]));
+      await setPortalLlmSettings('portal-1', {
+        provider: 'openai-compatible',
+        model: 'llama3.1',
+        baseUrl: 'http://localhost:11434/v1'
+      });
+
+      expect(await getPortalLlmProvider('portal-1')).toMatchObject({ name: 'openai-compatible', model: 'llama3.1' });
+      expect(await getPortalLlmProvider('portal-2')).toMatchObject({ name: 'fixture' });
+    });
+
+    it('should keep portal settings in the repository', async () => {
+      const settings = { provider: 'openai' as const, model: 'gpt-4o', apiKey: 'portal-key' };
+      await setPortalLlmSettings('portal-1', settings);
+
+      expect(await getPortalLlmSettings('portal-1')).toEqual(settings);
+      expect(await removePortalLlmSettings('portal-1')).toBe(true);
+      expect(await getPortalLlmSettings('portal-1')).toBeUndefined();
+      expect(await removePortalLlmSettings('portal-1')).toBe(false);
+    });
+  });
+
+  describe('validateLlmSettings', () => {
+    it('should accept valid settings', () => {
+      expect(validateLlmSettings({ provider: 'openai', model: ' gpt-4o ' }).settings).toEqual({
+        provider: 'openai',
+        model: 'gpt-4o',
+        baseUrl: undefined,
+        apiKey: undefined
+      });
+    });
+
+    it('should reject unknown providers and missing fields', () => {
+      expect(validateLlmSettings({ provider: 'fixture', model: 'x' }).error).toContain('provider must be one of');
+      expect(validateLlmSettings({ provider: 'openai' }).error).toBe('model is required');
+      expect(validateLlmSettings({ provider: 'openai-compatible', model: 'x' }).error).toContain('baseUrl is required');
+      expect(validateLlmSettings({ provider: 'openai-compatible', model: 'x', baseUrl: 'not a url' }).error)
+        .toBe('baseUrl must be a valid URL');
+    });
+
+    it('should require https on public hosts', () => {
+      const validate = (baseUrl: string) => validateLlmSettings({ provider: 'openai-compatible', model: 'x', baseUrl });
+
+      expect(validate('https://llm.example.com/v1').settings?.baseUrl).toBe('https://llm.example.com/v1');
+      expect(validate('http://llm.example.com/v1').error).toBe('baseUrl must be an https URL');
+      expect(validate('ftp://llm.example.com').error).toBe('baseUrl must be an https URL');
+    });
+
+    it('should reject private and loopback hosts unless allowed', () => {
+      const validate = (baseUrl: string) => validateLlmSettings({ provider: 'openai-compatible', model: 'x', baseUrl });
+
+      for (const host of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.5', '169.254.169.254', '[::1]', '[fd00::1]', '[::ffff:127.0.0.1]', 'db.internal']) {
+        expect(validate(`https://${host}/v1`).error).toContain('add it to LLM_ALLOWED_HOSTS');
+      }
+      expect(validate('https://172.32.0.1/v1').settings).toBeDefined();
+      expect(validate('http://localhost:11434/v1').settings).toBeDefined();
+      expect(validate('ftp://localhost').error).toBe('baseUrl must be an http(s) URL');
+    });
+  });
+
+  describe('trackUsage', () => {
+    it('should accumulate usage across requests', async () => {
+      const provider = trackUsage(createFixtureProvider([
+        { match: 'Extract', response: 'ok', usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 } }
+      ]));
+
+      await provider.complete({ messages });
+      await provider.complete({ messages });
+
+      expect(provider.getUsage()).toEqual({
+        provider: 'fixture',
+        model: 'fixture',
+        requests: 2,
+        promptTokens: 20,
+        completionTokens: 4,
+        totalTokens: 24
+      });
+    });
+  });
+
+  describe('extractJson', () => {
+    it('should strip prose and code fences around JSON', () => {
+      expect(extractJson('Sure! {"a": 1} Hope that helps.')).toBe('{"a": 1}');
+      expect(extractJson('```json\n[1, 2]\n```')).toBe('[1, 2]');
+      expect(extractJson('no json here')).toBe('no json here');
+    });
+  });
+});
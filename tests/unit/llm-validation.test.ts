@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the LLM validation service
+ */
+
+import {
+  validateEntity,
+  validateRisk,
+  validateEntityResponse,
+  validateRiskResponse,
+  buildRepairPrompt,
+  ENTITY_TYPES,
+  RISK_SEVERITIES
+} from '../../src/services/llm-validation.service';
+
+const validRisk = {
+  category: 'payment_risk',
+  severity: 'high',
+  title: 'Late fees',
+  description: 'Late payment accrues 5% monthly interest.',
+  recommendation: 'Cap late fees.'
+};
+
+describe('LLM Validation Service', () => {
+  describe('union values', () => {
+    it('should list every entity type and severity', () => {
+      expect(ENTITY_TYPES).toHaveLength(12);
+      expect(RISK_SEVERITIES).toEqual(['low', 'medium', 'high', 'critical']);
+    });
+  });
+
+  describe('validateEntity', () => {
+    it('should accept a valid entity and trim its value', () => {
+      expect(validateEntity({ type: 'party_name', value: ' Acme Corp ', confidence: 0.9 })).toEqual({
+        entity: { type: 'party_name', value: 'Acme Corp', confidence: 0.9 },
+        errors: []
+      });
+    });
+
+    it('should report every invalid field', () => {
+      const { entity, errors } = validateEntity({ type: 'company', value: '', confidence: 85 });
+
+      expect(entity).toBeUndefined();
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toContain('type must be one of');
+    });
+
+    it('should reject non-objects', () => {
+      expect(validateEntity('Acme Corp').errors).toEqual(['entity must be an object']);
+    });
+  });
+
+  describe('validateRisk', () => {
+    it('should accept a valid risk', () => {
+      expect(validateRisk({ ...validRisk, relatedClauses: ['Section 4'] }).risk).toEqual({
+        ...validRisk,
+        relatedClauses: ['Section 4']
+      });
+    });
+
+    it('should reject unknown categories and severities', () => {
+      const { risk, errors } = validateRisk({ ...validRisk, category: 'financial', severity: 'severe' });
+
+      expect(risk).toBeUndefined();
+      expect(errors).toEqual([
+        expect.stringContaining('category must be one of'),
+        expect.stringContaining('severity must be one of')
+      ]);
+    });
+
+    it('should require text fields and string clause references', () => {
+      const { errors } = validateRisk({ ...validRisk, title: undefined, relatedClauses: [4] });
+
+      expect(errors).toEqual([
+        'title must be a non-empty string',
+        'relatedClauses must be an array of strings'
+      ]);
+    });
+  });
+
+  describe('validateEntityResponse / validateRiskResponse', () => {
+    it('should split valid and rejected items', () => {
+      const result = validateRiskResponse(JSON.stringify({ risks: [validRisk, { ...validRisk, severity: 'urgent' }] }));
+
+      expect(result.items).toHaveLength(1);
+      expect(result.rejected).toEqual([{
+        item: { ...validRisk, severity: 'urgent' },
+        errors: [expect.stringContaining('severity must be one of')]
+      }]);
+    });
+
+    it('should accept entity responses as an object or a bare array', () => {
+      const entity = { type: 'date', value: '2024-01-01', confidence: 0.8 };
+
+      expect(validateEntityResponse(JSON.stringify({ entities: [entity] })).items).toHaveLength(1);
+      expect(validateEntityResponse(JSON.stringify([entity])).items).toHaveLength(1);
+    });
+
+    it('should flag unusable responses', () => {
+      expect(validateRiskResponse('not json').error).toBe('Response is not valid JSON');
+      expect(validateRiskResponse('{"issues": []}').error).toContain('"risks" array');
+    });
+  });
+
+  describe('buildRepairPrompt', () => {
+    it('should list the rejected items and their errors', () => {
+      const prompt = buildRepairPrompt(validateRiskResponse(JSON.stringify({ risks: [{ ...validRisk, severity: 'urgent' }] })));
+
+      expect(prompt).toContain('"severity":"urgent"');
+      expect(prompt).toContain('severity must be one of: low, medium, high, critical');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for the page layout service
+ */
+
+import {
+  buildPageLayout,
+  stripPageMarkers,
+  locateRange,
+  findTextLocation
+} from '../../src/services/page-layout.service';
+import { DocumentPage } from '../../src/types';
+
+describe('Page Layout Service', () => {
+  const text = 'Page one text.\n-- 1 of 2 --\n\nPage two mentions unlimited liability.\n-- 2 of 2 --';
+
+  describe('buildPageLayout', () => {
+    it('should build page ranges from page markers', () => {
+      const layout = buildPageLayout(text);
+
+      expect(layout).toHaveLength(2);
+      expect(text.slice(layout[0].start, layout[0].end)).toBe('Page one text.\n');
+      expect(text.slice(layout[1].start, layout[1].end).trim()).toBe('Page two mentions unlimited liability.');
+    });
+
+    it('should treat text without markers as a single page', () => {
+      const layout = buildPageLayout('Plain text document');
+
+      expect(layout).toEqual([{ page: 1, start: 0, end: 19 }]);
+    });
+  });
+
+  describe('stripPageMarkers', () => {
+    it('should remove page markers', () => {
+      expect(stripPageMarkers(text)).not.toContain('of 2 --');
+    });
+  });
+
+  describe('locateRange', () => {
+    it('should resolve offsets to a page', () => {
+      const layout = buildPageLayout(text);
+      const start = text.indexOf('unlimited');
+
+      const location = locateRange(layout, start, start + 9);
+
+      expect(location).toEqual({ start, end: start + 9, page: 2 });
+    });
+
+    it('should attach the bounding box of an OCR block', () => {
+      const layout: DocumentPage[] = [{
+        page: 1,
+        start: 0,
+        end: 40,
+        blocks: [{ text: 'Block', start: 10, end: 30, bbox: { x0: 1, y0: 2, x1: 3, y1: 4 }, confidence: 0.9 }]
+      }];
+
+      const location = locateRange(layout, 12, 15);
+
+      expect(location.bbox).toEqual({ x0: 1, y0: 2, x1: 3, y1: 4 });
+    });
+
+    it('should return offsets only when no layout is available', () => {
+      expect(locateRange(undefined, 5, 10)).toEqual({ start: 5, end: 10 });
+    });
+  });
+
+  describe('findTextLocation', () => {
+    it('should locate snippets ignoring case and whitespace', () => {
+      const layout = buildPageLayout(text);
+
+      const location = findTextLocation(text, layout, 'UNLIMITED   liability');
+
+      expect(location?.page).toBe(2);
+      expect(text.slice(location!.start, location!.end)).toBe('unlimited liability');
+    });
+
+    it('should return undefined for snippets not in the text', () => {
+      expect(findTextLocation(text, undefined, 'indemnification')).toBeUndefined();
+      expect(findTextLocation(text, undefined, '   ')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the page rendering service
+ */
+
+import {
+  renderDetailsPage,
+  renderDismissRiskPage,
+  renderErrorPage,
+  renderUploadPage
+} from '../../src/services/page-rendering.service';
+import { DocumentAnalysis } from '../../src/types';
+
+const analysis: DocumentAnalysis = {
+  documentId: 'doc-1',
+  filename: 'Acme <MSA>.pdf',
+  documentType: 'msa',
+  version: 2,
+  uploadedAt: '2024-01-01T00:00:00.000Z',
+  analyzedAt: '2024-01-02T00:00:00.000Z',
+  entities: [{
+    type: 'party_name',
+    value: 'Acme Corp',
+    confidence: 0.9,
+    evidence: 'between Acme Corp and Globex',
+    location: { page: 1 }
+  }],
+  risks: [
+    {
+      id: 'r1',
+      category: 'liability_exposure',
+      severity: 'critical',
+      title: 'Unlimited liability',
+      description: 'Liability is not capped',
+      recommendation: 'Add a cap',
+      evidence: 'liability shall be unlimited',
+      location: { page: 4 }
+    },
+    {
+      id: 'r2',
+      category: 'payment_risk',
+      severity: 'low',
+      title: 'Late fees',
+      description: 'No late fees',
+      recommendation: 'Add late fees',
+      dismissed: { by: 'counsel@example.com', at: '2024-01-03T00:00:00.000Z', reason: 'Not needed' }
+    }
+  ],
+  missingTerms: [{ term: 'Governing Law', importance: 'required', description: 'Jurisdiction', impact: 'Disputes have no forum' }],
+  blockers: [{ id: 'b1', type: 'missing_signature', title: 'Signatures Required', description: 'Unsigned', requiredAction: 'Obtain signatures' }],
+  riskScore: {
+    overall: 65,
+    breakdown: { missingClauses: 10, unfavorableTerms: 0, complianceIssues: 0, liabilityExposure: 25 },
+    grade: 'D',
+    trend: 'worsening'
+  },
+  summary: 'Master services agreement between Acme & Globex.'
+};
+
+describe('Page Rendering Service', () => {
+  describe('renderDetailsPage', () => {
+    const html = renderDetailsPage(analysis, 'test-nonce');
+
+    it('should show the summary, score and breakdown', () => {
+      expect(html).toContain('<h1>Acme &lt;MSA&gt;.pdf</h1>');
+      expect(html).toContain('Master Service Agreement');
+      expect(html).toContain('Version 2');
+      expect(html).toContain('<span class="grade grade-D">D</span>');
+      expect(html).toContain('Risk score 65/100');
+      expect(html).toContain('<tr><th>Liability Exposure</th><td>25/25</td></tr>');
+      expect(html).toContain('between Acme &amp; Globex.');
+    });
+
+    it('should explain the grade', () => {
+      expect(html).toContain('<h2>Why is this a D?</h2>');
+      expect(html).toContain('Grade D: risk score 65 of 100, in the D range of 61-80.');
+      expect(html).toContain('<td>Critical Risk &quot;Unlimited liability&quot; (liability exposure): 30 x 1 = 30 points</td><td>+30</td>');
+    });
+
+    it('should show risks with their evidence and any dismissal', () => {
+      expect(html).toContain('&ldquo;liability shall be unlimited&rdquo; <span class="muted">(page 4)</span>');
+      expect(html).toContain('Dismissed by counsel@example.com: Not needed');
+    });
+
+    it('should show missing terms, blockers and entities', () => {
+      expect(html).toContain('Disputes have no forum');
+      expect(html).toContain('Obtain signatures');
+      expect(html).toContain('<td>party name</td>');
+      expect(html).toContain('Acme Corp');
+    });
+
+    it('should only style the page through the nonce', () => {
+      expect(html).toContain('<style nonce="test-nonce">');
+      expect(html).not.toContain('style="');
+    });
+  });
+
+  describe('renderUploadPage', () => {
+    it('should embed the deal and portal safely in the script', () => {
+      const html = renderUploadPage('portal-1', 'deal</script><script>alert(1)', 'test-nonce');
+
+      expect(html).toContain('<script nonce="test-nonce">');
+      expect(html).toContain('var portalId = "portal-1";');
+      expect(html).toContain('var dealId = "deal\\u003c/script>\\u003cscript>alert(1)";');
+      expect(html.match(/<\/script>/g)).toHaveLength(1);
+    });
+  });
+
+  describe('renderDismissRiskPage', () => {
+    const grant = { token: 'signed-grant', user: 'rep@example.com' };
+
+    it('should ask for a reason and post it with the grant', () => {
+      const html = renderDismissRiskPage('portal-1', analysis, analysis.risks[0], grant, 'test-nonce');
+
+      expect(html).toContain('<strong>Unlimited liability</strong>');
+      expect(html).toContain('<textarea id="reason" name="reason" rows="3" maxlength="500" required></textarea>');
+      expect(html).toContain('Dismissing as rep@example.com.');
+      expect(html).toContain('var grant = "signed-grant";');
+      expect(html).toContain('var url = "../../api/documents/doc-1/risks/r1/dismiss";');
+    });
+
+    it('should not offer to dismiss a risk twice', () => {
+      const html = renderDismissRiskPage('portal-1', analysis, analysis.risks[1], grant, 'test-nonce');
+
+      expect(html).toContain('<h1>Risk Already Dismissed</h1>');
+      expect(html).toContain('Dismissed by counsel@example.com: Not needed');
+      expect(html).not.toContain('<form');
+    });
+  });
+
+  describe('renderErrorPage', () => {
+    it('should escape the message', () => {
+      expect(renderErrorPage('Not Found', 'No <b>document</b>', 'n')).toContain('<p>No &lt;b&gt;document&lt;/b&gt;</p>');
+    });
+  });
+});
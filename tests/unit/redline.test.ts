@@ -0,0 +1,130 @@
+/**
+ * Unit tests for the redline service
+ */
+
+import { compareAnalyses, diffWords, matchClauses } from '../../src/services/redline.service';
+import { segmentClauses } from '../../src/services/clause-segmentation.service';
+import { DocumentAnalysis, DocumentRisk, RiskGrade } from '../../src/types';
+import { buildAnalysis } from '../fixtures/analysis';
+
+const round2 = `MASTER SERVICES AGREEMENT
+
+1. Services
+Supplier shall provide the services described in each statement of work.
+
+2. Payment
+Customer shall pay all invoices within 30 days of receipt.
+
+3. Liability
+Supplier's liability under this agreement is unlimited.
+
+4. Confidentiality
+Each party shall keep the other party's confidential information secret.`;
+
+const round3 = `MASTER SERVICES AGREEMENT
+
+1. Services
+Supplier shall provide the services described in each statement of work.
+
+2. Payment
+Customer shall pay all invoices within 45 days of receipt.
+
+3. Confidentiality
+Each party shall keep the other party's confidential information secret.
+
+4. Termination
+Either party may terminate this agreement on 90 days written notice.`;
+
+function buildRound(
+  text: string,
+  version: number,
+  overall: number,
+  grade: RiskGrade,
+  risks: DocumentRisk[]
+): DocumentAnalysis {
+  return buildAnalysis({
+    filename: `MSA round ${version + 1}.docx`,
+    version,
+    analyzedAt: `2024-01-0${version}T00:00:00.000Z`,
+    risks,
+    riskScore: {
+      overall,
+      breakdown: { missingClauses: 10, unfavorableTerms: 20, complianceIssues: 0, liabilityExposure: overall },
+      grade
+    },
+    clauses: segmentClauses({ text, pages: 1, metadata: {}, confidence: 1 })
+  });
+}
+
+const unlimitedLiability: DocumentRisk = {
+  id: 'r1',
+  category: 'liability_exposure',
+  severity: 'critical',
+  title: 'Unlimited liability',
+  description: 'Liability is not capped.',
+  recommendation: 'Add a cap.'
+};
+
+describe('Redline Service', () => {
+  describe('compareAnalyses', () => {
+    const comparison = compareAnalyses(
+      buildRound(round2, 1, 70, 'D', [unlimitedLiability]),
+      buildRound(round3, 2, 30, 'B', [])
+    );
+
+    it('should report modified clauses with a word diff', () => {
+      expect(comparison.clauses.modified).toHaveLength(1);
+      const [payment] = comparison.clauses.modified;
+      expect(payment.revised.heading).toBe('Payment');
+      expect(payment.diff).toEqual([
+        { type: 'equal', text: '2. Payment Customer shall pay all invoices within' },
+        { type: 'delete', text: '30' },
+        { type: 'insert', text: '45' },
+        { type: 'equal', text: 'days of receipt.' }
+      ]);
+    });
+
+    it('should report added and removed clauses and ignore renumbering', () => {
+      expect(comparison.clauses.removed.map(c => c.heading)).toEqual(['Liability']);
+      expect(comparison.clauses.added.map(c => c.heading)).toEqual(['Termination']);
+      // Preamble, Services and the renumbered Confidentiality clause
+      expect(comparison.clauses.unchangedCount).toBe(3);
+    });
+
+    it('should report resolved risks and the score delta', () => {
+      expect(comparison.risks.resolved).toEqual([
+        { category: 'liability_exposure', severity: 'critical', title: 'Unlimited liability' }
+      ]);
+      expect(comparison.risks.introduced).toEqual([]);
+      expect(comparison.score).toMatchObject({
+        base: 70,
+        revised: 30,
+        delta: -40,
+        gradeChange: { from: 'D', to: 'B' },
+        breakdownDelta: { missingClauses: 0, liabilityExposure: -40 }
+      });
+      expect(comparison.base).toMatchObject({ version: 1, documentId: 'doc-1' });
+      expect(comparison.revised.version).toBe(2);
+    });
+  });
+
+  describe('matchClauses', () => {
+    it('should pair reworded clauses that changed number and heading', () => {
+      const [base] = segmentClauses({ text: '7. Fees\nCustomer pays the monthly subscription fee in advance each month.', pages: 1, metadata: {}, confidence: 1 });
+      const [revised] = segmentClauses({ text: '8. Charges\nCustomer pays the monthly subscription fee in arrears each month.', pages: 1, metadata: {}, confidence: 1 });
+
+      const { pairs, added, removed } = matchClauses([base], [revised]);
+
+      expect(pairs).toHaveLength(1);
+      expect(added).toEqual([]);
+      expect(removed).toEqual([]);
+    });
+  });
+
+  describe('diffWords', () => {
+    it('should handle empty texts', () => {
+      expect(diffWords('', 'New clause')).toEqual([{ type: 'insert', text: 'New clause' }]);
+      expect(diffWords('Old clause', '')).toEqual([{ type: 'delete', text: 'Old clause' }]);
+    });
+  });
+});
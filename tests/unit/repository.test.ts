@@ -0,0 +1,175 @@
+/**
+ * Unit tests for the repository service
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createInMemoryRepository,
+  createFileRepository,
+  getDealAnalyses,
+  setRepository
+} from '../../src/services/repository.service';
+import { DEFAULT_SCORING_POLICY } from '../../src/services/scoring-policy.service';
+import { Repository } from '../../src/types';
+import { buildAnalysis } from '../fixtures/analysis';
+
+const tokens = { accessToken: 'access', refreshToken: 'refresh', expiresAt: 1, portalId: 'portal-1' };
+
+describe('Repository Service', () => {
+  describe('createInMemoryRepository', () => {
+    let repository: Repository;
+
+    beforeEach(() => {
+      repository = createInMemoryRepository();
+    });
+
+    it('should save, get and delete analyses', async () => {
+      await repository.analyses.save('portal-1', buildAnalysis({ documentId: 'doc-1' }));
+
+      expect((await repository.analyses.get('portal-1', 'doc-1'))?.filename).toBe('doc-1.pdf');
+      expect(await repository.analyses.delete('portal-1', 'doc-1')).toBe(true);
+      expect(await repository.analyses.delete('portal-1', 'doc-1')).toBe(false);
+      expect(await repository.analyses.get('portal-1', 'doc-1')).toBeUndefined();
+    });
+
+    it('should return copies so changes need an explicit save', async () => {
+      await repository.analyses.save('portal-1', buildAnalysis({ documentId: 'doc-1' }));
+
+      const analysis = (await repository.analyses.get('portal-1', 'doc-1'))!;
+      analysis.summary = 'Changed';
+
+      expect((await repository.analyses.get('portal-1', 'doc-1'))!.summary).toBe('Summary');
+    });
+
+    it('should keep prior versions until the document is deleted', async () => {
+      await repository.analyses.archive('portal-1', buildAnalysis({ documentId: 'doc-1' }));
+      await repository.analyses.archive('portal-1', { ...buildAnalysis({ documentId: 'doc-1' }), summary: 'Second' });
+      await repository.analyses.save('portal-1', buildAnalysis({ documentId: 'doc-1' }));
+
+      expect((await repository.analyses.listVersions('portal-1', 'doc-1')).map(v => v.summary)).toEqual(['Summary', 'Second']);
+      expect(await repository.analyses.listVersions('portal-2', 'doc-1')).toEqual([]);
+
+      await repository.analyses.delete('portal-1', 'doc-1');
+
+      expect(await repository.analyses.listVersions('portal-1', 'doc-1')).toEqual([]);
+    });
+
+    it('should track deal associations without duplicates', async () => {
+      await repository.deals.add('portal-1', 'deal-1', 'doc-1');
+      await repository.deals.add('portal-1', 'deal-1', 'doc-1');
+      await repository.deals.add('portal-1', 'deal-1', 'doc-2');
+      await repository.deals.add('portal-1', 'deal-2', 'doc-2');
+
+      expect(await repository.deals.listDealIds('portal-1', 'doc-2')).toEqual(['deal-1', 'deal-2']);
+      expect(await repository.deals.listDealIds('portal-2', 'doc-2')).toEqual([]);
+
+      await repository.deals.removeDocument('portal-1', 'doc-2');
+
+      expect(await repository.deals.listDocumentIds('portal-1', 'deal-1')).toEqual(['doc-1']);
+      expect(await repository.deals.listDocumentIds('portal-1', 'deal-2')).toEqual([]);
+    });
+
+    it('should keep each portal\'s analyses and deals separate', async () => {
+      await repository.analyses.save('portal-1', buildAnalysis({ documentId: 'doc-1' }));
+      await repository.deals.add('portal-1', 'deal-1', 'doc-1');
+
+      expect((await repository.analyses.get('portal-1', 'doc-1'))?.portalId).toBe('portal-1');
+      expect(await repository.analyses.get('portal-2', 'doc-1')).toBeUndefined();
+      expect(await repository.analyses.delete('portal-2', 'doc-1')).toBe(false);
+      expect(await repository.deals.listDocumentIds('portal-2', 'deal-1')).toEqual([]);
+
+      await repository.deals.removeDocument('portal-2', 'doc-1');
+
+      expect(await repository.deals.listDocumentIds('portal-1', 'deal-1')).toEqual(['doc-1']);
+    });
+
+    it('should store portal tokens', async () => {
+      await repository.tokens.save('portal-1', tokens);
+
+      expect(await repository.tokens.get('portal-1')).toEqual(tokens);
+      expect(await repository.tokens.delete('portal-1')).toBe(true);
+      expect(await repository.tokens.get('portal-1')).toBeUndefined();
+    });
+
+    it('should keep every scoring policy version after reverting to the default', async () => {
+      const policy = { ...DEFAULT_SCORING_POLICY, blockerPenalty: 10 };
+      await repository.policies.save('portal-1', { ...policy, version: 1 });
+      await repository.policies.save('portal-1', { ...policy, version: 2 });
+
+      expect((await repository.policies.getActive('portal-1'))?.version).toBe(2);
+      expect(await repository.policies.getActive('portal-2')).toBeUndefined();
+
+      expect(await repository.policies.deactivate('portal-1')).toBe(true);
+      expect(await repository.policies.deactivate('portal-1')).toBe(false);
+      expect(await repository.policies.getActive('portal-1')).toBeUndefined();
+      expect((await repository.policies.listVersions('portal-1')).map(p => p.version)).toEqual([1, 2]);
+      expect((await repository.policies.getVersion('portal-1', 1))?.blockerPenalty).toBe(10);
+    });
+  });
+
+  describe('createFileRepository', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'repository-test-'));
+      filePath = path.join(directory, 'nested', 'store.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should persist data across instances', async () => {
+      const first = createFileRepository(filePath);
+      await first.analyses.save('portal-1', buildAnalysis({ documentId: 'doc-1' }));
+      await first.deals.add('portal-1', 'deal-1', 'doc-1');
+      await first.tokens.save('portal-1', tokens);
+      await first.policies.save('portal-1', { ...DEFAULT_SCORING_POLICY, version: 1 });
+      await first.llmSettings.save('portal-1', { provider: 'openai', model: 'gpt-4o' });
+      await first.appSettings.save({ timelineEventTemplateId: '2002' });
+
+      const second = createFileRepository(filePath);
+
+      expect((await second.analyses.get('portal-1', 'doc-1'))?.documentId).toBe('doc-1');
+      expect(await second.deals.listDocumentIds('portal-1', 'deal-1')).toEqual(['doc-1']);
+      expect(await second.tokens.get('portal-1')).toEqual(tokens);
+      expect((await second.policies.getActive('portal-1'))?.version).toBe(1);
+      expect(await second.llmSettings.get('portal-1')).toEqual({ provider: 'openai', model: 'gpt-4o' });
+      expect(await second.appSettings.get()).toEqual({ timelineEventTemplateId: '2002' });
+    });
+
+    it('should not leave a temporary file behind', async () => {
+      await createFileRepository(filePath).analyses.save('portal-1', buildAnalysis({ documentId: 'doc-1' }));
+
+      expect(fs.readdirSync(path.dirname(filePath))).toEqual(['store.json']);
+    });
+
+    it('should reject a corrupt store file', () => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, '{not json');
+
+      expect(() => createFileRepository(filePath)).toThrow('Invalid store file');
+    });
+  });
+
+  describe('getDealAnalyses', () => {
+    afterEach(() => {
+      setRepository(null);
+    });
+
+    it('should load the analyses associated with a deal', async () => {
+      const repository = createInMemoryRepository();
+      setRepository(repository);
+      await repository.analyses.save('portal-1', buildAnalysis({ documentId: 'doc-1' }));
+      await repository.deals.add('portal-1', 'deal-1', 'doc-1');
+      await repository.deals.add('portal-1', 'deal-1', 'missing-doc');
+
+      const analyses = await getDealAnalyses('portal-1', 'deal-1');
+
+      expect(analyses.map(a => a.documentId)).toEqual(['doc-1']);
+    });
+  });
+});
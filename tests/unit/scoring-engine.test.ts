@@ -4,11 +4,18 @@
 
 import {
   calculateRiskScore,
+  calculateDealScore,
+  countOpenFindings,
+  explainRiskScore,
+  getGradeRange,
+  getScoreContributions,
   generateRequiredActions,
   getRiskScoreColor,
   formatRiskScore
 } from '../../src/services/scoring-engine.service';
+import { DEFAULT_SCORING_POLICY } from '../../src/services/scoring-policy.service';
 import { DocumentRisk, MissingTerm, DealBlocker, RiskScore } from '../../src/types';
+import { buildAnalysis } from '../fixtures/analysis';
 
 describe('Scoring Engine Service', () => {
   describe('calculateRiskScore', () => {
@@ -23,6 +30,49 @@ describe('Scoring Engine Service', () => {
       expect(score.grade).toBe('A');
     });
 
+    it('should halve the weight of unverified risks', () => {
+      const risk: DocumentRisk = {
+        id: '1',
+        category: 'liability_exposure',
+        severity: 'critical',
+        title: 'Unlimited liability',
+        description: 'Liability is not capped',
+        recommendation: 'Add a cap'
+      };
+
+      const verified = calculateRiskScore([{ ...risk, verified: true }], [], []);
+      const unverified = calculateRiskScore([{ ...risk, verified: false }], [], []);
+
+      expect(verified.overall).toBe(30);
+      expect(unverified.overall).toBe(15);
+    });
+
+    it('should leave out dismissed risks and resolved blockers', () => {
+      const risk: DocumentRisk = {
+        id: '1',
+        category: 'liability_exposure',
+        severity: 'critical',
+        title: 'Unlimited liability',
+        description: 'Liability is not capped',
+        recommendation: 'Add a cap'
+      };
+      const blocker: DealBlocker = {
+        id: '1',
+        type: 'legal_review',
+        title: 'Legal review',
+        description: 'Counsel must review',
+        requiredAction: 'Send to legal'
+      };
+      const decision = { by: 'counsel@example.com', at: '2024-01-01T00:00:00.000Z' };
+
+      const open = calculateRiskScore([risk], [], [blocker]);
+      const decided = calculateRiskScore([{ ...risk, dismissed: decision }], [], [{ ...blocker, resolved: decision }]);
+
+      expect(open.overall).toBe(35);
+      expect(decided).toMatchObject({ overall: 0, grade: 'A' });
+      expect(decided.breakdown.liabilityExposure).toBe(0);
+    });
+
     it('should calculate score from risks', () => {
       const risks: DocumentRisk[] = [
         {
@@ -132,6 +182,287 @@ describe('Scoring Engine Service', () => {
     });
   });
 
+  describe('score contributions', () => {
+    const risks: DocumentRisk[] = [
+      {
+        id: 'r1',
+        category: 'liability_exposure',
+        severity: 'critical',
+        title: 'Unlimited liability',
+        description: 'Liability is not capped',
+        recommendation: 'Add a cap'
+      },
+      {
+        id: 'r2',
+        category: 'payment_risk',
+        severity: 'high',
+        title: 'Late payment',
+        description: 'No late fees',
+        recommendation: 'Add late fees',
+        verified: false
+      },
+      {
+        id: 'r3',
+        category: 'termination_risk',
+        severity: 'low',
+        title: 'Auto-renewal',
+        description: 'Renews automatically',
+        recommendation: 'Add an opt-out',
+        dismissed: { by: 'counsel@example.com', at: '2024-01-02T00:00:00.000Z' }
+      }
+    ];
+    const missingTerms: MissingTerm[] = [
+      { term: 'Governing Law', importance: 'required', description: 'Jurisdiction', impact: 'No forum' }
+    ];
+    const blockers: DealBlocker[] = [
+      { id: 'b1', type: 'missing_signature', title: 'Signatures Required', description: 'Unsigned', requiredAction: 'Sign' },
+      {
+        id: 'b2',
+        type: 'legal_review',
+        title: 'Legal review',
+        description: 'Needs review',
+        requiredAction: 'Review',
+        resolved: { by: 'counsel@example.com', at: '2024-01-02T00:00:00.000Z' }
+      }
+    ];
+
+    it('should itemize every finding with its weight, multiplier and points', () => {
+      const score = calculateRiskScore(risks, missingTerms, blockers);
+
+      expect(score.contributions).toEqual([
+        { kind: 'risk', id: 'r1', label: 'Unlimited liability', category: 'liability_exposure', severity: 'critical', weight: 30, multiplier: 1, points: 30 },
+        { kind: 'risk', id: 'r2', label: 'Late payment', category: 'payment_risk', severity: 'high', weight: 20, multiplier: 0.375, points: 7.5, unverified: true },
+        { kind: 'risk', id: 'r3', label: 'Auto-renewal', category: 'termination_risk', severity: 'low', weight: 15, multiplier: 0, points: 0, setAside: 'dismissed' },
+        { kind: 'missing_term', label: 'Governing Law', category: 'required', weight: 10, multiplier: 1, points: 10 },
+        { kind: 'blocker', id: 'b1', label: 'Signatures Required', category: 'missing_signature', weight: 5, multiplier: 1, points: 5 },
+        { kind: 'blocker', id: 'b2', label: 'Legal review', category: 'legal_review', weight: 5, multiplier: 0, points: 0, setAside: 'resolved' }
+      ]);
+      expect(score.overall).toBe(53);
+    });
+
+    it('should explain the grade finding by finding, largest first', () => {
+      const analysis = buildAnalysis({
+        filename: 'Acme MSA.pdf',
+        documentType: 'msa',
+        risks,
+        missingTerms,
+        blockers,
+        riskScore: calculateRiskScore(risks, missingTerms, blockers)
+      });
+
+      const explanation = explainRiskScore(analysis);
+
+      expect(explanation.summary).toBe('Grade C: risk score 53 of 100, in the C range of 41-60.');
+      expect(explanation.reasons.map(r => r.text)).toEqual([
+        'Critical Risk "Unlimited liability" (liability exposure): 30 x 1 = 30 points',
+        'Missing required term "Governing Law": 10 points',
+        'High Risk "Late payment" (payment risk): 20 x 0.375 = 7.5 points, halved because its evidence was not found in the document',
+        'Blocker "Signatures Required" (missing signature): 5 points',
+        'Dismissed risk "Auto-renewal" (termination risk) adds no points',
+        'Resolved blocker "Legal review" adds no points'
+      ]);
+    });
+
+    it('should say when the score was capped and which policy graded it', () => {
+      const policy = {
+        ...DEFAULT_SCORING_POLICY,
+        version: 3,
+        gradeCutoffs: { A: 10, B: 30, C: 50, D: 70 }
+      };
+      const critical = risks.slice(0, 1);
+      const manyRisks = [0, 1, 2, 3].map(i => ({ ...critical[0], id: `r${i}` }));
+      const analysis = buildAnalysis({
+        filename: 'Acme MSA.pdf',
+        documentType: 'msa',
+        risks: manyRisks,
+        riskScore: calculateRiskScore(manyRisks, [], [], policy)
+      });
+
+      expect(explainRiskScore(analysis, policy).summary).toBe(
+        'Grade F: risk score 100 of 100, in the F range of 71-100, under scoring policy version 3, ' +
+        'findings add up to 120 points, capped at 100.'
+      );
+    });
+
+    it('should itemize scores stored before contributions were recorded', () => {
+      const analysis = buildAnalysis({
+        filename: 'Acme MSA.pdf',
+        documentType: 'msa',
+        riskScore: { overall: 40 },
+        risks: risks.slice(0, 1)
+      });
+
+      expect(getScoreContributions(analysis).map(c => c.points)).toEqual([30]);
+    });
+
+    it('should give the score range of each grade under a policy', () => {
+      expect(getGradeRange('A')).toEqual({ min: 0, max: 20 });
+      expect(getGradeRange('D')).toEqual({ min: 61, max: 80 });
+      expect(getGradeRange('F', { ...DEFAULT_SCORING_POLICY, gradeCutoffs: { A: 5, B: 10, C: 15, D: 50 } }))
+        .toEqual({ min: 51, max: 100 });
+    });
+  });
+
+  describe('calculateDealScore', () => {
+    const unsigned: DealBlocker = {
+      id: 'b1',
+      type: 'missing_signature',
+      title: 'Signatures Required',
+      description: 'Unsigned',
+      requiredAction: 'Obtain signatures'
+    };
+
+    it('should not let a low-risk NDA dilute a risky MSA', () => {
+      const score = calculateDealScore([
+        buildAnalysis({ documentId: 'msa', filename: 'Acme MSA.pdf', documentType: 'msa', riskScore: { overall: 80 } }),
+        buildAnalysis({ documentId: 'nda', filename: 'Acme NDA.pdf', documentType: 'nda', riskScore: { overall: 0 } })
+      ]);
+
+      expect(score.overall).toBe(62);
+      expect(score.grade).toBe('D');
+      expect(score.documents.map(d => d.weight)).toEqual([1, 0.3]);
+    });
+
+    it('should weight older documents less, down to a floor', () => {
+      const score = calculateDealScore([
+        buildAnalysis({
+          documentId: 'new',
+          filename: 'Services Agreement.pdf',
+          documentType: 'agreement',
+          uploadedAt: '2025-01-01T00:00:00.000Z',
+          analyzedAt: '2025-01-01T00:00:00.000Z',
+          riskScore: { overall: 0 }
+        }),
+        buildAnalysis({
+          documentId: 'old',
+          filename: 'Acme MSA.pdf',
+          documentType: 'msa',
+          uploadedAt: '2023-01-01T00:00:00.000Z',
+          analyzedAt: '2023-01-01T00:00:00.000Z',
+          riskScore: { overall: 100 }
+        })
+      ]);
+
+      expect(score.documents.find(d => d.documentId === 'old')!.weight).toBe(0.25);
+      expect(score.overall).toBe(20);
+    });
+
+    it('should weight a document by its latest version, not its first upload', () => {
+      const sow = buildAnalysis({
+        documentId: 'sow',
+        filename: 'Acme SOW.pdf',
+        documentType: 'sow',
+        uploadedAt: '2024-06-01T00:00:00.000Z',
+        analyzedAt: '2024-06-01T00:00:00.000Z',
+        riskScore: { overall: 0 }
+      });
+      const msa = buildAnalysis({
+        documentId: 'msa',
+        filename: 'Acme MSA.pdf',
+        documentType: 'msa',
+        uploadedAt: '2023-01-01T00:00:00.000Z',
+        analyzedAt: '2023-01-01T00:00:00.000Z',
+        riskScore: { overall: 100 }
+      });
+      const before = calculateDealScore([msa, sow]);
+
+      const revised = calculateDealScore([{ ...msa, version: 2, analyzedAt: '2025-01-01T00:00:00.000Z' }, sow]);
+
+      expect(before.documents.map(d => d.documentId)).toEqual(['sow', 'msa']);
+      expect(before.documents.find(d => d.documentId === 'msa')!.weight).toBe(0.25);
+      expect(revised.documents.map(d => d.documentId)).toEqual(['msa', 'sow']);
+      expect(revised.documents.find(d => d.documentId === 'msa')!.weight).toBe(1);
+      expect(revised.overall).toBeGreaterThan(before.overall!);
+    });
+
+    it('should let the newest revision of a document supersede older ones', () => {
+      const score = calculateDealScore([
+        buildAnalysis({ documentId: 'v1', filename: 'Acme MSA v1.pdf', documentType: 'msa', riskScore: { overall: 90 } }),
+        buildAnalysis({
+          documentId: 'v2',
+          filename: 'Acme MSA v2 (redline).pdf',
+          documentType: 'msa',
+          uploadedAt: '2024-03-01T00:00:00.000Z',
+          analyzedAt: '2024-03-01T00:00:00.000Z',
+          riskScore: { overall: 10 }
+        })
+      ]);
+
+      expect(score.overall).toBe(10);
+      expect(score.documents).toEqual([
+        expect.objectContaining({ documentId: 'v2', weight: 1 }),
+        expect.objectContaining({ documentId: 'v1', weight: 0, supersededBy: 'v2' })
+      ]);
+    });
+
+    it('should flag documents expected at the deal stage that are missing or unsigned', () => {
+      const msa = buildAnalysis({ documentId: 'msa', filename: 'Acme MSA.pdf', documentType: 'msa', riskScore: { overall: 20 } });
+      const sow = buildAnalysis({ documentId: 'sow', filename: 'Acme SOW.pdf', documentType: 'sow', riskScore: { overall: 20 }, blockers: [unsigned] });
+
+      expect(calculateDealScore([msa, sow], 'closedwon').missingDocuments.map(d => d.label)).toEqual(['Signed SOW']);
+      expect(calculateDealScore([msa, sow], 'contractsent').missingDocuments).toEqual([]);
+      expect(calculateDealScore([msa, sow], 'customstage').missingDocuments).toEqual([]);
+
+      const signedSow = {
+        ...sow,
+        blockers: [{ ...unsigned, resolved: { by: 'rep@example.com', at: '2024-01-02T00:00:00.000Z' } }]
+      };
+      expect(calculateDealScore([msa, signedSow], 'closedwon').missingDocuments).toEqual([]);
+    });
+
+    it('should have no score for a deal without documents', () => {
+      const score = calculateDealScore([], 'closedwon');
+
+      expect(score.overall).toBeNull();
+      expect(score.grade).toBeNull();
+      expect(score.missingDocuments.map(d => d.label)).toEqual(['Signed contract', 'Signed SOW']);
+    });
+  });
+
+  describe('countOpenFindings', () => {
+    const risk: DocumentRisk = {
+      id: 'r1',
+      category: 'liability_exposure',
+      severity: 'high',
+      title: 'Uncapped liability',
+      description: 'Liability is not capped.',
+      recommendation: 'Add a cap.'
+    };
+    const blocker: DealBlocker = {
+      id: 'b1',
+      type: 'missing_signature',
+      title: 'Signatures Required',
+      description: 'Unsigned',
+      requiredAction: 'Obtain signatures'
+    };
+    const decision = { by: 'rep@example.com', at: '2024-03-02T00:00:00.000Z' };
+
+    it('should leave out superseded revisions, dismissed risks and resolved blockers', () => {
+      const v1 = buildAnalysis({
+        documentId: 'v1',
+        filename: 'Acme MSA v1.pdf',
+        documentType: 'msa',
+        riskScore: { overall: 90 },
+        risks: [risk, { ...risk, id: 'r2' }],
+        blockers: [blocker]
+      });
+      const v2 = buildAnalysis({
+        documentId: 'v2',
+        filename: 'Acme MSA v2.pdf',
+        documentType: 'msa',
+        uploadedAt: '2024-03-01T00:00:00.000Z',
+        analyzedAt: '2024-03-01T00:00:00.000Z',
+        riskScore: { overall: 30 },
+        risks: [risk, { ...risk, id: 'r2', dismissed: decision }],
+        blockers: [{ ...blocker, resolved: decision }, { ...blocker, id: 'b2', type: 'legal_review' as const }]
+      });
+
+      expect(countOpenFindings([v1, v2])).toEqual({ risks: 1, blockers: 1 });
+      expect(countOpenFindings([v1])).toEqual({ risks: 2, blockers: 1 });
+      expect(countOpenFindings([])).toEqual({ risks: 0, blockers: 0 });
+    });
+  });
+
   describe('generateRequiredActions', () => {
     it('should generate actions from critical risks', () => {
       const risks: DocumentRisk[] = [
@@ -167,6 +498,43 @@ describe('Scoring Engine Service', () => {
       expect(actions.length).toBeGreaterThan(0);
     });
 
+    it('should carry the blocker owner and due date over to its action', () => {
+      const blockers: DealBlocker[] = [
+        {
+          id: '1',
+          type: 'pending_approval',
+          title: 'Approval',
+          description: 'Finance must approve',
+          requiredAction: 'Get finance approval',
+          assignedTo: '12345',
+          dueDate: '2024-03-01'
+        }
+      ];
+
+      const [action] = generateRequiredActions([], [], blockers);
+
+      expect(action).toMatchObject({ priority: 'high', assignedTo: '12345', deadline: '2024-03-01', status: 'pending' });
+    });
+
+    it('should link actions to their findings and skip dismissed risks and resolved blockers', () => {
+      const decision = { by: 'rep@example.com', at: '2024-02-01T00:00:00.000Z' };
+      const risks: DocumentRisk[] = [
+        { id: 'r1', category: 'liability_exposure', severity: 'critical', title: 'A', description: 'A', recommendation: 'Fix A' },
+        { id: 'r2', category: 'liability_exposure', severity: 'critical', title: 'B', description: 'B', recommendation: 'Fix B', dismissed: decision }
+      ];
+      const blockers: DealBlocker[] = [
+        { id: 'b1', type: 'legal_review', title: 'C', description: 'C', requiredAction: 'Review C' },
+        { id: 'b2', type: 'legal_review', title: 'D', description: 'D', requiredAction: 'Review D', resolved: decision }
+      ];
+
+      const actions = generateRequiredActions(risks, [], blockers);
+
+      expect(actions.map(({ action, riskId, blockerId }) => ({ action, riskId, blockerId }))).toEqual([
+        { action: 'Fix A', riskId: 'r1', blockerId: undefined },
+        { action: 'Review C', riskId: undefined, blockerId: 'b1' }
+      ]);
+    });
+
     it('should sort actions by priority', () => {
       const risks: DocumentRisk[] = [
         {
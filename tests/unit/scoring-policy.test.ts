@@ -0,0 +1,118 @@
+/**
+ * Unit tests for the scoring policy service
+ */
+
+import {
+  DEFAULT_SCORING_POLICY,
+  getScoringPolicy,
+  getScoringPolicyVersion,
+  listScoringPolicies,
+  setScoringPolicy,
+  removeScoringPolicy,
+  validateScoringPolicy
+} from '../../src/services/scoring-policy.service';
+import { calculateRiskScore } from '../../src/services/scoring-engine.service';
+import { createInMemoryRepository, setRepository } from '../../src/services/repository.service';
+import { DocumentRisk } from '../../src/types';
+
+const liabilityRisk: DocumentRisk = {
+  id: 'r1',
+  category: 'liability_exposure',
+  severity: 'high',
+  title: 'Uncapped liability',
+  description: 'Liability is not capped',
+  recommendation: 'Add a cap'
+};
+
+const renewalRisk: DocumentRisk = {
+  id: 'r2',
+  category: 'termination_risk',
+  severity: 'high',
+  title: 'Auto-renewal',
+  description: 'Renews automatically',
+  recommendation: 'Add an opt-out'
+};
+
+describe('Scoring Policy Service', () => {
+  beforeEach(() => {
+    setRepository(createInMemoryRepository());
+  });
+
+  afterAll(() => {
+    setRepository(null);
+  });
+
+  describe('validateScoringPolicy', () => {
+    it('should fill fields left out from the default policy', () => {
+      const { policy } = validateScoringPolicy({ riskWeights: { liability_exposure: 60 } });
+
+      expect(policy!.riskWeights).toEqual({ ...DEFAULT_SCORING_POLICY.riskWeights, liability_exposure: 60 });
+      expect(policy!.gradeCutoffs).toEqual(DEFAULT_SCORING_POLICY.gradeCutoffs);
+      expect(policy).not.toHaveProperty('version');
+    });
+
+    it.each([
+      [[], 'Policy must be an object'],
+      [{ weights: {} }, 'Unknown policy field: weights'],
+      [{ riskWeights: { auto_renewal: 5 } }, 'riskWeights keys must be one of'],
+      [{ riskWeights: { payment_risk: -1 } }, 'riskWeights.payment_risk must be a number from 0 to 100'],
+      [{ severityMultipliers: { low: 2 } }, 'severityMultipliers.low must be a number from 0 to 1'],
+      [{ missingTermPenalties: 'high' }, 'missingTermPenalties must be an object'],
+      [{ blockerPenalty: '5' }, 'blockerPenalty must be a number from 0 to 100'],
+      [{ gradeCutoffs: { B: 10 } }, 'gradeCutoffs must increase from A to D'],
+      [{ gradeCutoffs: { A: 20.5 } }, 'gradeCutoffs.A must be a whole number']
+    ])('should reject %j', (input, message) => {
+      const { policy, error } = validateScoringPolicy(input);
+
+      expect(policy).toBeUndefined();
+      expect(error).toContain(message);
+    });
+  });
+
+  describe('policy versions', () => {
+    it('should use the default policy until the portal saves one', async () => {
+      expect(await getScoringPolicy('portal-1')).toBe(DEFAULT_SCORING_POLICY);
+      expect(await getScoringPolicy()).toBe(DEFAULT_SCORING_POLICY);
+    });
+
+    it('should number each saved policy and keep earlier versions', async () => {
+      const { policy } = validateScoringPolicy({ blockerPenalty: 10 });
+      const first = await setScoringPolicy('portal-1', policy!);
+      const second = await setScoringPolicy('portal-1', { ...policy!, blockerPenalty: 20 });
+
+      expect([first.version, second.version]).toEqual([1, 2]);
+      expect(second.createdAt).toBeDefined();
+      expect((await getScoringPolicy('portal-1')).blockerPenalty).toBe(20);
+      expect((await getScoringPolicyVersion('portal-1', 1))!.blockerPenalty).toBe(10);
+      expect(await getScoringPolicyVersion('portal-1', 0)).toBe(DEFAULT_SCORING_POLICY);
+      expect(await getScoringPolicyVersion('portal-2', 1)).toBeUndefined();
+      expect(await getScoringPolicy('portal-2')).toBe(DEFAULT_SCORING_POLICY);
+    });
+
+    it('should not reuse version numbers after reverting to the default', async () => {
+      const { policy } = validateScoringPolicy({});
+      await setScoringPolicy('portal-1', policy!);
+
+      expect(await removeScoringPolicy('portal-1')).toBe(true);
+      expect(await getScoringPolicy('portal-1')).toBe(DEFAULT_SCORING_POLICY);
+      expect((await setScoringPolicy('portal-1', policy!)).version).toBe(2);
+      expect((await listScoringPolicies('portal-1')).map(p => p.version)).toEqual([1, 2]);
+    });
+  });
+
+  describe('scoring with a policy', () => {
+    it('should weigh liability above auto-renewal when the portal says so', async () => {
+      const { policy } = validateScoringPolicy({
+        riskWeights: { liability_exposure: 80, termination_risk: 4 },
+        gradeCutoffs: { A: 10, B: 20, C: 30, D: 50 }
+      });
+      const saved = await setScoringPolicy('portal-1', policy!);
+
+      const defaultScore = calculateRiskScore([liabilityRisk, renewalRisk], [], []);
+      const portalScore = calculateRiskScore([liabilityRisk, renewalRisk], [], [], saved);
+
+      expect(defaultScore).toMatchObject({ overall: 34, grade: 'B', policyVersion: 0 });
+      expect(portalScore).toMatchObject({ overall: 63, grade: 'F', policyVersion: 1 });
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the timeline service
+ */
+
+import { isRetryableHubSpotError, publishAnalysisEvent } from '../../src/services/timeline.service';
+import { createTimelineEvent } from '../../src/services/crm-card.service';
+import { createInMemoryRepository, setRepository } from '../../src/services/repository.service';
+import { config } from '../../src/config';
+import { DocumentAnalysis, Repository } from '../../src/types';
+
+jest.mock('../../src/services/crm-card.service', () => ({
+  ...jest.requireActual('../../src/services/crm-card.service'),
+  createTimelineEvent: jest.fn()
+}));
+
+const mockCreateTimelineEvent = createTimelineEvent as jest.MockedFunction<typeof createTimelineEvent>;
+
+const analysis: DocumentAnalysis = {
+  documentId: 'doc-1',
+  filename: 'contract.pdf',
+  documentType: 'contract',
+  uploadedAt: '2024-01-01T00:00:00.000Z',
+  analyzedAt: '2024-01-01T00:00:00.000Z',
+  entities: [],
+  risks: [],
+  missingTerms: [],
+  blockers: [],
+  riskScore: {
+    overall: 10,
+    breakdown: { missingClauses: 0, unfavorableTerms: 0, complianceIssues: 0, liabilityExposure: 0 },
+    grade: 'A'
+  },
+  summary: 'Summary'
+};
+
+const noDelay = { attempts: 3, baseDelayMs: 0 };
+
+describe('Timeline Service', () => {
+  let repository: Repository;
+
+  beforeEach(async () => {
+    repository = createInMemoryRepository();
+    setRepository(repository);
+    await repository.deals.add('portal-1', 'deal-1', 'doc-1');
+    config.hubspot.timelineEventTemplateId = 'template-1';
+    mockCreateTimelineEvent.mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    config.hubspot.timelineEventTemplateId = '';
+    jest.restoreAllMocks();
+  });
+
+  describe('publishAnalysisEvent', () => {
+    it('should post an event to every deal the document is attached to', async () => {
+      await repository.deals.add('portal-1', 'deal-2', 'doc-1');
+      await repository.deals.add('portal-1', 'deal-3', 'doc-2');
+      mockCreateTimelineEvent.mockResolvedValue();
+
+      const result = await publishAnalysisEvent('portal-1', analysis, noDelay);
+
+      expect(result).toEqual({ published: ['deal-1', 'deal-2'], failed: [] });
+      expect(mockCreateTimelineEvent).toHaveBeenCalledWith('portal-1', 'deal-1', analysis, 'template-1');
+      expect(mockCreateTimelineEvent).toHaveBeenCalledWith('portal-1', 'deal-2', analysis, 'template-1');
+    });
+
+    it('should retry while HubSpot is unavailable', async () => {
+      mockCreateTimelineEvent
+        .mockRejectedValueOnce(Object.assign(new Error('Service Unavailable'), { code: 503 }))
+        .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+        .mockResolvedValueOnce();
+
+      const result = await publishAnalysisEvent('portal-1', analysis, noDelay);
+
+      expect(result).toEqual({ published: ['deal-1'], failed: [] });
+      expect(mockCreateTimelineEvent).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up without retrying a rejected event', async () => {
+      mockCreateTimelineEvent.mockRejectedValue(Object.assign(new Error('Bad Request'), { code: 400 }));
+
+      const result = await publishAnalysisEvent('portal-1', analysis, noDelay);
+
+      expect(result).toEqual({ published: [], failed: ['deal-1'] });
+      expect(mockCreateTimelineEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop after the last attempt', async () => {
+      mockCreateTimelineEvent.mockRejectedValue(Object.assign(new Error('Too Many Requests'), { code: 429 }));
+
+      const result = await publishAnalysisEvent('portal-1', analysis, noDelay);
+
+      expect(result.failed).toEqual(['deal-1']);
+      expect(mockCreateTimelineEvent).toHaveBeenCalledTimes(3);
+    });
+
+    it('should post with the registered template over the configured one', async () => {
+      await repository.appSettings.save({ timelineEventTemplateId: 'template-2' });
+      mockCreateTimelineEvent.mockResolvedValue();
+
+      await publishAnalysisEvent('portal-1', analysis, noDelay);
+
+      expect(mockCreateTimelineEvent).toHaveBeenCalledWith('portal-1', 'deal-1', analysis, 'template-2');
+    });
+
+    it('should do nothing until a template is registered', async () => {
+      config.hubspot.timelineEventTemplateId = '';
+
+      const result = await publishAnalysisEvent('portal-1', analysis, noDelay);
+
+      expect(result).toEqual({ published: [], failed: [] });
+      expect(mockCreateTimelineEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isRetryableHubSpotError', () => {
+    it('should classify HubSpot and network errors', () => {
+      expect(isRetryableHubSpotError({ code: 502 })).toBe(true);
+      expect(isRetryableHubSpotError({ code: 429 })).toBe(true);
+      expect(isRetryableHubSpotError({ code: 404 })).toBe(false);
+      expect(isRetryableHubSpotError(Object.assign(new Error('fetch failed'), { cause: { code: 'ECONNREFUSED' } }))).toBe(true);
+      expect(isRetryableHubSpotError(new Error('Unexpected'))).toBe(false);
+      expect(isRetryableHubSpotError(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Unit tests for the Word document service
+ */
+
+import JSZip from 'jszip';
+import * as CFB from 'cfb';
+import { parseDocxBuffer, parseDocBuffer } from '../../src/services/word-document.service';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+async function buildDocx(body: string, extras: Record<string, string> = {}): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('word/document.xml', `<?xml version="1.0"?><w:document ${W_NS}><w:body>${body}</w:body></w:document>`);
+  for (const [name, content] of Object.entries(extras)) {
+    zip.file(name, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+function paragraph(text: string, properties: string = ''): string {
+  return `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+const STYLES_XML = `<w:styles ${W_NS}>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/></w:style>
+</w:styles>`;
+
+const NUMBERING_XML = `<w:numbering ${W_NS}>
+  <w:abstractNum w:abstractNumId="0">
+    <w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>
+    <w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="lowerLetter"/><w:lvlText w:val="(%2)"/></w:lvl>
+  </w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+const numbered = (level: number) => `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr>`;
+
+/**
+ * Build a minimal Word 97-2003 file: one compressed and one UTF-16 text piece,
+ * optionally preceded in the piece table by raw property modifier (Prc) bytes
+ */
+function buildDoc(compressedText: string, unicodeText: string, summary?: Buffer, prcs = Buffer.alloc(0)): Buffer {
+  const wordDocument = Buffer.alloc(0x800 + compressedText.length + unicodeText.length * 2);
+  wordDocument.writeUInt16LE(0xa5ec, 0);
+  wordDocument.writeUInt16LE(0x0200, 0x0a); // Use 1Table
+  wordDocument.writeUInt16LE(14, 32); // csw
+  wordDocument.writeUInt16LE(22, 62); // cslw
+  wordDocument.writeUInt32LE(compressedText.length + unicodeText.length, 76); // ccpText
+  wordDocument.writeUInt16LE(0x5d, 152); // cbRgFcLcb
+  wordDocument.writeUInt32LE(0, 418); // fcClx
+  wordDocument.writeUInt32LE(prcs.length + 1 + 4 + 3 * 4 + 2 * 8, 422); // lcbClx
+
+  const compressedOffset = 0x800;
+  const unicodeOffset = compressedOffset + compressedText.length;
+  wordDocument.write(compressedText, compressedOffset, 'latin1');
+  wordDocument.write(unicodeText, unicodeOffset, 'utf16le');
+
+  const table = Buffer.alloc(1 + 4 + 3 * 4 + 2 * 8);
+  table[0] = 0x02;
+  table.writeUInt32LE(3 * 4 + 2 * 8, 1);
+  table.writeUInt32LE(0, 5);
+  table.writeUInt32LE(compressedText.length, 9);
+  table.writeUInt32LE(compressedText.length + unicodeText.length, 13);
+  table.writeUInt32LE((0x40000000 | (compressedOffset * 2)) >>> 0, 17 + 2);
+  table.writeUInt32LE(unicodeOffset, 25 + 2);
+
+  const container = CFB.utils.cfb_new();
+  CFB.utils.cfb_add(container, '/WordDocument', wordDocument);
+  CFB.utils.cfb_add(container, '/1Table', Buffer.concat([prcs, table]));
+  if (summary) {
+    CFB.utils.cfb_add(container, '/\u0005SummaryInformation', summary);
+  }
+  return Buffer.from(CFB.write(container, { type: 'buffer' }));
+}
+
+/**
+ * Build a SummaryInformation property set with string properties
+ */
+function buildSummaryInformation(properties: Record<number, string>): Buffer {
+  const values = Object.entries(properties).map(([id, value]) => {
+    const data = Buffer.alloc(8 + value.length + 1);
+    data.writeUInt32LE(0x1e, 0);
+    data.writeUInt32LE(value.length + 1, 4);
+    data.write(value, 8, 'latin1');
+    return { id: Number(id), data };
+  });
+
+  const header = Buffer.alloc(48);
+  header.writeUInt16LE(0xfffe, 0);
+  header.writeUInt32LE(1, 24);
+  header.writeUInt32LE(48, 44);
+
+  const sectionHeader = Buffer.alloc(8 + values.length * 8);
+  let offset = sectionHeader.length;
+  values.forEach(({ id, data }, index) => {
+    sectionHeader.writeUInt32LE(id, 8 + index * 8);
+    sectionHeader.writeUInt32LE(offset, 12 + index * 8);
+    offset += data.length;
+  });
+  sectionHeader.writeUInt32LE(offset, 0);
+  sectionHeader.writeUInt32LE(values.length, 4);
+
+  return Buffer.concat([header, sectionHeader, ...values.map(v => v.data)]);
+}
+
+describe('Word Document Service', () => {
+  describe('parseDocxBuffer', () => {
+    it('should extract paragraph text', async () => {
+      const docx = await buildDocx(
+        paragraph('This Agreement is entered into by Acme Corp.') +
+        paragraph('Payment is due within 30 days.')
+      );
+
+      const parsed = await parseDocxBuffer(docx);
+
+      expect(parsed.text).toContain('This Agreement is entered into by Acme Corp.');
+      expect(parsed.text).toContain('Payment is due within 30 days.');
+      expect(parsed.pages).toBe(1);
+      expect(parsed.confidence).toBe(1.0);
+    });
+
+    it('should decode XML entities', async () => {
+      const docx = await buildDocx(paragraph('Smith &amp; Jones &lt;Vendor&gt;'));
+
+      const parsed = await parseDocxBuffer(docx);
+
+      expect(parsed.paragraphs![0].text).toBe('Smith & Jones <Vendor>');
+    });
+
+    it('should detect headings from paragraph styles', async () => {
+      const docx = await buildDocx(
+        paragraph('Limitation of Liability', '<w:pStyle w:val="Heading1"/>') +
+        paragraph('Neither party shall be liable for indirect damages.') +
+        paragraph('Exclusions', '<w:pStyle w:val="Heading2"/>'),
+        { 'word/styles.xml': STYLES_XML }
+      );
+
+      const parsed = await parseDocxBuffer(docx);
+
+      expect(parsed.paragraphs).toEqual([
+        { kind: 'heading', text: 'Limitation of Liability', page: 1, level: 1 },
+        { kind: 'paragraph', text: 'Neither party shall be liable for indirect damages.', page: 1 },
+        { kind: 'heading', text: 'Exclusions', page: 1, level: 2 }
+      ]);
+    });
+
+    it('should render numbered list structure', async () => {
+      const docx = await buildDocx(
+        paragraph('Definitions', numbered(0)) +
+        paragraph('Affiliate means any controlled entity.', numbered(1)) +
+        paragraph('Services means the hosted platform.', numbered(1)) +
+        paragraph('Fees', numbered(0)) +
+        paragraph('Invoices are issued monthly.', numbered(1)),
+        { 'word/numbering.xml': NUMBERING_XML }
+      );
+
+      const parsed = await parseDocxBuffer(docx);
+
+      expect(parsed.paragraphs!.map(p => p.number)).toEqual(['1.', '(a)', '(b)', '2.', '(a)']);
+      expect(parsed.paragraphs![1]).toMatchObject({ kind: 'list_item', level: 1 });
+      expect(parsed.text).toContain('2. Fees\n(a) Invoices are issued monthly.');
+    });
+
+    it('should split pages on explicit page breaks', async () => {
+      const docx = await buildDocx(
+        paragraph('Page one content.') +
+        '<w:p><w:r><w:br w:type="page"/></w:r></w:p>' +
+        paragraph('Page two content.')
+      );
+
+      const parsed = await parseDocxBuffer(docx);
+
+      expect(parsed.pages).toBe(2);
+      expect(parsed.paragraphs![1].page).toBe(2);
+      expect(parsed.text).toContain('-- 1 of 2 --');
+      expect(parsed.text).toContain('-- 2 of 2 --');
+    });
+
+    it('should prefer rendered page breaks when present', async () => {
+      const docx = await buildDocx(
+        paragraph('First page.') +
+        '<w:p><w:r><w:br w:type="page"/></w:r></w:p>' +
+        '<w:p><w:r><w:lastRenderedPageBreak/><w:t>Second page.</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:lastRenderedPageBreak/><w:t>Third page.</w:t></w:r></w:p>'
+      );
+
+      const parsed = await parseDocxBuffer(docx);
+
+      expect(parsed.pages).toBe(3);
+      expect(parsed.paragraphs!.map(p => p.page)).toEqual([1, 2, 3]);
+    });
+
+    it('should read core document properties', async () => {
+      const docx = await buildDocx(paragraph('Body'), {
+        'docProps/core.xml': `<cp:coreProperties xmlns:cp="x" xmlns:dc="y">
+          <dc:title>Master Services Agreement</dc:title>
+          <dc:creator>Jane Counsel</dc:creator>
+          <cp:lastModifiedBy>Legal Ops</cp:lastModifiedBy>
+        </cp:coreProperties>`
+      });
+
+      const parsed = await parseDocxBuffer(docx);
+
+      expect(parsed.metadata.title).toBe('Master Services Agreement');
+      expect(parsed.metadata.author).toBe('Jane Counsel');
+      expect(parsed.metadata.lastSavedBy).toBe('Legal Ops');
+    });
+
+    it('should reject archives without a document part', async () => {
+      const zip = new JSZip();
+      zip.file('readme.txt', 'not a docx');
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      await expect(parseDocxBuffer(buffer)).rejects.toThrow('word/document.xml');
+    });
+  });
+
+  describe('parseDocBuffer', () => {
+    it('should extract text from compressed and Unicode pieces', async () => {
+      const doc = buildDoc('Master Services Agreement\r', 'Fees are due within 30 days \u2014 net.\r');
+
+      const parsed = await parseDocBuffer(doc);
+
+      expect(parsed.paragraphs!.map(p => p.text)).toEqual([
+        'Master Services Agreement',
+        'Fees are due within 30 days \u2014 net.'
+      ]);
+      expect(parsed.pages).toBe(1);
+      expect(parsed.text).toContain('-- 1 of 1 --');
+    });
+
+    it('should map Windows-1252 characters in compressed text', async () => {
+      const doc = buildDoc('\u0093Customer\u0094 means Acme\r', '');
+
+      const parsed = await parseDocBuffer(doc);
+
+      expect(parsed.paragraphs![0].text).toBe('\u201cCustomer\u201d means Acme');
+    });
+
+    it('should drop field codes but keep field results', async () => {
+      const doc = buildDoc('See \u0013 REF Clause5 \\h \u0014Section 5\u0015 below.\r', '');
+
+      const parsed = await parseDocBuffer(doc);
+
+      expect(parsed.paragraphs![0].text).toBe('See Section 5 below.');
+    });
+
+    it('should split pages and table cells', async () => {
+      const doc = buildDoc('Cell one\u0007Cell two\u0007\r\u000cSecond page\r', '');
+
+      const parsed = await parseDocBuffer(doc);
+
+      expect(parsed.paragraphs).toEqual([
+        { kind: 'paragraph', text: 'Cell one', page: 1 },
+        { kind: 'paragraph', text: 'Cell two', page: 1 },
+        { kind: 'paragraph', text: 'Second page', page: 2 }
+      ]);
+      expect(parsed.pages).toBe(2);
+    });
+
+    it('should read summary information properties', async () => {
+      const summary = buildSummaryInformation({
+        2: 'Legacy MSA',
+        4: 'Jane Counsel',
+        8: 'Legal Ops'
+      });
+      const doc = buildDoc('Body text\r', '', summary);
+
+      const parsed = await parseDocBuffer(doc);
+
+      expect(parsed.metadata).toMatchObject({
+        title: 'Legacy MSA',
+        author: 'Jane Counsel',
+        lastSavedBy: 'Legal Ops'
+      });
+    });
+
+    it('should skip property modifiers before the piece table', async () => {
+      const prc = Buffer.from([0x01, 0x02, 0x00, 0xaa, 0xbb]);
+
+      const parsed = await parseDocBuffer(buildDoc('Master ', 'Agreement', undefined, prc));
+
+      expect(parsed.text).toContain('Master Agreement');
+    });
+
+    it('should reject property modifiers with a negative or oversized length', async () => {
+      const negative = Buffer.from([0x01, 0xfd, 0xff]);
+      const oversized = Buffer.from([0x01, 0xff, 0x7f]);
+
+      await expect(parseDocBuffer(buildDoc('Master ', 'Agreement', undefined, negative)))
+        .rejects.toThrow('Invalid DOC file: malformed piece table');
+      await expect(parseDocBuffer(buildDoc('Master ', 'Agreement', undefined, oversized)))
+        .rejects.toThrow('Invalid DOC file: malformed piece table');
+    });
+
+    it('should reject files that are not compound documents', async () => {
+      await expect(parseDocBuffer(Buffer.from('plain text'))).rejects.toThrow('Invalid DOC file');
+    });
+  });
+});